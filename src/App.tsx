@@ -8,28 +8,49 @@
  * - 提示消息显示
  */
 
-import { useState, useRef, useEffect } from 'react';
-import { useAlert, usePsdParser, useFileUpload } from './hooks';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useAlert, usePsdParser, useFileUpload, useVisibleComposite } from './hooks';
 import { Layer, LayerTreeNode, ExportOptions } from './types';
 import { APP_CONFIG } from './config';
-import { exportLayerImage, exportLayersToFolder } from './utils/exportUtils';
+import { ExportableLayer, WrittenFile, describePngSavings, exportLayerImage, exportLayersToFolder } from './utils/exportUtils';
 import { exportLayerTreeWithStructure } from './utils/hierarchicalExport';
+import { TextExportFormat, exportTextLayers } from './utils/textExport';
+import { createLayoutManifest } from './utils/layoutManifest';
+import { exportAtlas } from './utils/atlasExport';
+import { exportCssSprite, getDesignPixelRatio } from './utils/cssSprite';
+import { hasImage } from './utils/imageStore';
+import { collectNodeIds, findTreeNode, getVisibleGroupImage, releaseVisibleGroupImage } from './utils/layerUtils';
+import { TEXTURE_LAYER_ID } from './utils/textureImport';
 import AlertModal from './components/AlertModal/AlertModal';
 import PreviewArea from './components/PreviewArea';
+import { FULL_PSD_LAYER_ID } from './components/LayerTree/LayerTree';
 import RightSidebar from './components/RightSidebar/RightSidebar';
 import ExportModal from './components/ExportModal/ExportModal';
 import './App.css';
 
+/**
+ * 导出目标
+ */
+type ExportTarget = 'selected' | 'structure' | 'atlas' | 'css-sprite';
+
+/** 各导出目标的配置框标题 */
+const EXPORT_MODAL_TITLES: Record<ExportTarget, string> = {
+  selected: '批量导出配置',
+  structure: '结构导出配置',
+  atlas: '图集导出配置',
+  'css-sprite': 'CSS 精灵图导出配置',
+};
+
 /**
  * PSD 查看器主组件
  */
 const PSDViewer = () => {
   // 使用自定义 Hooks 管理状态和逻辑
   const { showAlert, hideAlert, isAlertVisible, alertMessage, alertType } = useAlert();
-  // useLayerSelection 仅用于 toggleSelectAll，selectedIndexes 和 toggleSelection 变为本地管理
+  // useLayerSelection 仅用于 toggleSelectAll，selectedIds 和 toggleSelection 变为本地管理
   // const { toggleSelectAll } = useLayerSelection();
   // 使用 PSD 解析 Hook
-  const { layers, layerTree, loading, error, psdPreviewUrl, parsePsdFile, psdInfo } = usePsdParser();
+  const { layers, layerTree, loading, progress, error, psdPreviewKey, parsePsdFile, cancel: cancelParse, psdInfo } = usePsdParser();
   const { fileInputRef, handleFileChange, isDragging, dragHandlers } = useFileUpload({
     acceptedExtensions: [...APP_CONFIG.FILE.ACCEPTED_EXTENSIONS],
     maxSize: APP_CONFIG.FILE.MAX_SIZE,
@@ -38,16 +59,32 @@ const PSDViewer = () => {
 
   // 本地状态
   const [hasFile, setHasFile] = useState(false);
-  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectedLayer, setSelectedLayer] = useState<Layer | null>(null);
   const [leftWidth, setLeftWidth] = useState(30); // 左侧宽度百分比
   const isResizingRef = useRef(false);
-  // 隐藏的图层索引集合（用于选择性导出）
-  const [hiddenLayers, setHiddenLayers] = useState<Set<number>>(new Set());
+  // 隐藏的图层 id 集合（用于选择性导出）
+  const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+
+  // PSD 全图随隐藏状态重新合成
+  const { imageKey: visibleCompositeKey, refresh: refreshComposite } = useVisibleComposite({
+    tree: layerTree,
+    hiddenLayers,
+    width: psdInfo?.width ?? 0,
+    height: psdInfo?.height ?? 0,
+    bakedKey: psdPreviewKey,
+    ready: !loading && !progress,
+  });
+
+  // 按 id 查找图层
+  const layersById = useMemo(() => new Map(layers.map(layer => [layer.id, layer])), [layers]);
 
   // 导出模态框状态
   const [showExportModal, setShowExportModal] = useState(false);
-  const [exportTarget, setExportTarget] = useState<'selected' | 'structure'>('selected');
+  const [exportTarget, setExportTarget] = useState<ExportTarget>('selected');
+
+  // PSD 分辨率对应的设计稿倍率(CSS 精灵图 @2x 使用)
+  const designPixelRatio = getDesignPixelRatio(psdInfo?.resolution ?? APP_CONFIG.CSS_SPRITE.BASE_RESOLUTION);
 
   // 禁用全局右键菜单
   useEffect(() => {
@@ -112,9 +149,12 @@ const PSDViewer = () => {
     });
     
     setHasFile(true);
-    setSelectedIndexes(new Set());
-    setSelectedLayer(null);
-    setHiddenLayers(new Set());
+    // 重新加载同一文件时保留选中和隐藏状态(图层 id 稳定)，解析完成后再剔除已不存在的图层
+    if (file.name !== psdInfo?.name) {
+      setSelectedIds(new Set());
+      setSelectedLayer(null);
+      setHiddenLayers(new Set());
+    }
 
     try {
       console.log('[App] 开始解析 PSD 文件...');
@@ -127,17 +167,42 @@ const PSDViewer = () => {
     }
   };
 
+  /**
+   * 取消正在进行的解析，回到初始界面
+   */
+  const handleCancelParse = () => {
+    console.log('[App] 用户取消解析');
+    cancelParse();
+    setHasFile(false);
+    setSelectedIds(new Set());
+    setSelectedLayer(null);
+    setHiddenLayers(new Set());
+  };
+
+  // 新的图层树就绪后，剔除选中、隐藏和预览中已不存在的图层
+  useEffect(() => {
+    if (layerTree.length === 0) return;
+    const ids = collectNodeIds(layerTree);
+    const prune = (prev: Set<string>) => {
+      const next = new Set([...prev].filter(id => ids.has(id) || id === FULL_PSD_LAYER_ID));
+      return next.size === prev.size ? prev : next;
+    };
+    setSelectedIds(prune);
+    setHiddenLayers(prune);
+    setSelectedLayer(prev => (prev && !ids.has(prev.id) && prev.id !== FULL_PSD_LAYER_ID ? null : prev));
+  }, [layerTree]);
+
   /**
    * 切换图层可见性（用于选择性导出）
-   * @param index - 图层索引
+   * @param id - 图层 id
    */
-  const handleToggleLayerVisibility = (index: number) => {
+  const handleToggleLayerVisibility = (id: string) => {
     setHiddenLayers(prev => {
       const next = new Set(prev);
-      if (next.has(index)) {
-        next.delete(index);
+      if (next.has(id)) {
+        next.delete(id);
       } else {
-        next.add(index);
+        next.add(id);
       }
       return next;
     });
@@ -145,27 +210,26 @@ const PSDViewer = () => {
 
   /**
    * 处理图层选择
-   * @param indexOrNode - 图层索引或树节点
+   * @param idOrNode - 图层 id 或树节点
    * @param multi - 是否为多选模式 (Ctrl/Cmd 键按下)
    */
-  const handleLayerSelect = (indexOrNode: number | LayerTreeNode, multi: boolean = false) => {
-    const index = typeof indexOrNode === 'number' ? indexOrNode : indexOrNode.index;
-    if (index === undefined) return;
+  const handleLayerSelect = (idOrNode: string | LayerTreeNode, multi: boolean = false) => {
+    const id = typeof idOrNode === 'string' ? idOrNode : idOrNode.id;
 
-    setSelectedIndexes(prev => {
+    setSelectedIds(prev => {
       // 如果不是多选模式，直接重置为只选中当前项
       if (!multi) {
         // 如果点击的是已选中的唯一项，则不进行操作（可选：取消选中？通常是保持选中）
         // 这里设定为点击即选中当前项，放弃其他项
-        return new Set([index]);
+        return new Set([id]);
       }
 
       // 多选模式：切换状态
       const next = new Set(prev);
-      if (next.has(index)) {
-        next.delete(index);
+      if (next.has(id)) {
+        next.delete(id);
       } else {
-        next.add(index);
+        next.add(id);
       }
       return next;
     });
@@ -184,13 +248,13 @@ const PSDViewer = () => {
    * @param layer - 要导出的图层
    */
   const handleExportLayer = async (layer: Layer) => {
-    if (!layer.imageUrl) {
+    if (!layer.imageKey || !hasImage(layer.imageKey)) {
       showAlert(APP_CONFIG.TEXT.NO_EXPORT_IMAGE, 'warning');
       return;
     }
 
     try {
-      await exportLayerImage(layer.imageUrl, layer.name);
+      await exportLayerImage(layer.imageKey, layer.name);
       showAlert('导出成功!', 'success');
     } catch (error) {
       showAlert('导出失败,请重试', 'error');
@@ -201,7 +265,7 @@ const PSDViewer = () => {
    * 打开批量导出模态框
    */
   const handleExportSelected = () => {
-    if (selectedIndexes.size === 0) {
+    if (selectedIds.size === 0) {
       showAlert('没有可导出的图层', 'warning');
       return;
     }
@@ -209,6 +273,30 @@ const PSDViewer = () => {
     setShowExportModal(true);
   };
 
+  /**
+   * 打开图集导出模态框
+   */
+  const handleExportAtlas = () => {
+    if (selectedIds.size === 0) {
+      showAlert('没有可导出的图层', 'warning');
+      return;
+    }
+    setExportTarget('atlas');
+    setShowExportModal(true);
+  };
+
+  /**
+   * 打开 CSS 精灵图导出模态框
+   */
+  const handleExportCssSprite = () => {
+    if (selectedIds.size === 0) {
+      showAlert('没有可导出的图层', 'warning');
+      return;
+    }
+    setExportTarget('css-sprite');
+    setShowExportModal(true);
+  };
+
   /**
    * 打开结构导出模态框
    */
@@ -221,62 +309,219 @@ const PSDViewer = () => {
     setShowExportModal(true);
   };
 
+  /**
+   * 导出全部文字图层的文本(JSON/CSV)
+   * @param format - 导出格式
+   */
+  const handleExportTexts = async (format: TextExportFormat) => {
+    try {
+      const count = await exportTextLayers(layerTree, format, psdInfo?.name ?? '', hiddenLayers);
+      if (count === null) {
+        // 用户取消了保存
+        return;
+      }
+      showAlert(count > 0 ? `已导出 ${count} 段文本` : '没有文字图层，已导出空文件', count > 0 ? 'success' : 'warning');
+    } catch (error) {
+      console.error('导出文本失败:', error);
+      showAlert('导出文本失败,请重试', 'error');
+    }
+  };
+
+  /**
+   * 生成导出用的 PSD 全图(按当前图层可见性合成)
+   */
+  const getCompositeExportLayer = async (): Promise<ExportableLayer | null> => {
+    const imageKey = await refreshComposite();
+    if (!imageKey || !psdInfo) return null;
+    return {
+      id: FULL_PSD_LAYER_ID,
+      name: psdInfo.name.replace(/\.[^.]+$/, ''),
+      imageKey,
+      kind: 'composite'
+    };
+  };
+
+  /**
+   * 按导出选项创建布局清单构建器
+   */
+  const createManifest = (options: ExportOptions) => {
+    // 引擎布局同样依赖清单中记录的导出文件
+    const needed = options.writeManifest || (options.engineLayout ?? 'none') !== 'none';
+    if (!needed || !psdInfo) return null;
+    return createLayoutManifest(
+      layerTree,
+      { name: psdInfo.name, width: psdInfo.width, height: psdInfo.height },
+      options.format
+    );
+  };
+
+  /**
+   * 在导出结果提示后附加 PNG 优化的节省统计
+   */
+  const withPngSavings = (message: string, files: WrittenFile[]) => {
+    const savings = describePngSavings(files, APP_CONFIG.PNG_OPTIMIZE.REPORT_MAX_FILES);
+    return savings ? `${message}\n\n${savings}` : message;
+  };
+
+  /**
+   * 收集选中且未隐藏的可导出图层
+   */
+  const collectSelectedExportLayers = async (options: ExportOptions): Promise<ExportableLayer[]> => {
+    console.log('[导出] 选中的图层 id:', Array.from(selectedIds));
+    console.log('[导出] 隐藏的图层 id:', Array.from(hiddenLayers));
+    
+    const selectedLayers: ExportableLayer[] = Array.from(selectedIds)
+      .filter(id => {
+        const isHidden = hiddenLayers.has(id);
+        if (isHidden) {
+          console.log(`[导出] 跳过隐藏图层 [${id}]: ${layersById.get(id)?.name}`);
+        }
+        return !isHidden;
+      })
+      .map(id => {
+        console.log(`[导出] 准备导出 [${id}]: ${layersById.get(id)?.name}`);
+        return layersById.get(id);
+      })
+      .filter((l): l is Layer => !!l && hasImage(l.imageKey))
+      .map(l => ({
+        id: l.id,
+        imageKey: l.imageKey!,
+        name: l.name,
+        rawImageKey: l.rawImageKey,
+        effects: l.effects,
+        exportTags: l.exportTags,
+        left: l.left,
+        top: l.top,
+        kind: l.isGroup ? 'group' as const : 'layer' as const
+      }));
+
+    // 组内有隐藏图层或需要栅格化子孙图层效果时重新合成组图像(见 releaseSelectedExportLayers),组内没有可见内容时不导出
+    for (let i = selectedLayers.length - 1; i >= 0; i--) {
+      const groupNode = selectedLayers[i].kind === 'group' ? findTreeNode(layerTree, selectedLayers[i].id) : undefined;
+      if (!groupNode) continue;
+      const groupImage = await getVisibleGroupImage(groupNode, hiddenLayers, options.rasterizeEffects === true);
+      if (groupImage) {
+        selectedLayers[i] = { ...selectedLayers[i], ...groupImage };
+      } else {
+        console.log(`[导出] 跳过没有可见内容的组 [${groupNode.id}]: ${groupNode.name}`);
+        selectedLayers.splice(i, 1);
+      }
+    }
+
+    // 选中了 PSD 全图或勾选了导出全图时,附带按当前可见性合成的全图
+    if (options.includeComposite || selectedIds.has(FULL_PSD_LAYER_ID)) {
+      const composite = await getCompositeExportLayer();
+      if (composite) selectedLayers.push(composite);
+    }
+
+    console.log('[导出] 最终导出图层数:', selectedLayers.length);
+      return selectedLayers;
+  };
+
+  /**
+   * 删除 collectSelectedExportLayers 为选中的组重新合成的临时图像
+   */
+  const releaseSelectedExportLayers = () => {
+    selectedIds.forEach(releaseVisibleGroupImage);
+  };
+
   /**
    * 执行导出操作
    */
   const handleConfirmExport = async (options: ExportOptions) => {
-    if (exportTarget === 'selected') {
-      // 批量导出选中（排除隐藏的图层）
-      console.log('[导出] 选中的图层索引:', Array.from(selectedIndexes));
-      console.log('[导出] 隐藏的图层索引:', Array.from(hiddenLayers));
-      
-      const selectedLayers = Array.from(selectedIndexes)
-        .filter(i => {
-          const isHidden = hiddenLayers.has(i);
-          if (isHidden) {
-            console.log(`[导出] 跳过隐藏图层 [${i}]: ${layers[i]?.name}`);
-          }
-          return !isHidden;
-        })
-        .map(i => {
-          console.log(`[导出] 准备导出 [${i}]: ${layers[i]?.name}`);
-          return layers[i];
-        })
-        .filter(l => l.imageUrl)
-        .map(l => ({
-          imageUrl: l.imageUrl!,
-          name: l.name
-        }));
-
-      console.log('[导出] 最终导出图层数:', selectedLayers.length);
-
-      if (selectedLayers.length === 0) {
-        showAlert('选中图层中没有可导出的图片数据（或全部被隐藏）', 'warning');
-        return;
+    // 按 PSD 画布尺寸导出时需要文档尺寸
+    if (options.framing?.fullCanvas && psdInfo) {
+      options = { ...options, documentSize: { width: psdInfo.width, height: psdInfo.height } };
+    }
+
+    if (exportTarget === 'atlas') {
+      // 打包选中图层为图集（排除隐藏的图层）
+      try {
+        const selectedLayers = await collectSelectedExportLayers(options);
+        if (selectedLayers.length === 0) {
+          showAlert('选中图层中没有可导出的图片数据（或全部被隐藏）', 'warning');
+          return;
+        }
+
+        const atlas = options.atlas ?? { ...APP_CONFIG.ATLAS.DEFAULTS, dataFormats: [...APP_CONFIG.ATLAS.DEFAULTS.dataFormats] };
+        const result = await exportAtlas(selectedLayers, { ...options, atlas }, psdInfo?.name.replace(/\.[^.]+$/, '') || 'atlas');
+        if (!result) return;
+        const failedNote = result.failed > 0 ? `; 失败: ${result.failed}` : '';
+        if (result.oversized.length > 0) {
+          showAlert(`图集导出完成! ${result.pages} 页, ${result.packed} 张图片${failedNote}; 超出页面尺寸未打包: ${result.oversized.join(', ')}`, 'warning');
+        } else {
+          showAlert(`图集导出完成! ${result.pages} 页, ${result.packed} 张图片${failedNote}`, result.failed > 0 ? 'warning' : 'success');
+        }
+      } catch (error) {
+        console.error('图集导出失败:', error);
+        showAlert('图集导出失败,请重试', 'error');
+      } finally {
+        releaseSelectedExportLayers();
       }
 
+    } else if (exportTarget === 'css-sprite') {
+      // 打包选中图层为 CSS 精灵图（排除隐藏的图层）
       try {
-        const result = await exportLayersToFolder(selectedLayers, options);
+        const selectedLayers = await collectSelectedExportLayers(options);
+        if (selectedLayers.length === 0) {
+          showAlert('选中图层中没有可导出的图片数据（或全部被隐藏）', 'warning');
+          return;
+        }
+
+        const cssSprite = options.cssSprite ?? { ...APP_CONFIG.CSS_SPRITE.DEFAULTS };
+        const result = await exportCssSprite(
+          selectedLayers,
+          { ...options, cssSprite },
+          psdInfo?.name.replace(/\.[^.]+$/, '') || 'sprite',
+          designPixelRatio
+        );
+        if (!result) return;
+        const summary = `${result.sheets} 张精灵图, ${result.icons} 个图标${result.retina ? ', 含 @2x' : ''}${result.failed > 0 ? `; 失败: ${result.failed}` : ''}`;
+        if (result.oversized.length > 0) {
+          showAlert(`精灵图导出完成! ${summary}; 超出尺寸未打包: ${result.oversized.join(', ')}`, 'warning');
+        } else {
+          showAlert(`精灵图导出完成! ${summary}`, result.failed > 0 ? 'warning' : 'success');
+        }
+      } catch (error) {
+        console.error('精灵图导出失败:', error);
+        showAlert('精灵图导出失败,请重试', 'error');
+      } finally {
+        releaseSelectedExportLayers();
+      }
+
+    } else if (exportTarget === 'selected') {
+      // 批量导出选中（排除隐藏的图层）
+      try {
+        const selectedLayers = await collectSelectedExportLayers(options);
+        if (selectedLayers.length === 0) {
+          showAlert('选中图层中没有可导出的图片数据（或全部被隐藏）', 'warning');
+          return;
+        }
+
+        const result = await exportLayersToFolder(selectedLayers, options, createManifest(options));
         if (result.success === 0 && result.failed === 0) {
           // 用户取消了选择文件夹
           return;
         }
-        showAlert(`导出完成! 成功: ${result.success}, 失败: ${result.failed}`, 'success');
+        showAlert(withPngSavings(`导出完成! 成功: ${result.success}, 失败: ${result.failed}`, result.files), 'success');
       } catch (error) {
         console.error('批量导出失败:', error);
         showAlert('批量导出失败,请重试', 'error');
+      } finally {
+        releaseSelectedExportLayers();
       }
 
     } else {
       // 按结构导出（排除隐藏的图层）
       try {
         console.log('[App] 开始按结构导出...', options);
-        const result = await exportLayerTreeWithStructure(layerTree, options, hiddenLayers);
+        const composite = options.includeComposite ? await getCompositeExportLayer() : null;
+        const result = await exportLayerTreeWithStructure(layerTree, options, hiddenLayers, composite, createManifest(options));
         if (result.success === 0 && result.failed === 0) {
           // 用户取消了选择目录
           return;
         }
-        showAlert(`按结构导出完成! 成功: ${result.success}, 失败: ${result.failed}`, 'success');
+        showAlert(withPngSavings(`按结构导出完成! 成功: ${result.success}, 失败: ${result.failed}`, result.files), 'success');
       } catch (error) {
         console.error('按结构导出失败:', error);
         showAlert('按结构导出失败,请重试', 'error');
@@ -337,19 +582,24 @@ const PSDViewer = () => {
             layers={layers}
             layerTree={layerTree}
             loading={loading}
+            progress={progress}
+            onCancelParse={handleCancelParse}
             error={error}
             hasFile={hasFile}
-            selectedIndexes={selectedIndexes}
+            selectedIds={selectedIds}
             hiddenLayers={hiddenLayers}
             onToggleSelection={handleLayerSelect}
             onToggleVisibility={handleToggleLayerVisibility}
             onExportLayer={handleExportLayer}
             onExportSelected={handleExportSelected}
             onExportWithStructure={handleExportWithStructure}
+            onExportAtlas={handleExportAtlas}
+            onExportCssSprite={handleExportCssSprite}
+            onExportTexts={handleExportTexts}
             onFileSelect={(e) => handleFileChange(e, handleFileSelect, handleError)}
             onLayerCardClick={handleLayerCardClick}
             fileInputRef={fileInputRef}
-            psdPreviewUrl={psdPreviewUrl}
+            psdPreviewKey={visibleCompositeKey}
             psdInfo={psdInfo}
             isDragging={isDragging}
             dragHandlers={dragHandlers}
@@ -366,6 +616,7 @@ const PSDViewer = () => {
         <div style={{ flex: 1, minWidth: '300px', display: 'flex' }}>
           <RightSidebar
             selectedLayer={selectedLayer}
+            texture={selectedLayer?.id === TEXTURE_LAYER_ID ? psdInfo?.texture : undefined}
           />
         </div>
       </div>
@@ -385,7 +636,9 @@ const PSDViewer = () => {
         isOpen={showExportModal}
         onClose={() => setShowExportModal(false)}
         onConfirm={handleConfirmExport}
-        title={exportTarget === 'selected' ? '批量导出配置' : '结构导出配置'}
+        title={EXPORT_MODAL_TITLES[exportTarget]}
+        mode={exportTarget === 'atlas' || exportTarget === 'css-sprite' ? exportTarget : 'images'}
+        designPixelRatio={designPixelRatio}
       />
     </div>
   );
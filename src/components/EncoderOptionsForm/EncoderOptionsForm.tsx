@@ -0,0 +1,108 @@
+/**
+ * 编码选项表单组件
+ *
+ * 按编码器注册的 fields 生成导出格式的选项控件(见 utils/imageEncoders),新增格式或选项无需修改界面
+ */
+
+import { EncoderOptionField, EncoderOptionsMap, ExportFormat, ImageEncoder } from '../../types';
+import './EncoderOptionsForm.css';
+
+/**
+ * EncoderOptionsForm 组件属性接口
+ */
+interface EncoderOptionsFormProps<F extends ExportFormat> {
+    /** 当前格式的编码器 */
+    encoder: ImageEncoder<F>;
+    /** 当前选项 */
+    options: EncoderOptionsMap[F];
+    /** 选项修改回调,传入经过 normalize 修正的完整选项 */
+    onChange: (options: EncoderOptionsMap[F]) => void;
+}
+
+const EncoderOptionsForm = <F extends ExportFormat>({ encoder, options, onChange }: EncoderOptionsFormProps<F>) => {
+    type Options = EncoderOptionsMap[F];
+
+    const update = (key: keyof Options & string, value: unknown) => {
+        const next = { ...options, [key]: value } as Options;
+        onChange(encoder.normalize ? encoder.normalize(next) : next);
+    };
+
+    const renderField = (field: EncoderOptionField<Options>) => {
+        const value = options[field.key];
+        const disabled = field.enabled ? !field.enabled(options) : false;
+
+        switch (field.control) {
+            case 'checkbox':
+                return (
+                    <label key={field.key} className="form-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={Boolean(value)}
+                            disabled={disabled}
+                            onChange={e => update(field.key, e.target.checked)}
+                        />
+                        <span>{field.label}</span>
+                    </label>
+                );
+            case 'select': {
+                const choices = field.choices(options);
+                return (
+                    <select
+                        key={field.key}
+                        className="form-select"
+                        value={String(value)}
+                        disabled={disabled}
+                        // 按选项原值回写,数字选项不会变成字符串
+                        onChange={e => update(field.key, choices.find(choice => String(choice.value) === e.target.value)?.value)}
+                    >
+                        {choices.map(choice => (
+                            <option key={choice.value} value={choice.value}>{field.label}: {choice.label}</option>
+                        ))}
+                    </select>
+                );
+            }
+            case 'range':
+                return (
+                    <div key={field.key} className="encoder-option-range">
+                        <label className="form-label">{field.label}: {field.format(Number(value))}</label>
+                        <input
+                            type="range"
+                            className="form-range"
+                            min={field.min}
+                            max={field.max}
+                            step={field.step}
+                            value={Number(value)}
+                            disabled={disabled}
+                            onChange={e => update(field.key, parseFloat(e.target.value))}
+                        />
+                        <div className="quality-value">
+                            <span>低</span>
+                            <span>高</span>
+                        </div>
+                    </div>
+                );
+            case 'number':
+                return (
+                    <div key={field.key} className="encoder-option-number">
+                        <label className="form-label">{field.label}</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min={field.min}
+                            max={field.max}
+                            value={Number(value)}
+                            disabled={disabled}
+                            onChange={e => update(field.key, Math.min(field.max, Math.max(field.min, Math.round(Number(e.target.value)) || field.min)))}
+                        />
+                    </div>
+                );
+        }
+    };
+
+    const fields = encoder.fields.filter(field => !field.visible || field.visible(options));
+    if (fields.length === 0) return null;
+
+    return <div className="encoder-options">{fields.map(renderField)}</div>;
+};
+
+export default EncoderOptionsForm;
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { ExportOptions } from '../../types';
+import { AtlasDataFormat, AtlasOptions, CssSpriteOptions, DimensionSnap, EncoderOptionsMap, EngineLayoutTarget, ExportFormat, ExportOptions, ImageFraming, ScaleVariant } from '../../types';
+import { APP_CONFIG } from '../../config';
+import { IMAGE_ENCODERS, IMAGE_ENCODER_LIST, resolveEncoderOptions } from '../../utils/imageEncoders';
+import EncoderOptionsForm from '../EncoderOptionsForm/EncoderOptionsForm';
+import ScaleVariantsEditor from '../ScaleVariantsEditor/ScaleVariantsEditor';
 import './ExportModal.css';
 
 interface ExportModalProps {
@@ -8,18 +12,113 @@ interface ExportModalProps {
     onClose: () => void;
     onConfirm: (options: ExportOptions) => void;
     title?: string;
+    /** images: 逐个导出图片;atlas: 打包为图集(只支持 atlasPage 的格式);css-sprite: CSS 精灵图(固定 PNG) */
+    mode?: 'images' | 'atlas' | 'css-sprite';
+    /** PSD 设计稿倍率,不小于 2 时才能生成 @2x 精灵图 */
+    designPixelRatio?: number;
 }
 
-const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onConfirm, title = '导出配置' }) => {
-    const [format, setFormat] = useState<'png' | 'jpg' | 'blp' | 'tga'>('png');
-    const [quality, setQuality] = useState(0.9);
+/** 图集描述文件格式的显示名称 */
+const ATLAS_DATA_FORMAT_LABELS: Record<AtlasDataFormat, string> = {
+    texturepacker: 'TexturePacker JSON (Hash)',
+    libgdx: 'libGDX / Spine .atlas',
+};
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onConfirm, title = '导出配置', mode = 'images', designPixelRatio = 1 }) => {
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [encoderOptions, setEncoderOptions] = useState<Partial<EncoderOptionsMap>>({});
+    const [exportRawPixels, setExportRawPixels] = useState(false);
+    const [rasterizeEffects, setRasterizeEffects] = useState(false);
+    const [includeComposite, setIncludeComposite] = useState(false);
+    const [writeManifest, setWriteManifest] = useState(false);
+    const [engineLayout, setEngineLayout] = useState<EngineLayoutTarget>('none');
+    const [applyNameTags, setApplyNameTags] = useState(true);
+    const [scaleVariants, setScaleVariants] = useState<ScaleVariant[]>([]);
+    const [framing, setFraming] = useState<ImageFraming>(() => ({ ...APP_CONFIG.FRAMING.DEFAULTS }));
+    const [atlas, setAtlas] = useState<AtlasOptions>(() => ({
+        ...APP_CONFIG.ATLAS.DEFAULTS,
+        dataFormats: [...APP_CONFIG.ATLAS.DEFAULTS.dataFormats],
+    }));
+    const [cssSprite, setCssSprite] = useState<CssSpriteOptions>(() => ({ ...APP_CONFIG.CSS_SPRITE.DEFAULTS }));
 
     if (!isOpen) return null;
 
+    const isAtlas = mode === 'atlas';
+    // 图集只列出可用作页面的格式,CSS 精灵图固定为 PNG
+    const formats = IMAGE_ENCODER_LIST.filter(encoder => !isAtlas || encoder.atlasPage);
+    const isCssSprite = mode === 'css-sprite';
+    const activeFormat: ExportFormat = isCssSprite
+        ? 'png'
+        : formats.some(encoder => encoder.id === format) ? format : formats[0].id;
+    const canUseRetina = designPixelRatio >= 2;
+
+    const updateAtlas = (patch: Partial<AtlasOptions>) => setAtlas(prev => ({ ...prev, ...patch }));
+
+    const toggleDataFormat = (dataFormat: AtlasDataFormat, checked: boolean) => {
+        updateAtlas({
+            dataFormats: checked
+                ? [...atlas.dataFormats, dataFormat]
+                : atlas.dataFormats.filter(item => item !== dataFormat)
+        });
+    };
+
+    const updateCssSprite = (patch: Partial<CssSpriteOptions>) => setCssSprite(prev => ({ ...prev, ...patch }));
+
+    const updateFraming = (patch: Partial<ImageFraming>) => setFraming(prev => ({ ...prev, ...patch }));
+
+    const updateEncoderOptions = <F extends ExportFormat>(target: F, options: EncoderOptionsMap[F]) => {
+        setEncoderOptions(prev => ({ ...prev, [target]: options }));
+    };
+
+    const renderEncoderOptions = <F extends ExportFormat>(target: F) => (
+        <div className="form-group">
+            <EncoderOptionsForm
+                encoder={IMAGE_ENCODERS[target]}
+                options={resolveEncoderOptions(target, encoderOptions)}
+                onChange={options => updateEncoderOptions(target, options)}
+            />
+        </div>
+    );
+
+    const clampSpacing = (value: string) =>
+        Math.min(APP_CONFIG.ATLAS.MAX_SPACING, Math.max(0, Math.round(Number(value)) || 0));
+
     const handleConfirm = () => {
+        if (isCssSprite) {
+            onConfirm({
+                format: 'png',
+                encoderOptions,
+                rasterizeEffects,
+                cssSprite: { ...cssSprite, retina: cssSprite.retina && canUseRetina },
+                preserveStructure: false
+            });
+            onClose();
+            return;
+        }
+
+        if (isAtlas) {
+            onConfirm({
+                format: activeFormat,
+                encoderOptions,
+                rasterizeEffects,
+                atlas,
+                preserveStructure: false
+            });
+            onClose();
+            return;
+        }
+
         onConfirm({
             format,
-            quality,
+            encoderOptions,
+            exportRawPixels,
+            rasterizeEffects,
+            includeComposite,
+            writeManifest,
+            engineLayout,
+            applyNameTags,
+            scaleVariants,
+            framing,
             preserveStructure: true
         });
         onClose();
@@ -35,38 +134,275 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onConfirm, t
                 </div>
 
                 <div className="export-modal-body">
-                    <div className="form-group">
-                        <label className="form-label">图片格式</label>
-                        <select
-                            className="form-select"
-                            value={format}
-                            onChange={e => setFormat(e.target.value as 'png' | 'jpg' | 'blp' | 'tga')}
-                        >
-                            <option value="png">PNG (无损, 支持透明)</option>
-                            <option value="jpg">JPG (较小, 有损)</option>
-                            <option value="blp">BLP (魔兽争霸3)</option>
-                            <option value="tga">TGA (Truevision)</option>
-                        </select>
-                    </div>
+                    {!isCssSprite && (
+                        <div className="form-group">
+                            <label className="form-label">图片格式</label>
+                            <select
+                                className="form-select"
+                                value={activeFormat}
+                                onChange={e => setFormat(e.target.value as ExportFormat)}
+                            >
+                                {formats.map(encoder => (
+                                    <option key={encoder.id} value={encoder.id}>{encoder.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {isCssSprite && (
+                        <>
+                            <div className="form-row">
+                                <div className="form-group">
+                                    <label className="form-label">类名前缀</label>
+                                    <input
+                                        type="text"
+                                        className="form-input"
+                                        value={cssSprite.classPrefix}
+                                        onChange={e => updateCssSprite({ classPrefix: e.target.value })}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">间距 (CSS 像素)</label>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min={0}
+                                        max={APP_CONFIG.ATLAS.MAX_SPACING}
+                                        value={cssSprite.padding}
+                                        onChange={e => updateCssSprite({ padding: clampSpacing(e.target.value) })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="form-group">
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={cssSprite.retina && canUseRetina}
+                                        disabled={!canUseRetina}
+                                        onChange={e => updateCssSprite({ retina: e.target.checked })}
+                                    />
+                                    <span>
+                                        {canUseRetina
+                                            ? `生成 @2x 精灵图 (PSD 为 ${designPixelRatio} 倍设计稿)`
+                                            : '生成 @2x 精灵图 (PSD 为 1 倍设计稿, 不可用)'}
+                                    </span>
+                                </label>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={cssSprite.scss}
+                                        onChange={e => updateCssSprite({ scss: e.target.checked })}
+                                    />
+                                    <span>同时生成 SCSS map 和 mixin</span>
+                                </label>
+                            </div>
+                        </>
+                    )}
 
-                    {format === 'jpg' && (
+                    {isAtlas && (
+                        <>
+                            <div className="form-group">
+                                <label className="form-label">页面最大尺寸</label>
+                                <select
+                                    className="form-select"
+                                    value={atlas.maxSize}
+                                    onChange={e => updateAtlas({ maxSize: Number(e.target.value) })}
+                                >
+                                    {APP_CONFIG.ATLAS.PAGE_SIZES.map(size => (
+                                        <option key={size} value={size}>{size} × {size}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="form-row">
+                                <div className="form-group">
+                                    <label className="form-label">间距 (像素)</label>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min={0}
+                                        max={APP_CONFIG.ATLAS.MAX_SPACING}
+                                        value={atlas.padding}
+                                        onChange={e => updateAtlas({ padding: clampSpacing(e.target.value) })}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">边缘外扩 (像素)</label>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min={0}
+                                        max={APP_CONFIG.ATLAS.MAX_SPACING}
+                                        value={atlas.extrude}
+                                        onChange={e => updateAtlas({ extrude: clampSpacing(e.target.value) })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="form-group">
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={atlas.allowRotation}
+                                        onChange={e => updateAtlas({ allowRotation: e.target.checked })}
+                                    />
+                                    <span>允许旋转 90° (同时生成两种描述文件时不旋转)</span>
+                                </label>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={atlas.powerOfTwo}
+                                        onChange={e => updateAtlas({ powerOfTwo: e.target.checked })}
+                                    />
+                                    <span>页面尺寸取 2 的幂</span>
+                                </label>
+                            </div>
+
+                            <div className="form-group">
+                                <label className="form-label">描述文件</label>
+                                {(Object.keys(ATLAS_DATA_FORMAT_LABELS) as AtlasDataFormat[]).map(dataFormat => (
+                                    <label key={dataFormat} className="form-checkbox">
+                                        <input
+                                            type="checkbox"
+                                            checked={atlas.dataFormats.includes(dataFormat)}
+                                            onChange={e => toggleDataFormat(dataFormat, e.target.checked)}
+                                        />
+                                        <span>{ATLAS_DATA_FORMAT_LABELS[dataFormat]}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    {renderEncoderOptions(activeFormat)}
+
+                    {mode === 'images' && (
                         <div className="form-group">
-                            <label className="form-label">图片质量: {Math.round(quality * 100)}%</label>
-                            <input
-                                type="range"
-                                className="form-range"
-                                min="0.1"
-                                max="1.0"
-                                step="0.1"
-                                value={quality}
-                                onChange={e => setQuality(parseFloat(e.target.value))}
-                            />
-                            <div className="quality-value">
-                                <span>低</span>
-                                <span>高</span>
+                            <label className="form-label">尺寸处理</label>
+                            <label className="form-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={framing.fullCanvas}
+                                    onChange={e => updateFraming({ fullCanvas: e.target.checked })}
+                                />
+                                <span>按 PSD 画布尺寸导出 (保持图层在画布中的位置)</span>
+                            </label>
+                            <label className="form-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={framing.trim}
+                                    disabled={framing.fullCanvas}
+                                    onChange={e => updateFraming({ trim: e.target.checked })}
+                                />
+                                <span>裁剪透明边缘</span>
+                            </label>
+                            <div className="form-row">
+                                <div className="form-group">
+                                    <label className="form-label">透明阈值 (alpha ≤)</label>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min={0}
+                                        max={254}
+                                        value={framing.trimThreshold}
+                                        disabled={!framing.trim || framing.fullCanvas}
+                                        onChange={e => updateFraming({ trimThreshold: Math.min(254, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">边距 (像素)</label>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min={0}
+                                        max={APP_CONFIG.FRAMING.MAX_PADDING}
+                                        value={framing.padding}
+                                        disabled={framing.fullCanvas}
+                                        onChange={e => updateFraming({ padding: Math.min(APP_CONFIG.FRAMING.MAX_PADDING, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                                    />
+                                </div>
                             </div>
+                            <select
+                                className="form-select"
+                                value={framing.snap}
+                                onChange={e => updateFraming({ snap: e.target.value as DimensionSnap })}
+                            >
+                                <option value="none">尺寸不对齐</option>
+                                <option value="multiple-of-4">宽高对齐到 4 的倍数 (纹理块压缩)</option>
+                                <option value="power-of-two">宽高对齐到 2 的幂</option>
+                            </select>
                         </div>
                     )}
+
+                    {mode === 'images' && (
+                        <div className="form-group">
+                            <label className="form-label">缩放变体</label>
+                            <ScaleVariantsEditor variants={scaleVariants} onChange={setScaleVariants} />
+                        </div>
+                    )}
+
+                    {mode === 'images' && (
+                        <div className="form-group">
+                            <label className="form-label">引擎布局</label>
+                            <select
+                                className="form-select"
+                                value={engineLayout}
+                                onChange={e => setEngineLayout(e.target.value as EngineLayoutTarget)}
+                            >
+                                <option value="none">不生成</option>
+                                <option value="cocos">Cocos Creator 3.x 预制体 ({APP_CONFIG.EXPORT.COCOS_PREFAB_EXTENSION})</option>
+                                <option value="unity">Unity UGUI 布局 ({APP_CONFIG.EXPORT.UNITY_LAYOUT_EXTENSION})</option>
+                            </select>
+                        </div>
+                    )}
+
+                    <div className="form-group">
+                        <label className="form-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={rasterizeEffects}
+                                onChange={e => setRasterizeEffects(e.target.checked)}
+                            />
+                            <span>栅格化图层效果 (描边、投影、发光、颜色叠加, 尺寸随效果扩大)</span>
+                        </label>
+                        {mode === 'images' && (
+                            <>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={applyNameTags}
+                                        onChange={e => setApplyNameTags(e.target.checked)}
+                                    />
+                                    <span>遵循图层名中的导出标签 (如 "50% hero.jpg8", 覆盖格式、质量并缩放)</span>
+                                </label>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={exportRawPixels}
+                                        onChange={e => setExportRawPixels(e.target.checked)}
+                                    />
+                                    <span>同时导出原始像素 (未应用蒙版/剪贴, 文件名加 _raw)</span>
+                                </label>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeComposite}
+                                        onChange={e => setIncludeComposite(e.target.checked)}
+                                    />
+                                    <span>同时导出 PSD 全图 (按当前图层可见性合成)</span>
+                                </label>
+                                <label className="form-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={writeManifest}
+                                        onChange={e => setWriteManifest(e.target.checked)}
+                                    />
+                                    <span>写入布局清单 ({APP_CONFIG.EXPORT.MANIFEST_FILE_NAME}: 位置、层级、父节点)</span>
+                                </label>
+                            </>
+                        )}
+                    </div>
                 </div>
 
                 <div className="export-modal-footer">
@@ -1,5 +1,6 @@
 import { Layer } from '../../types';
 import { APP_CONFIG } from '../../config';
+import { useImageUrl } from '../../hooks/useImageUrl';
 import './LayerModal.css';
 
 interface LayerModalProps {
@@ -8,6 +9,8 @@ interface LayerModalProps {
 }
 
 const LayerModal = ({ layer, onClose }: LayerModalProps) => {
+    const imageUrl = useImageUrl(layer.imageKey);
+
     const handleOverlayClick = () => {
         onClose();
     };
@@ -26,8 +29,8 @@ const LayerModal = ({ layer, onClose }: LayerModalProps) => {
                     </button>
                 </div>
                 <div className="modal-body">
-                    {layer.imageUrl ? (
-                        <img src={layer.imageUrl} alt={layer.name} />
+                    {imageUrl ? (
+                        <img src={imageUrl} alt={layer.name} />
                     ) : (
                         <div className="no-preview">{APP_CONFIG.TEXT.NO_PREVIEW}</div>
                     )}
@@ -1,256 +1,353 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { LayerTreeNode, Layer } from '../../types';
-import { generateGroupPreview } from '../../utils/layerUtils';
+import { APP_CONFIG } from '../../config';
+import { FlatTreeRow, collectNodeIds, flattenVisibleTree, generateGroupPreview } from '../../utils/layerUtils';
+import { useThumbnailUrl } from '../../hooks/useThumbnailUrl';
+import { useVirtualList } from '../../hooks/useVirtualList';
 import './LayerTree.css';
 
 interface LayerTreeProps {
     tree: LayerTreeNode[];
-    selectedIndexes: Set<number>;
-    hiddenLayers: Set<number>;
+    selectedIds: Set<string>;
+    hiddenLayers: Set<string>;
     fullPsdLayer?: Layer;
     onToggleSelection: (node: LayerTreeNode, multi?: boolean) => void;
-    onToggleVisibility: (index: number) => void;
+    onToggleVisibility: (id: string) => void;
     onPreview: (layer: Layer) => void;
     onExport: (layer: Layer) => void;
 }
 
-const LayerTreeNodeItem = ({
-    node,
-    selectedIndexes,
-    hiddenLayers,
-    onToggleSelection,
+const { ROW_HEIGHT, INDENT, OVERSCAN } = APP_CONFIG.LAYER_TREE;
+
+/** PSD 全图节点的 id(不对应任何真实图层) */
+export const FULL_PSD_LAYER_ID = 'psd-full-preview';
+
+/**
+ * 图层树的单行
+ *
+ * 只负责渲染,展开、选中和预览等状态由 LayerTree 统一管理
+ */
+const LayerTreeRow = ({
+    row,
+    isSelected,
+    isHidden,
+    isExpanded,
+    isActive,
+    onRowClick,
+    onToggleExpand,
     onToggleVisibility,
-    onPreview,
-    onExport,
-    level = 0
 }: {
-    node: LayerTreeNode;
-    selectedIndexes: Set<number>;
-    hiddenLayers: Set<number>;
-    onToggleSelection: (node: LayerTreeNode, multi?: boolean) => void;
-    onToggleVisibility: (index: number) => void;
-    onPreview: (layer: Layer) => void;
-    onExport: (layer: Layer) => void;
-    level?: number;
+    row: FlatTreeRow;
+    isSelected: boolean;
+    isHidden: boolean;
+    isExpanded: boolean;
+    isActive: boolean;
+    onRowClick: (row: FlatTreeRow, multi: boolean) => void;
+    onToggleExpand: (key: string) => void;
+    onToggleVisibility: (id: string) => void;
 }) => {
-    const [isExpanded, setIsExpanded] = useState(false);
-
-    // 对于叶子节点和合成组节点，通过 index 判断选中状态
-    const isSelected = node.index !== undefined && selectedIndexes.has(node.index);
-    const isHidden = node.index !== undefined && hiddenLayers.has(node.index);
+    const { node, level } = row;
+    const thumbnailRef = useRef<HTMLDivElement>(null);
+    const thumbnailUrl = useThumbnailUrl(node.imageKey, thumbnailRef);
 
     const toggleExpand = (e: React.MouseEvent) => {
         e.stopPropagation();
-        setIsExpanded(!isExpanded);
+        onToggleExpand(row.key);
     };
 
     const handleToggleVisibility = (e: React.MouseEvent) => {
         e.stopPropagation();
-        if (node.index !== undefined) {
-            onToggleVisibility(node.index);
-        }
+        onToggleVisibility(node.id);
     };
 
-    const handleClick = async (e: React.MouseEvent) => {
+    const handleClick = (e: React.MouseEvent) => {
         e.stopPropagation();
-
-        // 处理选中 (Ctrl/Cmd 实现多选)
-        const multi = e.ctrlKey || e.metaKey;
-        onToggleSelection(node, multi);
-
-        // 处理预览
-        if (node.layer) {
-            // 叶子节点，直接预览
-            onPreview(node.layer);
-        } else if (node.isGroup) {
-            // 如果是组，动态生成预览图（考虑隐藏状态）
-            try {
-                const dynamicPreviewUrl = await generateGroupPreview(node, hiddenLayers);
-                
-                if (dynamicPreviewUrl) {
-                    // 使用动态生成的预览图
-                    onPreview({
-                        name: node.name,
-                        imageUrl: dynamicPreviewUrl,
-                        width: node.width || 0,
-                        height: node.height || 0,
-                        type: 'group',
-                        visible: true,
-                        opacity: 255,
-                        blendMode: 'normal',
-                        left: 0, top: 0, right: 0, bottom: 0
-                    } as Layer);
-                } else if (node.imageUrl) {
-                    // 如果动态生成失败，使用原始预览图
-                    onPreview({
-                        name: node.name,
-                        imageUrl: node.imageUrl,
-                        width: node.width || 0,
-                        height: node.height || 0,
-                        type: 'group',
-                        visible: true,
-                        opacity: 255,
-                        blendMode: 'normal',
-                        left: 0, top: 0, right: 0, bottom: 0
-                    } as Layer);
-                }
-            } catch (error) {
-                console.error('生成组预览图失败:', error);
-                // 如果出错，尝试使用原始预览图
-                if (node.imageUrl) {
-                    onPreview({
-                        name: node.name,
-                        imageUrl: node.imageUrl,
-                        width: node.width || 0,
-                        height: node.height || 0,
-                        type: 'group',
-                        visible: true,
-                        opacity: 255,
-                        blendMode: 'normal',
-                        left: 0, top: 0, right: 0, bottom: 0
-                    } as Layer);
-                }
-            }
-        }
+        // Ctrl/Cmd 实现多选
+        onRowClick(row, e.ctrlKey || e.metaKey);
     };
 
     return (
-        <div className="tree-node-container" style={{ marginLeft: `${level === 0 ? 0 : 16}px` }}>
-            <div
-                className={`tree-node-content ${isSelected ? 'active' : ''} ${isHidden ? 'is-hidden' : ''}`}
-                onClick={handleClick}
-            >
-                <div className="node-left">
-                    {node.isGroup ? (
-                        <span
-                            className={`expand-icon ${isExpanded ? 'expanded' : ''}`}
-                            onClick={toggleExpand}
-                        >
-                            ▶
-                        </span>
-                    ) : (
-                        <span className="indent-spacer" />
-                    )}
-
-                    {node.index !== undefined && (
-                        <button
-                            className={`visibility-toggle ${isHidden ? 'hidden' : ''}`}
-                            onClick={handleToggleVisibility}
-                            title={isHidden ? '显示图层' : '隐藏图层'}
-                        >
-                            {isHidden ? (
-                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                    <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
-                                    <line x1="1" y1="1" x2="23" y2="23"></line>
-                                </svg>
-                            ) : (
-                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                    <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
-                                    <circle cx="12" cy="12" r="3"></circle>
-                                </svg>
-                            )}
-                        </button>
-                    )}
+        <div
+            className={`tree-node-content ${isSelected ? 'active' : ''} ${isHidden ? 'is-hidden' : ''} ${isActive ? 'focused' : ''}`}
+            style={{ marginLeft: `${level * INDENT}px` }}
+            onClick={handleClick}
+        >
+            <div className="node-left">
+                {node.isGroup ? (
+                    <span
+                        className={`expand-icon ${isExpanded ? 'expanded' : ''}`}
+                        onClick={toggleExpand}
+                    >
+                        ▶
+                    </span>
+                ) : (
+                    <span className="indent-spacer" />
+                )}
 
-                    <div className="node-thumbnail">
-                        {node.imageUrl ? (
-                            <img src={node.imageUrl} alt={node.name} />
+                {node.id !== FULL_PSD_LAYER_ID && (
+                    <button
+                        className={`visibility-toggle ${isHidden ? 'hidden' : ''}`}
+                        onClick={handleToggleVisibility}
+                        title={isHidden ? '显示图层' : '隐藏图层'}
+                        tabIndex={-1}
+                    >
+                        {isHidden ? (
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
+                                <line x1="1" y1="1" x2="23" y2="23"></line>
+                            </svg>
                         ) : (
-                            <span className="type-icon">{node.isGroup ? '📁' : '🖼️'}</span>
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+                                <circle cx="12" cy="12" r="3"></circle>
+                            </svg>
                         )}
-                    </div>
+                    </button>
+                )}
 
-                    <span className="node-name" title={node.name}>{node.name}</span>
+                <div className="node-thumbnail" ref={thumbnailRef}>
+                    {thumbnailUrl ? (
+                        <img src={thumbnailUrl} alt={node.name} />
+                    ) : (
+                        <span className="type-icon">{node.isGroup ? '📁' : '🖼️'}</span>
+                    )}
                 </div>
 
-                <div className="node-actions" onClick={e => e.stopPropagation()}>
-                    <div className="node-info-tags">
-                        {node.width !== undefined && <span className="node-size">{node.width} × {node.height}</span>}
-                    </div>
-                </div>
+                <span className="node-name" title={node.name}>{node.name}</span>
             </div>
 
-            {node.isGroup && isExpanded && node.children && (
-                <div className="tree-node-children">
-                    {node.children.map((child, idx) => (
-                        <LayerTreeNodeItem
-                            key={`${node.path}-${idx}`}
-                            node={child}
-                            selectedIndexes={selectedIndexes}
-                            hiddenLayers={hiddenLayers}
-                            onToggleSelection={onToggleSelection}
-                            onToggleVisibility={onToggleVisibility}
-                            onPreview={onPreview}
-                            onExport={onExport}
-                            level={level + 1}
-                        />
-                    ))}
+            <div className="node-actions" onClick={e => e.stopPropagation()}>
+                <div className="node-info-tags">
+                    {node.width !== undefined && <span className="node-size">{node.width} × {node.height}</span>}
                 </div>
-            )}
+            </div>
         </div>
     );
 };
 
+/**
+ * 图层树
+ *
+ * 按展开状态将树展平为行列表,只挂载可视区域内的行(虚拟滚动),
+ * 可以流畅显示上千个图层。获得焦点后支持键盘操作:
+ * - ↑/↓、Home/End: 移动并选中上一行/下一行/首行/末行
+ * - →: 展开组,已展开时移到第一个子节点
+ * - ←: 收起组,否则移到父节点
+ * - 空格: 切换当前行的可见性
+ */
 const LayerTree = ({
     tree,
-    selectedIndexes,
+    selectedIds,
     hiddenLayers,
     fullPsdLayer,
     onToggleSelection,
     onToggleVisibility,
     onPreview,
-    onExport
 }: LayerTreeProps) => {
-    if (!tree || tree.length === 0) {
-        // If there's a fullPsdLayer, we still want to render it even if tree is empty
-        if (!fullPsdLayer) {
-            return <div className="tree-empty">暂无图层数据</div>;
+    const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+    // 键盘光标所在行
+    const [activeKey, setActiveKey] = useState<string | null>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+
+    // 重新解析后保留仍然存在的展开组,同一文件重新加载时展开状态不变
+    useEffect(() => {
+        const ids = collectNodeIds(tree || []);
+        setExpandedKeys(prev => new Set([...prev].filter(id => ids.has(id))));
+        setActiveKey(prev => (prev !== null && ids.has(prev) ? prev : null));
+    }, [tree]);
+
+    const rows = useMemo(() => flattenVisibleTree(tree || [], expandedKeys), [tree, expandedKeys]);
+    const activeRowIndex = useMemo(() => rows.findIndex(row => row.key === activeKey), [rows, activeKey]);
+
+    const { startIndex, endIndex, totalHeight, scrollToIndex } = useVirtualList({
+        count: rows.length,
+        rowHeight: ROW_HEIGHT,
+        overscan: OVERSCAN,
+        containerRef: viewportRef,
+    });
+
+    // 光标移动后保证其所在行可见
+    useEffect(() => {
+        if (activeRowIndex >= 0) {
+            scrollToIndex(activeRowIndex);
+        }
+    }, [activeRowIndex, scrollToIndex]);
+
+    /**
+     * 预览节点: 叶子节点直接预览,组动态生成预览图(考虑隐藏状态)
+     */
+    const previewNode = async (node: LayerTreeNode) => {
+        if (node.layer) {
+            onPreview(node.layer);
+            return;
+        }
+        if (!node.isGroup) return;
+
+        const previewGroup = (imageKey: string) => onPreview({
+            id: node.id,
+            name: node.name,
+            imageKey,
+            width: node.width || 0,
+            height: node.height || 0,
+            type: 'group',
+            visible: true,
+            opacity: 255,
+            blendMode: 'normal',
+            left: 0, top: 0, right: 0, bottom: 0
+        } as Layer);
+
+        try {
+            const dynamicPreviewKey = await generateGroupPreview(node, hiddenLayers);
+
+            if (dynamicPreviewKey) {
+                // 使用动态生成的预览图
+                previewGroup(dynamicPreviewKey);
+            } else if (node.imageKey) {
+                // 如果动态生成失败，使用原始预览图
+                previewGroup(node.imageKey);
+            }
+        } catch (error) {
+            console.error('生成组预览图失败:', error);
+            // 如果出错，尝试使用原始预览图
+            if (node.imageKey) {
+                previewGroup(node.imageKey);
+            }
+        }
+    };
+
+    const activateRow = (row: FlatTreeRow, multi: boolean = false) => {
+        setActiveKey(row.key);
+        onToggleSelection(row.node, multi);
+        previewNode(row.node);
+    };
+
+    const toggleExpand = (key: string) => {
+        setExpandedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (rows.length === 0) return;
+        const current = activeRowIndex >= 0 ? rows[activeRowIndex] : null;
+
+        const moveTo = (index: number) => {
+            activateRow(rows[Math.max(0, Math.min(rows.length - 1, index))]);
+        };
+
+        switch (e.key) {
+            case 'ArrowDown':
+                moveTo(current ? activeRowIndex + 1 : 0);
+                break;
+            case 'ArrowUp':
+                moveTo(current ? activeRowIndex - 1 : 0);
+                break;
+            case 'Home':
+                moveTo(0);
+                break;
+            case 'End':
+                moveTo(rows.length - 1);
+                break;
+            case 'ArrowRight':
+                if (!current?.node.isGroup) return;
+                if (!expandedKeys.has(current.key)) {
+                    toggleExpand(current.key);
+                } else if (current.node.children?.length) {
+                    moveTo(activeRowIndex + 1);
+                }
+                break;
+            case 'ArrowLeft':
+                if (!current) return;
+                if (current.node.isGroup && expandedKeys.has(current.key)) {
+                    toggleExpand(current.key);
+                } else if (current.parentKey !== null) {
+                    moveTo(rows.findIndex(row => row.key === current.parentKey));
+                }
+                break;
+            case ' ':
+                if (!current) return;
+                onToggleVisibility(current.node.id);
+                break;
+            default:
+                return;
         }
-    }
+        e.preventDefault();
+    };
 
     // 构造 PSD 全图的树节点
-    const fullPsdNode: LayerTreeNode | null = fullPsdLayer ? {
-        name: fullPsdLayer.name,
-        path: 'psd-full-preview',
-        isGroup: false,
-        width: fullPsdLayer.width,
-        height: fullPsdLayer.height,
-        index: -1, // 特殊索引，用于选中判断
-        layer: fullPsdLayer,
-        imageUrl: fullPsdLayer.imageUrl,
-        children: []
+    const fullPsdRow: FlatTreeRow | null = fullPsdLayer ? {
+        key: FULL_PSD_LAYER_ID,
+        level: 0,
+        parentKey: null,
+        node: {
+            name: fullPsdLayer.name,
+            path: FULL_PSD_LAYER_ID,
+            isGroup: false,
+            id: FULL_PSD_LAYER_ID,
+            width: fullPsdLayer.width,
+            height: fullPsdLayer.height,
+            layer: fullPsdLayer,
+            imageKey: fullPsdLayer.imageKey,
+            children: []
+        },
     } : null;
 
+    const renderRow = (row: FlatTreeRow) => {
+        const { id } = row.node;
+        return (
+            <LayerTreeRow
+                row={row}
+                isSelected={selectedIds.has(id)}
+                isHidden={hiddenLayers.has(id)}
+                isExpanded={expandedKeys.has(row.key)}
+                isActive={row.key === activeKey}
+                onRowClick={activateRow}
+                onToggleExpand={toggleExpand}
+                onToggleVisibility={onToggleVisibility}
+            />
+        );
+    };
+
+    const isEmpty = rows.length === 0 && !fullPsdRow;
+
     return (
-        <div className="layer-tree-viewport">
+        <div className="layer-tree">
             {/* PSD 全图节点 */}
-            {fullPsdNode && (
+            {fullPsdRow && (
                 <div className="psd-full-node-wrapper">
-                    <LayerTreeNodeItem
-                        node={fullPsdNode}
-                        selectedIndexes={selectedIndexes}
-                        hiddenLayers={hiddenLayers}
-                        onToggleSelection={onToggleSelection}
-                        onToggleVisibility={onToggleVisibility}
-                        onPreview={onPreview}
-                        onExport={onExport}
-                    />
+                    {renderRow(fullPsdRow)}
                     <div className="tree-divider" />
                 </div>
             )}
 
-            {tree.map((node, idx) => (
-                <LayerTreeNodeItem
-                    key={idx}
-                    node={node}
-                    selectedIndexes={selectedIndexes}
-                    hiddenLayers={hiddenLayers}
-                    onToggleSelection={onToggleSelection}
-                    onToggleVisibility={onToggleVisibility}
-                    onPreview={onPreview}
-                    onExport={onExport}
-                />
-            ))}
+            <div
+                ref={viewportRef}
+                className="layer-tree-viewport"
+                tabIndex={0}
+                onKeyDown={handleKeyDown}
+            >
+                {isEmpty ? (
+                    <div className="tree-empty">暂无图层数据</div>
+                ) : (
+                    <div className="tree-virtual-canvas" style={{ height: totalHeight }}>
+                        {rows.slice(startIndex, endIndex).map((row, offset) => (
+                            <div
+                                key={row.key}
+                                className="tree-row"
+                                style={{ top: (startIndex + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                            >
+                                {renderRow(row)}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 };
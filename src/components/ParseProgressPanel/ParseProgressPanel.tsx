@@ -0,0 +1,84 @@
+/**
+ * 解析进度面板组件
+ *
+ * 展示 PSD 解析的阶段、字节/图层/预览图进度和当前图层,并提供取消按钮
+ */
+
+import { ParseProgress } from '../../types';
+import { APP_CONFIG } from '../../config';
+import './ParseProgressPanel.css';
+
+/**
+ * ParseProgressPanel 组件属性接口
+ */
+interface ParseProgressPanelProps {
+    /** 解析进度 */
+    progress: ParseProgress | null;
+    /** 紧凑模式(图层树已展示、仅剩预览图生成时使用) */
+    compact?: boolean;
+    /** 取消解析 */
+    onCancel: () => void;
+}
+
+const formatMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+/**
+ * 计算当前阶段的完成比例(0-1),无法确定时返回 null
+ */
+const getPhaseRatio = (progress: ParseProgress): number | null => {
+    switch (progress.phase) {
+        case 'reading':
+            return progress.totalBytes > 0 ? progress.bytesRead / progress.totalBytes : null;
+        case 'building':
+            return progress.totalLayers > 0 ? progress.layersDecoded / progress.totalLayers : null;
+        case 'encoding':
+            return progress.totalThumbnails > 0 ? progress.thumbnailsGenerated / progress.totalThumbnails : null;
+        default:
+            return null;
+    }
+};
+
+const ParseProgressPanel = ({ progress, compact = false, onCancel }: ParseProgressPanelProps) => {
+    const phaseText = progress ? APP_CONFIG.TEXT.PARSE_PHASES[progress.phase] : APP_CONFIG.TEXT.LOADING;
+    const ratio = progress ? getPhaseRatio(progress) : null;
+
+    return (
+        <div className={`parse-progress ${compact ? 'compact' : ''}`}>
+            <div className="parse-progress-header">
+                <span className="parse-progress-phase">{phaseText}</span>
+                {ratio !== null && <span className="parse-progress-percent">{Math.round(ratio * 100)}%</span>}
+                <button className="parse-progress-cancel" onClick={onCancel}>
+                    {APP_CONFIG.TEXT.CANCEL_PARSE_BTN}
+                </button>
+            </div>
+
+            <div className={`parse-progress-bar ${ratio === null ? 'indeterminate' : ''}`}>
+                <div
+                    className="parse-progress-fill"
+                    style={ratio === null ? undefined : { width: `${Math.min(100, ratio * 100)}%` }}
+                />
+            </div>
+
+            {progress && (
+                <div className="parse-progress-details">
+                    {!compact && (
+                        <span>文件: {formatMB(progress.bytesRead)} / {formatMB(progress.totalBytes)} MB</span>
+                    )}
+                    {!compact && progress.totalLayers > 0 && (
+                        <span>图层: {progress.layersDecoded} / {progress.totalLayers}</span>
+                    )}
+                    {progress.totalThumbnails > 0 && (
+                        <span>预览图: {progress.thumbnailsGenerated} / {progress.totalThumbnails}</span>
+                    )}
+                    {progress.currentLayerName && (
+                        <span className="parse-progress-layer" title={progress.currentLayerName}>
+                            当前: {progress.currentLayerName}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ParseProgressPanel;
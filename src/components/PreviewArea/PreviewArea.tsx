@@ -1,7 +1,9 @@
 import React, { useMemo } from 'react';
-import { Layer, LayerTreeNode, PsdInfo } from '../../types';
+import { Layer, LayerTreeNode, PsdInfo, ParseProgress } from '../../types';
 import { APP_CONFIG } from '../../config';
-import LayerTree from '../LayerTree/LayerTree';
+import LayerTree, { FULL_PSD_LAYER_ID } from '../LayerTree/LayerTree';
+import ParseProgressPanel from '../ParseProgressPanel/ParseProgressPanel';
+import { TextExportFormat } from '../../utils/textExport';
 import './PreviewArea.css';
 
 /**
@@ -16,32 +18,42 @@ interface PreviewAreaProps {
     psdInfo?: PsdInfo | null;
     /** 是否正在加载 */
     loading: boolean;
+    /** 解析进度 */
+    progress?: ParseProgress | null;
+    /** 取消正在进行的解析 */
+    onCancelParse?: () => void;
     /** 错误信息 */
     error: string | null;
     /** 是否已选择文件 */
     hasFile: boolean;
-    /** 已选中的图层索引集合 */
-    selectedIndexes: Set<number>;
-    /** 隐藏的图层索引集合 */
-    hiddenLayers: Set<number>;
+    /** 已选中的图层 id 集合 */
+    selectedIds: Set<string>;
+    /** 隐藏的图层 id 集合 */
+    hiddenLayers: Set<string>;
     /** 切换图层选中状态 */
-    onToggleSelection: (node: number | LayerTreeNode, multi?: boolean) => void;
+    onToggleSelection: (node: string | LayerTreeNode, multi?: boolean) => void;
     /** 切换图层可见性 */
-    onToggleVisibility: (index: number) => void;
+    onToggleVisibility: (id: string) => void;
     /** 导出单个图层 */
     onExportLayer: (layer: Layer) => void;
     /** 导出选中的图层 */
     onExportSelected: () => void;
     /** 按目录结构导出所有图层 */
     onExportWithStructure: () => void;
+    /** 将选中的图层打包为图集 */
+    onExportAtlas: () => void;
+    /** 将选中的图层导出为 CSS 精灵图 */
+    onExportCssSprite: () => void;
+    /** 导出全部文字图层的文本 */
+    onExportTexts: (format: TextExportFormat) => void;
     /** 文件选择事件处理器 */
     onFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
     /** 图层卡片点击事件 */
     onLayerCardClick: (layer: Layer) => void;
     /** 文件输入框引用 */
     fileInputRef: React.RefObject<HTMLInputElement | null>;
-    /** PSD 预览图 */
-    psdPreviewUrl?: string | null;
+    /** PSD 全图(按当前图层可见性合成)在图像存储中的键 */
+    psdPreviewKey?: string | null;
     /** 是否正在拖拽 */
     isDragging?: boolean;
     /** 拖拽事件处理器 */
@@ -64,19 +76,24 @@ const PreviewArea = ({
     layerTree,
     psdInfo,
     loading,
+    progress = null,
+    onCancelParse = () => {},
     error,
     hasFile,
-    selectedIndexes,
+    selectedIds,
     hiddenLayers,
     onToggleSelection,
     onToggleVisibility,
     onExportLayer,
     onExportSelected,
     onExportWithStructure,
+    onExportAtlas,
+    onExportCssSprite,
+    onExportTexts,
     onFileSelect,
     onLayerCardClick,
     fileInputRef,
-    psdPreviewUrl,
+    psdPreviewKey,
     isDragging = false,
     dragHandlers,
     onFileSelectSuccess,
@@ -89,10 +106,11 @@ const PreviewArea = ({
 
     // 构造 PSD 全图的虚拟图层对象
     const fullPsdLayer = useMemo<Layer | undefined>(() => {
-        if (!psdInfo || !psdPreviewUrl) return undefined;
+        if (!psdInfo || !psdPreviewKey) return undefined;
         return {
+            id: FULL_PSD_LAYER_ID,
             name: "PSD 全图",
-            imageUrl: psdPreviewUrl,
+            imageKey: psdPreviewKey,
             width: psdInfo.width,
             height: psdInfo.height,
             opacity: 255,
@@ -100,7 +118,7 @@ const PreviewArea = ({
             blendMode: 'normal',
             left: 0, top: 0, right: psdInfo.width, bottom: psdInfo.height
         } as Layer;
-    }, [psdInfo, psdPreviewUrl]);
+    }, [psdInfo, psdPreviewKey]);
 
     // 处理拖拽放下
     const handleDrop = (e: React.DragEvent) => {
@@ -173,7 +191,7 @@ const PreviewArea = ({
             onDrop={handleDrop}
             style={{ position: 'relative' }}
         >
-            {loading && <div className="loading">{APP_CONFIG.TEXT.LOADING}</div>}
+            {loading && <ParseProgressPanel progress={progress} onCancel={onCancelParse} />}
 
             {error && <div className="error">{error}</div>}
 
@@ -183,7 +201,7 @@ const PreviewArea = ({
                     <div className="drag-message">
                         <div className="drag-icon">📁</div>
                         <h3>松开鼠标以上传文件</h3>
-                        <p>支持 PSD 文件</p>
+                        <p>支持 PSD、BLP、TGA 文件</p>
                     </div>
                 </div>
             )}
@@ -211,22 +229,39 @@ const PreviewArea = ({
 
             {layers.length > 0 && (
                 <>
+                    {/* 图层树已就绪,预览图仍在生成 */}
+                    {!loading && progress && (
+                        <ParseProgressPanel progress={progress} compact onCancel={onCancelParse} />
+                    )}
+
                     {/* 隐藏图层提示 */}
                     {hiddenLayers.size > 0 && (
                         <div className="hidden-layers-tip">
                             <span className="tip-icon">💡</span>
-                            <span>已隐藏 {hiddenLayers.size} 个图层，这些图层不会被导出（预览不受影响）</span>
+                            <span>已隐藏 {hiddenLayers.size} 个图层，这些图层不会被导出，PSD 全图已按当前可见性重新合成</span>
                         </div>
                     )}
                     
                     {/* 顶部操作按钮区 */}
                     <div className="top-actions">
                         <button className="action-btn primary" onClick={onExportSelected}>
-                            💾 导出选中 {selectedIndexes.size > 0 && `(${selectedIndexes.size})`}
+                            💾 导出选中 {selectedIds.size > 0 && `(${selectedIds.size})`}
                         </button>
                         <button className="action-btn primary" onClick={onExportWithStructure}>
                             📂 按结构导出
                         </button>
+                        <button className="action-btn primary" onClick={onExportAtlas}>
+                            🧩 打包图集
+                        </button>
+                        <button className="action-btn primary" onClick={onExportCssSprite}>
+                            🎨 CSS 精灵图
+                        </button>
+                        <button className="action-btn secondary" onClick={() => onExportTexts('json')}>
+                            📝 文本 JSON
+                        </button>
+                        <button className="action-btn secondary" onClick={() => onExportTexts('csv')}>
+                            📝 文本 CSV
+                        </button>
 
                         <button className="action-btn secondary" onClick={() => fileInputRef.current?.click()}>
                             🔄 重新选择
@@ -242,7 +277,7 @@ const PreviewArea = ({
 
                     <LayerTree
                         tree={layerTree}
-                        selectedIndexes={selectedIndexes}
+                        selectedIds={selectedIds}
                         hiddenLayers={hiddenLayers}
                         fullPsdLayer={fullPsdLayer}
                         onToggleSelection={onToggleSelection}
@@ -2,11 +2,13 @@
  * 右侧预览栏组件
  * 
  * 显示选中图层的详细预览
- * 支持平移和缩放
+ * 支持平移和缩放,贴图(BLP/TGA)可切换 mipmap 级别和 alpha 通道视图
  */
 
-import { Layer } from '../../types';
+import { Layer, LayerExportTag, TextInfo, TextureInfo } from '../../types';
 import { useState, useRef, useEffect } from 'react';
+import { useImageUrl } from '../../hooks/useImageUrl';
+import { textureMipImageKey } from '../../utils/imageStore';
 import './RightSidebar.css';
 
 /**
@@ -15,15 +17,97 @@ import './RightSidebar.css';
 interface RightSidebarProps {
     /** 当前选中的图层 */
     selectedLayer: Layer | null;
+    /** 选中的是贴图图层时的贴图信息 */
+    texture?: TextureInfo;
 }
 
+/** 段落对齐方式的显示文字 */
+const ALIGNMENT_LABELS: Record<TextInfo['alignment'], string> = {
+    left: '左对齐',
+    center: '居中',
+    right: '右对齐',
+    justify: '两端对齐',
+};
+
+/**
+ * 文字图层信息(内容、字体、字号、颜色、对齐)
+ */
+const TextInfoItems = ({ text }: { text: TextInfo }) => (
+    <>
+        <div className="info-item text-content">
+            <span className="label">文本:</span>
+            <span className="value" title={text.text}>{text.text}</span>
+        </div>
+        {text.fontName && (
+            <div className="info-item">
+                <span className="label">字体:</span>
+                <span className="value">{text.fontName}</span>
+            </div>
+        )}
+        {text.fontSize !== null && (
+            <div className="info-item">
+                <span className="label">字号:</span>
+                <span className="value">{text.fontSize}px</span>
+            </div>
+        )}
+        {text.color && (
+            <div className="info-item">
+                <span className="label">颜色:</span>
+                <span className="value">
+                    <span className="color-swatch" style={{ background: text.color }} />
+                    {text.color}
+                </span>
+            </div>
+        )}
+        <div className="info-item">
+            <span className="label">对齐:</span>
+            <span className="value">
+                {ALIGNMENT_LABELS[text.alignment]}{text.orientation === 'vertical' ? ' · 竖排' : ''}
+            </span>
+        </div>
+        {text.runs.length > 1 && (
+            <div className="info-item">
+                <span className="label">样式片段:</span>
+                <span className="value">{text.runs.length}</span>
+            </div>
+        )}
+    </>
+);
+
+/**
+ * 导出标签的简短描述,如 `hero.jpg 50% 质量80%`
+ */
+const formatExportTag = (tag: LayerExportTag): string => {
+    const parts = [`${tag.fileName}.${tag.extension}`];
+    if (tag.scale) parts.push(`${Math.round(tag.scale * 100)}%`);
+    if (tag.width || tag.height) parts.push(`${tag.width ?? '?'}×${tag.height ?? '?'}`);
+    if (tag.quality !== undefined) parts.push(`质量${Math.round(tag.quality * 100)}%`);
+    return parts.join(' ');
+};
+
 /**
  * 右侧预览栏组件
  * 
  * @param props - 组件属性
  */
-const RightSidebar = ({ selectedLayer }: RightSidebarProps) => {
+const RightSidebar = ({ selectedLayer, texture }: RightSidebarProps) => {
     const [zoom, setZoom] = useState(1);
+    // 贴图的 mipmap 级别和是否查看 alpha 通道
+    const [mipLevel, setMipLevel] = useState(0);
+    const [showAlpha, setShowAlpha] = useState(false);
+
+    // 打开新贴图时回到第 0 级颜色视图
+    useEffect(() => {
+        setMipLevel(0);
+        setShowAlpha(false);
+    }, [texture]);
+
+    const previewKey = texture && (mipLevel > 0 || showAlpha)
+        ? textureMipImageKey(mipLevel, showAlpha)
+        : selectedLayer?.imageKey;
+    const previewSize = texture?.mipmaps[mipLevel] ?? selectedLayer;
+    // 完整尺寸的预览图仅在此处按需编码
+    const imageUrl = useImageUrl(previewKey);
     // 平移偏移量 Ref (绕过 React 渲染)
     const offsetRef = useRef({ x: 0, y: 0 });
 
@@ -146,6 +230,24 @@ const RightSidebar = ({ selectedLayer }: RightSidebarProps) => {
                     </div>
                     <button className="reset-zoom-btn" onClick={resetView}>重置</button>
                 </div>
+                {texture && (
+                    <div className="texture-toolbar">
+                        <label>
+                            Mip 级别
+                            <select className="zoom-select" value={mipLevel} onChange={(e) => setMipLevel(Number(e.target.value))}>
+                                {texture.mipmaps.map((size, level) => (
+                                    <option key={level} value={level}>{level} · {size.width} × {size.height}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {texture.alphaBits > 0 && (
+                            <div className="channel-toggle">
+                                <button className={showAlpha ? '' : 'active'} onClick={() => setShowAlpha(false)}>颜色</button>
+                                <button className={showAlpha ? 'active' : ''} onClick={() => setShowAlpha(true)}>Alpha</button>
+                            </div>
+                        )}
+                    </div>
+                )}
                 <div
                     ref={previewContainerRef}
                     className="preview-container"
@@ -157,17 +259,36 @@ const RightSidebar = ({ selectedLayer }: RightSidebarProps) => {
                     </div>
 
                     {selectedLayer ? (
-                        selectedLayer.imageUrl ? (
+                        selectedLayer.imageKey ? (
                             <>
                                 <div className="layer-info">
                                     <div className="info-item">
                                         <span className="label">尺寸:</span>
-                                        <span className="value">{selectedLayer.width} × {selectedLayer.height}</span>
+                                        <span className="value">{previewSize?.width} × {previewSize?.height}</span>
                                     </div>
+                                    {texture && (
+                                        <>
+                                            <div className="info-item">
+                                                <span className="label">格式:</span>
+                                                <span className="value">{texture.format}</span>
+                                            </div>
+                                            <div className="info-item">
+                                                <span className="label">Alpha:</span>
+                                                <span className="value">{texture.alphaBits > 0 ? `${texture.alphaBits} 位` : '无'}</span>
+                                            </div>
+                                        </>
+                                    )}
                                     <div className="info-item">
                                         <span className="label">不透明度:</span>
                                         <span className="value">{Math.round((selectedLayer.opacity / 255) * 100)}%</span>
                                     </div>
+                                    {selectedLayer.text && <TextInfoItems text={selectedLayer.text} />}
+                                    {selectedLayer.exportTags && (
+                                        <div className="info-item">
+                                            <span className="label">导出标签:</span>
+                                            <span className="value">{selectedLayer.exportTags.map(formatExportTag).join(', ')}</span>
+                                        </div>
+                                    )}
                                 </div>
 
                                 <div
@@ -175,7 +296,9 @@ const RightSidebar = ({ selectedLayer }: RightSidebarProps) => {
                                     className="image-wrapper"
                                     style={{ transform: `translate(${offsetRef.current.x}px, ${offsetRef.current.y}px) scale(${zoom})` }}
                                 >
-                                    <img src={selectedLayer.imageUrl} alt={selectedLayer.name} className="preview-image" />
+                                    {imageUrl && (
+                                        <img src={imageUrl} alt={selectedLayer.name} className={`preview-image${texture ? ' pixelated' : ''}`} />
+                                    )}
                                 </div>
                             </>
                         ) : (
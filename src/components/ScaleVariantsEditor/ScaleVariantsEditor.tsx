@@ -0,0 +1,149 @@
+/**
+ * 缩放变体编辑组件
+ *
+ * 在导出配置中编辑缩放变体列表(倍数或最大宽度、文件名后缀、子目录、重采样质量),并可套用常用预设
+ */
+
+import { ResampleQuality, ScaleVariant } from '../../types';
+import { APP_CONFIG } from '../../config';
+import './ScaleVariantsEditor.css';
+
+/**
+ * ScaleVariantsEditor 组件属性接口
+ */
+interface ScaleVariantsEditorProps {
+    /** 缩放变体,为空时只按原尺寸导出 */
+    variants: ScaleVariant[];
+    /** 变体修改回调 */
+    onChange: (variants: ScaleVariant[]) => void;
+}
+
+/** 缩放比例输入的上限 */
+const MAX_SCALE = 8;
+
+/**
+ * 复制配置中的只读变体
+ */
+const cloneVariant = (variant: Readonly<ScaleVariant>): ScaleVariant => ({ ...variant });
+
+/**
+ * 显示用的缩放比例(预设中 1/3 等无限小数保留 4 位)
+ */
+const formatScale = (scale: number | undefined) => Math.round((scale ?? 1) * 10000) / 10000;
+
+const ScaleVariantsEditor = ({ variants, onChange }: ScaleVariantsEditorProps) => {
+    const updateVariant = (index: number, patch: Partial<ScaleVariant>) => {
+        onChange(variants.map((variant, i) => i === index ? { ...variant, ...patch } : variant));
+    };
+
+    const changeMode = (index: number, mode: string) => {
+        const { scale: _scale, maxWidth: _maxWidth, ...rest } = variants[index];
+        const next: ScaleVariant = mode === 'maxWidth' ? { ...rest, maxWidth: 512 } : { ...rest, scale: 1 };
+        onChange(variants.map((variant, i) => i === index ? next : variant));
+    };
+
+    const applyPreset = (label: string) => {
+        const preset = APP_CONFIG.SCALE_VARIANTS.PRESETS.find(item => item.label === label);
+        if (preset) onChange(preset.variants.map(cloneVariant));
+    };
+
+    return (
+        <div className="scale-variants">
+            <div className="scale-variants-toolbar">
+                <select
+                    className="form-select"
+                    value=""
+                    onChange={e => applyPreset(e.target.value)}
+                >
+                    <option value="" disabled>套用预设…</option>
+                    {APP_CONFIG.SCALE_VARIANTS.PRESETS.map(preset => (
+                        <option key={preset.label} value={preset.label}>{preset.label}</option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    className="scale-variants-add"
+                    onClick={() => onChange([...variants, cloneVariant(APP_CONFIG.SCALE_VARIANTS.DEFAULT)])}
+                >
+                    + 添加
+                </button>
+            </div>
+
+            {variants.length === 0 ? (
+                <div className="scale-variants-empty">未设置时只按原尺寸导出</div>
+            ) : (
+                variants.map((variant, index) => (
+                    <div key={index} className="scale-variant-row">
+                        <select
+                            className="form-select"
+                            value={variant.maxWidth ? 'maxWidth' : 'scale'}
+                            onChange={e => changeMode(index, e.target.value)}
+                            title="缩放方式"
+                        >
+                            <option value="scale">倍数</option>
+                            <option value="maxWidth">最大宽度</option>
+                        </select>
+                        {variant.maxWidth ? (
+                            <input
+                                type="number"
+                                className="form-input"
+                                min={1}
+                                step={1}
+                                value={variant.maxWidth}
+                                onChange={e => updateVariant(index, { maxWidth: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                                title="最大宽度 (像素, 只缩小)"
+                            />
+                        ) : (
+                            <input
+                                type="number"
+                                className="form-input"
+                                min={0.05}
+                                max={MAX_SCALE}
+                                step={0.05}
+                                value={formatScale(variant.scale)}
+                                onChange={e => updateVariant(index, { scale: Math.min(MAX_SCALE, Math.max(0.01, Number(e.target.value) || 1)) })}
+                                title="缩放比例 (相对 PSD 像素)"
+                            />
+                        )}
+                        <input
+                            type="text"
+                            className="form-input"
+                            placeholder="后缀"
+                            value={variant.suffix}
+                            onChange={e => updateVariant(index, { suffix: e.target.value })}
+                            title="文件名后缀, 如 @2x"
+                        />
+                        <input
+                            type="text"
+                            className="form-input"
+                            placeholder="子目录"
+                            value={variant.subfolder}
+                            onChange={e => updateVariant(index, { subfolder: e.target.value })}
+                            title="子目录, 如 drawable-xhdpi"
+                        />
+                        <select
+                            className="form-select"
+                            value={variant.resample}
+                            onChange={e => updateVariant(index, { resample: e.target.value as ResampleQuality })}
+                            title="重采样质量"
+                        >
+                            {(Object.keys(APP_CONFIG.SCALE_VARIANTS.RESAMPLE_LABELS) as ResampleQuality[]).map(resample => (
+                                <option key={resample} value={resample}>{APP_CONFIG.SCALE_VARIANTS.RESAMPLE_LABELS[resample]}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            className="scale-variant-remove"
+                            onClick={() => onChange(variants.filter((_, i) => i !== index))}
+                            title="移除"
+                        >
+                            ×
+                        </button>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+};
+
+export default ScaleVariantsEditor;
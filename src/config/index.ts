@@ -7,25 +7,261 @@ export const APP_CONFIG = {
     // 文件相关配置
     FILE: {
         /** 接受的文件扩展名列表 */
-        ACCEPTED_EXTENSIONS: ['.psd'],
+        ACCEPTED_EXTENSIONS: ['.psd', '.blp', '.tga'],
+        /** 按贴图导入(单图层文档,见 utils/textureImport)的扩展名 */
+        TEXTURE_EXTENSIONS: ['.blp', '.tga'],
         /** 文件输入框的 accept 属性值 */
-        ACCEPT_TYPE: '.psd',
+        ACCEPT_TYPE: '.psd,.blp,.tga',
         /** 最大文件大小(1000MB) */
         MAX_SIZE: 1000 * 1024 * 1024,
     },
 
+    // 解析相关配置
+    PARSER: {
+        /** 同一阶段内解析进度的最小推送间隔(毫秒) */
+        PROGRESS_INTERVAL: 50,
+    },
+
+    // 图层树缩略图配置
+    THUMBNAIL: {
+        /** 缩略图最长边(像素) */
+        MAX_SIZE: 64,
+        /** 缓存的缩略图数量上限,超出后淘汰最久未使用的 */
+        CACHE_SIZE: 500,
+        /** 提前生成缩略图的可视区域外扩距离 */
+        ROOT_MARGIN: '200px',
+    },
+
+    // 图层树配置
+    LAYER_TREE: {
+        /** 行高(像素,含行间距),虚拟滚动按固定行高计算 */
+        ROW_HEIGHT: 44,
+        /** 每级缩进(像素) */
+        INDENT: 16,
+        /** 可视区域上下额外渲染的行数 */
+        OVERSCAN: 8,
+    },
+
+    // 导出配置
+    EXPORT: {
+        /** jpg、webp、avif、BLP(JPEG 压缩)的默认质量(0-1) */
+        DEFAULT_QUALITY: 0.9,
+        /** 布局清单文件名(写入导出根目录) */
+        MANIFEST_FILE_NAME: 'layout.json',
+        /** Cocos Creator 预制体扩展名(文件名取 PSD 文件名) */
+        COCOS_PREFAB_EXTENSION: '.prefab',
+        /** Unity UGUI 布局文件扩展名(文件名取 PSD 文件名) */
+        UNITY_LAYOUT_EXTENSION: '.ugui.json',
+    },
+
+    // Mipmap 配置(BLP、DDS 共用)
+    MIPMAP: {
+        /** 缩小滤波的显示名称 */
+        FILTER_LABELS: {
+            nearest: '最近邻',
+            box: '盒式 (平均)',
+            triangle: '三角 (双线性)',
+            lanczos: 'Lanczos3 (锐利)',
+        },
+    },
+
+    // BLP 编码配置
+    BLP: {
+        /** 默认选项 */
+        DEFAULTS: {
+            compression: 'jpeg',
+            alphaBits: 8,
+            mipmaps: true,
+            mipmapFilter: 'box',
+        },
+        /** 压缩方式及其可用的 alpha 位数 */
+        COMPRESSIONS: [
+            { value: 'jpeg', label: 'BLP1 JPEG', alphaBits: [0, 8] },
+            { value: 'palette', label: 'BLP1 调色板 (256 色)', alphaBits: [0, 1, 4, 8] },
+            { value: 'dxt', label: 'BLP2 DXT', alphaBits: [0, 1, 8] },
+        ],
+        /** 文件头中 mipmap 表的容量 */
+        MAX_MIPMAPS: 16,
+        /** 各级 mipmap 共享的 JPEG 头最大字节数(魔兽争霸3 的限制) */
+        MAX_JPEG_HEADER_SIZE: 624,
+    },
+
+    // DDS 编码配置
+    DDS: {
+        /** 默认选项 */
+        DEFAULTS: {
+            compression: 'bc3',
+            mipmaps: true,
+            mipmapFilter: 'box',
+            srgb: false,
+        },
+        /** 块压缩格式 */
+        COMPRESSIONS: [
+            { value: 'bc1', label: 'BC1 / DXT1 (RGB + 1 位 alpha)' },
+            { value: 'bc3', label: 'BC3 / DXT5 (RGBA)' },
+            { value: 'bc7', label: 'BC7 (RGBA 高质量, 需 DX11 级硬件)' },
+        ],
+    },
+
+    // TGA 编码配置
+    TGA: {
+        /** 默认选项(未压缩 32 位,左上原点) */
+        DEFAULTS: {
+            rle: false,
+            bitDepth: 32,
+            origin: 'top-left',
+            premultiplied: false,
+            footer: false,
+        },
+        /** 扫描原点的显示名称 */
+        ORIGIN_LABELS: {
+            'top-left': '左上 (从上到下)',
+            'bottom-left': '左下 (从下到上)',
+        },
+    },
+
+    // PNG 优化配置
+    PNG_OPTIMIZE: {
+        /** 默认选项(不优化;开启后按默认级别无损压缩,量化时使用 256 色) */
+        DEFAULTS: {
+            optimize: false,
+            level: 2,
+            quantize: false,
+            colors: 256,
+            dither: true,
+        },
+        /** 可选的压缩级别 */
+        LEVELS: [
+            { value: 1, label: '快速' },
+            { value: 2, label: '默认' },
+            { value: 4, label: '较强' },
+            { value: 6, label: '最强 (很慢)' },
+        ],
+        /** 导出结果中逐个列出的文件数上限 */
+        REPORT_MAX_FILES: 10,
+    },
+
+    // 图像取景配置
+    FRAMING: {
+        /** 默认选项(不改变画布) */
+        DEFAULTS: {
+            trim: false,
+            trimThreshold: 0,
+            padding: 0,
+            fullCanvas: false,
+            snap: 'none',
+        },
+        /** 边距上限(像素) */
+        MAX_PADDING: 256,
+    },
+
+    // 缩放变体配置
+    SCALE_VARIANTS: {
+        /** 新增变体的默认值 */
+        DEFAULT: { scale: 1, suffix: '', subfolder: '', resample: 'high' },
+        /** 重采样质量选项 */
+        RESAMPLE_LABELS: {
+            high: '高质量',
+            medium: '中等',
+            low: '快速',
+            pixelated: '最近邻(像素风)',
+        },
+        /** 常用预设,缩放比例相对 PSD 像素 */
+        PRESETS: [
+            {
+                label: 'iOS @1x/@2x/@3x(设计稿 @2x)',
+                variants: [
+                    { scale: 0.5, suffix: '', subfolder: '', resample: 'high' },
+                    { scale: 1, suffix: '@2x', subfolder: '', resample: 'high' },
+                    { scale: 1.5, suffix: '@3x', subfolder: '', resample: 'high' },
+                ],
+            },
+            {
+                label: 'iOS @1x/@2x/@3x(设计稿 @1x)',
+                variants: [
+                    { scale: 1, suffix: '', subfolder: '', resample: 'high' },
+                    { scale: 2, suffix: '@2x', subfolder: '', resample: 'high' },
+                    { scale: 3, suffix: '@3x', subfolder: '', resample: 'high' },
+                ],
+            },
+            {
+                label: 'Android mdpi-xxxhdpi(设计稿 xxhdpi)',
+                variants: [
+                    { scale: 1 / 3, suffix: '', subfolder: 'drawable-mdpi', resample: 'high' },
+                    { scale: 0.5, suffix: '', subfolder: 'drawable-hdpi', resample: 'high' },
+                    { scale: 2 / 3, suffix: '', subfolder: 'drawable-xhdpi', resample: 'high' },
+                    { scale: 1, suffix: '', subfolder: 'drawable-xxhdpi', resample: 'high' },
+                    { scale: 4 / 3, suffix: '', subfolder: 'drawable-xxxhdpi', resample: 'high' },
+                ],
+            },
+            {
+                label: '原图 + 256px 缩略图',
+                variants: [
+                    { scale: 1, suffix: '', subfolder: '', resample: 'high' },
+                    { maxWidth: 256, suffix: '_thumb', subfolder: '', resample: 'high' },
+                ],
+            },
+        ],
+    },
+
+    // 图集导出配置
+    ATLAS: {
+        /** 可选的页面最大边长 */
+        PAGE_SIZES: [512, 1024, 2048, 4096],
+        /** 默认打包选项 */
+        DEFAULTS: {
+            maxSize: 2048,
+            padding: 2,
+            extrude: 0,
+            allowRotation: false,
+            powerOfTwo: true,
+            dataFormats: ['texturepacker', 'libgdx'],
+        },
+        /** 间距和外扩的上限(像素) */
+        MAX_SPACING: 16,
+    },
+
+    // CSS 精灵图配置
+    CSS_SPRITE: {
+        /** 1 倍图对应的分辨率(像素/英寸),PSD 分辨率按此换算为设计倍率 */
+        BASE_RESOLUTION: 72,
+        /** 精灵图最大边长(CSS 像素),放不下时分为多张 */
+        MAX_SIZE: 4096,
+        /** 默认选项 */
+        DEFAULTS: {
+            padding: 2,
+            classPrefix: 'icon',
+            scss: false,
+            retina: true,
+        },
+    },
+
+    // PSD 全图预览配置
+    COMPOSITE_PREVIEW: {
+        /** 隐藏状态变化后延迟重新合成的时间(毫秒),连续切换时只合成一次 */
+        RECOMPOSITE_DELAY: 200,
+    },
+
     // 文案配置
     TEXT: {
         APP_TITLE: '资源浏览器',
         UPLOAD_BTN: '上传文件',
         PREVIEW_TITLE: '预览窗口',
-        PREVIEW_HINT: '请上传 PSD 文件以预览图层',
-        LOADING: '正在加载 PSD 文件...',
+        PREVIEW_HINT: '请上传 PSD、BLP 或 TGA 文件以预览图层',
+        LOADING: '正在加载文件...',
+        CANCEL_PARSE_BTN: '取消',
+        /** 各解析阶段的显示文案 */
+        PARSE_PHASES: {
+            reading: '正在读取文件',
+            decoding: '正在解码图层数据',
+            building: '正在构建图层树',
+            encoding: '正在生成图层图像',
+        },
         SELECT_ALL: '全选',
         EXPORT_BTN: '导出',
         NO_PREVIEW: '此图层无预览图',
-        INVALID_FILE_ERROR: '请选择一个有效的 PSD 文件',
-        PROCESS_ERROR: '处理 PSD 文件时出错,请确保文件有效',
+        INVALID_FILE_ERROR: '请选择一个有效的 PSD、BLP 或 TGA 文件',
+        PROCESS_ERROR: '处理文件时出错,请确保文件有效',
         NO_EXPORT_IMAGE: '此图层无可导出的图像',
     },
 
@@ -15,3 +15,13 @@ export type { UsePsdParserReturn } from './usePsdParser';
 
 export { useFileUpload } from './useFileUpload';
 export type { FileValidationConfig, UseFileUploadReturn } from './useFileUpload';
+
+export { useImageUrl } from './useImageUrl';
+
+export { useThumbnailUrl } from './useThumbnailUrl';
+
+export { useVirtualList } from './useVirtualList';
+export type { VirtualListOptions, UseVirtualListReturn } from './useVirtualList';
+
+export { useVisibleComposite } from './useVisibleComposite';
+export type { VisibleCompositeOptions, UseVisibleCompositeReturn } from './useVisibleComposite';
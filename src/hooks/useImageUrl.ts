@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { getImageUrl, subscribeImage } from '../utils/imageStore';
+
+/**
+ * 图像 URL Hook
+ *
+ * 从图像存储中按需获取图像的 object URL,图像尚未到达时返回 null,
+ * 图像写入或被替换后自动更新
+ *
+ * @param imageKey - 图像键,为空时返回 null
+ * @returns 可用于 `<img src>` 的 object URL
+ *
+ * @example
+ * ```tsx
+ * const url = useImageUrl(layer.imageKey);
+ * return url ? <img src={url} /> : <span>加载中</span>;
+ * ```
+ */
+export const useImageUrl = (imageKey: string | null | undefined): string | null => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        setUrl(null);
+        if (!imageKey) return;
+
+        let cancelled = false;
+        const load = () => {
+            getImageUrl(imageKey).then(next => {
+                if (!cancelled) setUrl(next);
+            });
+        };
+
+        load();
+        const unsubscribe = subscribeImage(imageKey, load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [imageKey]);
+
+    return url;
+};
@@ -4,18 +4,18 @@ import { useState, useMemo } from 'react';
  * useLayerSelection Hook 返回值接口
  */
 export interface UseLayerSelectionReturn {
-    /** 已选中的图层索引集合 */
-    selectedIndexes: Set<number>;
-    /** 切换指定索引的选中状态 */
-    toggleSelection: (index: number) => void;
+    /** 已选中的图层 id 集合 */
+    selectedIds: Set<string>;
+    /** 切换指定图层的选中状态 */
+    toggleSelection: (id: string) => void;
     /** 全选/取消全选所有图层 */
-    toggleSelectAll: (totalCount: number) => void;
+    toggleSelectAll: (allIds: string[]) => void;
     /** 批量设置选中状态 */
-    setSelectedIndexes: (indexes: Set<number>) => void;
+    setSelectedIds: (ids: Set<string>) => void;
     /** 清空所有选中 */
     clearSelection: () => void;
-    /** 判断指定索引是否已选中 */
-    isSelected: (index: number) => boolean;
+    /** 判断指定图层是否已选中 */
+    isSelected: (id: string) => boolean;
     /** 已选中的数量 */
     selectedCount: number;
 }
@@ -30,36 +30,36 @@ export interface UseLayerSelectionReturn {
  * @example
  * ```tsx
  * const { 
- *   selectedIndexes, 
+ *   selectedIds, 
  *   toggleSelection, 
  *   toggleSelectAll,
  *   selectedCount 
  * } = useLayerSelection();
  * 
  * // 切换单个图层的选中状态
- * toggleSelection(0);
+ * toggleSelection(layer.id);
  * 
  * // 全选/取消全选
- * toggleSelectAll(layers.length);
+ * toggleSelectAll(layers.map(l => l.id));
  * 
  * // 检查是否选中
- * console.log(selectedIndexes.has(0));
+ * console.log(selectedIds.has(layer.id));
  * ```
  */
 export const useLayerSelection = (): UseLayerSelectionReturn => {
-    const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
     /**
-     * 切换指定索引的选中状态
-     * @param index - 图层索引
+     * 切换指定图层的选中状态
+     * @param id - 图层 id
      */
-    const toggleSelection = (index: number) => {
-        setSelectedIndexes(prev => {
+    const toggleSelection = (id: string) => {
+        setSelectedIds(prev => {
             const newSet = new Set(prev);
-            if (newSet.has(index)) {
-                newSet.delete(index);
+            if (newSet.has(id)) {
+                newSet.delete(id);
             } else {
-                newSet.add(index);
+                newSet.add(id);
             }
             return newSet;
         });
@@ -67,15 +67,15 @@ export const useLayerSelection = (): UseLayerSelectionReturn => {
 
     /**
      * 全选/取消全选所有图层
-     * @param totalCount - 图层总数
+     * @param allIds - 所有图层的 id
      */
-    const toggleSelectAll = (totalCount: number) => {
-        if (selectedIndexes.size === totalCount) {
+    const toggleSelectAll = (allIds: string[]) => {
+        if (selectedIds.size === allIds.length) {
             // 如果已全选,则取消全选
-            setSelectedIndexes(new Set());
+            setSelectedIds(new Set());
         } else {
             // 否则全选
-            setSelectedIndexes(new Set(Array.from({ length: totalCount }, (_, i) => i)));
+            setSelectedIds(new Set(allIds));
         }
     };
 
@@ -83,27 +83,27 @@ export const useLayerSelection = (): UseLayerSelectionReturn => {
      * 清空所有选中
      */
     const clearSelection = () => {
-        setSelectedIndexes(new Set());
+        setSelectedIds(new Set());
     };
 
     /**
-     * 判断指定索引是否已选中
-     * @param index - 图层索引
+     * 判断指定图层是否已选中
+     * @param id - 图层 id
      */
-    const isSelected = (index: number): boolean => {
-        return selectedIndexes.has(index);
+    const isSelected = (id: string): boolean => {
+        return selectedIds.has(id);
     };
 
     /**
      * 已选中的数量,使用 useMemo 避免重复计算
      */
-    const selectedCount = useMemo(() => selectedIndexes.size, [selectedIndexes]);
+    const selectedCount = useMemo(() => selectedIds.size, [selectedIds]);
 
     return {
-        selectedIndexes,
+        selectedIds,
         toggleSelection,
         toggleSelectAll,
-        setSelectedIndexes,
+        setSelectedIds,
         clearSelection,
         isSelected,
         selectedCount,
@@ -1,6 +1,8 @@
-import { useState } from 'react';
-import { extractLayerTree } from '../psd-parser';
-import { PsdInfo, Layer, LayerTreeNode } from '../types';
+import { useState, useRef, useEffect } from 'react';
+import { parsePsdInWorker, isAbortError } from '../workers/psdParserClient';
+import { clearImages, putImage, COMPOSITE_IMAGE_KEY } from '../utils/imageStore';
+import { clearThumbnails } from '../utils/thumbnailCache';
+import { PsdInfo, Layer, LayerTreeNode, ParseProgress } from '../types';
 
 /**
  * usePsdParser Hook 返回值接口
@@ -12,70 +14,129 @@ export interface UsePsdParserReturn {
     layerTree: LayerTreeNode[];
     /** PSD 文件信息 */
     psdInfo: PsdInfo | null;
-    /** 是否正在加载 */
+    /** 是否正在加载(图层树结构尚未就绪) */
     loading: boolean;
+    /** 解析进度,没有进行中的解析时为 null */
+    progress: ParseProgress | null;
     /** 错误信息 */
     error: string | null;
-    /** PSD 全图预览 URL */
-    psdPreviewUrl: string | null;
-    /** 解析 PSD 文件 */
+    /** PSD 全图预览在图像存储中的键 */
+    psdPreviewKey: string | null;
+    /** 解析 PSD 文件,会先取消正在进行的解析 */
     parsePsdFile: (file: File) => Promise<void>;
+    /** 取消正在进行的解析并清空状态 */
+    cancel: () => void;
     /** 重置状态 */
     reset: () => void;
 }
 
 /**
  * PSD 解析管理 Hook
+ *
+ * 解析在 Web Worker 中进行: 图层树结构就绪后立即展示,
+ * 各图层位图随后陆续到达并写入图像存储,界面通过 imageKey 订阅各自的图像。
+ * 同一时刻只有一个解析生效,开始新的解析会取消上一个,旧解析的结果不会写入状态。
+ * 开始新解析、取消或重置时会清空图像存储,释放上一个文件的全部位图。
  */
 export const usePsdParser = (): UsePsdParserReturn => {
     const [layers, setLayers] = useState<Layer[]>([]);
     const [layerTree, setLayerTree] = useState<LayerTreeNode[]>([]);
     const [psdInfo, setPsdInfo] = useState<PsdInfo | null>(null);
     const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState<ParseProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [psdPreviewUrl, setPsdPreviewUrl] = useState<string | null>(null);
+    const [psdPreviewKey, setPsdPreviewKey] = useState<string | null>(null);
+
+    // 当前解析的取消控制器
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    /**
+     * 终止正在进行的解析(不修改状态)
+     */
+    const abortCurrent = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+    };
+
+    useEffect(() => abortCurrent, []);
+
+    const clearState = () => {
+        setLayers([]);
+        setLayerTree([]);
+        setPsdInfo(null);
+        setLoading(false);
+        setProgress(null);
+        setError(null);
+        setPsdPreviewKey(null);
+        clearImages();
+        clearThumbnails();
+    };
 
     /**
      * 解析 PSD 文件
      * @param file - 要解析的 PSD 文件
      */
     const parsePsdFile = async (file: File): Promise<void> => {
+        abortCurrent();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        clearState();
         setLoading(true);
-        setError(null);
-        setLayers([]);
-        setLayerTree([]);
-        setPsdInfo(null);
-        setPsdPreviewUrl(null);
 
         try {
-            const data = await extractLayerTree(file);
-            setLayers(data.layers || []);
-            setLayerTree(data.tree || []);
-            setPsdInfo({
-                name: file.name,
-                width: data.width,
-                height: data.height,
-                version: 1, // 简化的版本
-                channels: 3 // 简化的通道
-            });
-            setPsdPreviewUrl(data.psdImageUrl || null);
+            await parsePsdInWorker(file, {
+                onProgress: setProgress,
+                onDocument: (doc) => {
+                    setLayers(doc.layers || []);
+                    setLayerTree(doc.tree || []);
+                    setPsdInfo({
+                        name: file.name,
+                        width: doc.width,
+                        height: doc.height,
+                        resolution: doc.resolution,
+                        version: 1, // 简化的版本
+                        channels: 3, // 简化的通道
+                        texture: doc.texture
+                    });
+                    // 结构已可浏览,图片在后台继续到达
+                    setLoading(false);
+                },
+                onLayerImage: (imageKey, bitmap) => {
+                    putImage(imageKey, bitmap);
+                },
+                onComposite: (bitmap) => {
+                    putImage(COMPOSITE_IMAGE_KEY, bitmap);
+                    setPsdPreviewKey(COMPOSITE_IMAGE_KEY);
+                },
+            }, controller.signal);
         } catch (err) {
+            if (isAbortError(err)) {
+                // 被新的解析或 cancel() 取消,状态由取消方负责
+                console.log(`[Parser] 已取消解析: ${file.name}`);
+                return;
+            }
             console.error('处理 PSD 文件时出错:', err);
             const errorMessage = err instanceof Error ? err.message : '处理 PSD 文件时出错,请确保文件有效';
             setError(errorMessage);
             throw err;
         } finally {
-            setLoading(false);
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setLoading(false);
+                setProgress(null);
+            }
         }
     };
 
+    const cancel = () => {
+        abortCurrent();
+        clearState();
+    };
+
     const reset = () => {
-        setLayers([]);
-        setLayerTree([]);
-        setPsdInfo(null);
-        setLoading(false);
-        setError(null);
-        setPsdPreviewUrl(null);
+        abortCurrent();
+        clearState();
     };
 
     return {
@@ -83,9 +144,11 @@ export const usePsdParser = (): UsePsdParserReturn => {
         layerTree,
         psdInfo,
         loading,
+        progress,
         error,
-        psdPreviewUrl,
+        psdPreviewKey,
         parsePsdFile,
+        cancel,
         reset,
     };
 };
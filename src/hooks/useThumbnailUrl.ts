@@ -0,0 +1,65 @@
+import { RefObject, useEffect, useState } from 'react';
+import { APP_CONFIG } from '../config';
+import { subscribeImage } from '../utils/imageStore';
+import { getThumbnailUrl } from '../utils/thumbnailCache';
+
+/**
+ * 缩略图 URL Hook
+ *
+ * 元素进入(或接近)可视区域后才生成缩略图,图像尚未到达时返回 null,
+ * 图像写入或被替换后自动更新。缩略图来自 LRU 缓存,全尺寸图像不会在此解码为 URL。
+ *
+ * @param imageKey - 图像键,为空时返回 null
+ * @param elementRef - 用于判断是否可见的元素
+ * @returns 可用于 `<img src>` 的缩略图 object URL
+ *
+ * @example
+ * ```tsx
+ * const thumbRef = useRef<HTMLDivElement>(null);
+ * const thumbnailUrl = useThumbnailUrl(node.imageKey, thumbRef);
+ * ```
+ */
+export const useThumbnailUrl = (
+    imageKey: string | null | undefined,
+    elementRef: RefObject<Element | null>
+): string | null => {
+    const [inView, setInView] = useState(false);
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const element = elementRef.current;
+        if (!element || inView || !imageKey) return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                // 一旦生成过便不再回收,滚出视图的行继续显示已有缩略图
+                setInView(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: APP_CONFIG.THUMBNAIL.ROOT_MARGIN });
+
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [elementRef, imageKey, inView]);
+
+    useEffect(() => {
+        setUrl(null);
+        if (!imageKey || !inView) return;
+
+        let cancelled = false;
+        const load = () => {
+            getThumbnailUrl(imageKey).then(next => {
+                if (!cancelled) setUrl(next);
+            });
+        };
+
+        load();
+        const unsubscribe = subscribeImage(imageKey, load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [imageKey, inView]);
+
+    return url;
+};
@@ -0,0 +1,99 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+/**
+ * useVirtualList Hook 配置
+ */
+export interface VirtualListOptions {
+    /** 列表项总数 */
+    count: number;
+    /** 固定行高(像素) */
+    rowHeight: number;
+    /** 可视区域上下额外渲染的行数 */
+    overscan?: number;
+    /** 滚动容器 */
+    containerRef: RefObject<HTMLElement | null>;
+}
+
+/**
+ * useVirtualList Hook 返回值接口
+ */
+export interface UseVirtualListReturn {
+    /** 需要渲染的第一行(包含) */
+    startIndex: number;
+    /** 需要渲染的最后一行(不包含) */
+    endIndex: number;
+    /** 列表内容总高度,用于撑开滚动区域 */
+    totalHeight: number;
+    /** 滚动到指定行,使其完整出现在可视区域内(已可见时不滚动) */
+    scrollToIndex: (index: number) => void;
+}
+
+/**
+ * 固定行高的虚拟列表 Hook
+ *
+ * 根据滚动容器的 scrollTop 和高度计算当前需要挂载的行区间,
+ * 行本身由调用方以 `index * rowHeight` 绝对定位渲染
+ *
+ * @param options - 列表配置
+ * @returns {UseVirtualListReturn} 可视区间和滚动方法
+ *
+ * @example
+ * ```tsx
+ * const { startIndex, endIndex, totalHeight } = useVirtualList({ count: rows.length, rowHeight: 44, containerRef });
+ * <div ref={containerRef} style={{ overflowY: 'auto' }}>
+ *   <div style={{ height: totalHeight, position: 'relative' }}>
+ *     {rows.slice(startIndex, endIndex).map(...)}
+ *   </div>
+ * </div>
+ * ```
+ */
+export const useVirtualList = ({
+    count,
+    rowHeight,
+    overscan = 8,
+    containerRef,
+}: VirtualListOptions): UseVirtualListReturn => {
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleScroll = () => setScrollTop(container.scrollTop);
+        const resizeObserver = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+        handleScroll();
+        setViewportHeight(container.clientHeight);
+        container.addEventListener('scroll', handleScroll, { passive: true });
+        resizeObserver.observe(container);
+
+        return () => {
+            container.removeEventListener('scroll', handleScroll);
+            resizeObserver.disconnect();
+        };
+    }, [containerRef]);
+
+    const scrollToIndex = useCallback((index: number) => {
+        const container = containerRef.current;
+        if (!container || index < 0 || index >= count) return;
+
+        const rowTop = index * rowHeight;
+        const rowBottom = rowTop + rowHeight;
+        if (rowTop < container.scrollTop) {
+            container.scrollTop = rowTop;
+        } else if (rowBottom > container.scrollTop + container.clientHeight) {
+            container.scrollTop = rowBottom - container.clientHeight;
+        }
+    }, [containerRef, count, rowHeight]);
+
+    const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+    const endIndex = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+    return {
+        startIndex,
+        endIndex,
+        totalHeight: count * rowHeight,
+        scrollToIndex,
+    };
+};
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { APP_CONFIG } from '../config';
+import { LayerTreeNode } from '../types';
+import { getImageBitmap, putImage, VISIBLE_COMPOSITE_IMAGE_KEY } from '../utils/imageStore';
+import { renderDocumentComposite } from '../utils/layerUtils';
+
+/**
+ * useVisibleComposite Hook 配置
+ */
+export interface VisibleCompositeOptions {
+    /** 图层树 */
+    tree: LayerTreeNode[];
+    /** 隐藏的图层 id 集合 */
+    hiddenLayers: Set<string>;
+    /** 文档宽度 */
+    width: number;
+    /** 文档高度 */
+    height: number;
+    /** PSD 自带全图合成的图像键,尚未到达时为 null */
+    bakedKey: string | null;
+    /** 图层图像是否已全部到达,未到达时不重新合成 */
+    ready: boolean;
+}
+
+/**
+ * useVisibleComposite Hook 返回值接口
+ */
+export interface UseVisibleCompositeReturn {
+    /** 全图的图像键(固定为 VISIBLE_COMPOSITE_IMAGE_KEY),PSD 全图尚未到达时为 null */
+    imageKey: string | null;
+    /** 立即按当前状态生成全图(跳过延迟),用于导出前确保图像是最新的 */
+    refresh: () => Promise<string | null>;
+}
+
+/**
+ * 按当前图层可见性生成 PSD 全图
+ *
+ * 没有隐藏图层时直接使用 PSD 自带的全图合成(包含调整图层和图层效果,最准确);
+ * 有隐藏图层时由图层树重新合成。结果始终写入同一个图像键,订阅该键的预览和缩略图自动更新。
+ * 隐藏状态连续变化时按 APP_CONFIG.COMPOSITE_PREVIEW.RECOMPOSITE_DELAY 合并为一次合成。
+ *
+ * @param options - 图层树、隐藏状态和 PSD 全图信息
+ * @returns {UseVisibleCompositeReturn} 全图图像键和立即刷新方法
+ *
+ * @example
+ * ```tsx
+ * const { imageKey } = useVisibleComposite({ tree, hiddenLayers, width, height, bakedKey, ready: !loading });
+ * const url = useImageUrl(imageKey);
+ * ```
+ */
+export const useVisibleComposite = ({
+    tree,
+    hiddenLayers,
+    width,
+    height,
+    bakedKey,
+    ready,
+}: VisibleCompositeOptions): UseVisibleCompositeReturn => {
+    // 每次生成递增,较早开始的生成完成时发现版本已变则丢弃结果
+    const versionRef = useRef(0);
+
+    const generate = useCallback(async (): Promise<string | null> => {
+        const baked = getImageBitmap(bakedKey);
+        if (!baked) return null;
+
+        const version = ++versionRef.current;
+        let bitmap: ImageBitmap | null = null;
+        if (hiddenLayers.size === 0 || !ready) {
+            bitmap = await createImageBitmap(baked);
+        } else {
+            const canvas = renderDocumentComposite(tree, hiddenLayers, width, height);
+            // 全部图层都被隐藏时输出透明图像
+            bitmap = await createImageBitmap(canvas ?? new ImageData(Math.max(1, width), Math.max(1, height)));
+        }
+
+        if (version !== versionRef.current) {
+            bitmap.close();
+            return VISIBLE_COMPOSITE_IMAGE_KEY;
+        }
+        putImage(VISIBLE_COMPOSITE_IMAGE_KEY, bitmap);
+        return VISIBLE_COMPOSITE_IMAGE_KEY;
+    }, [tree, hiddenLayers, width, height, bakedKey, ready]);
+
+    useEffect(() => {
+        if (!bakedKey) return;
+
+        const timer = setTimeout(() => {
+            generate().catch(error => console.error('重新合成 PSD 全图失败:', error));
+        }, APP_CONFIG.COMPOSITE_PREVIEW.RECOMPOSITE_DELAY);
+        return () => clearTimeout(timer);
+    }, [generate, bakedKey]);
+
+    return {
+        imageKey: bakedKey ? VISIBLE_COMPOSITE_IMAGE_KEY : null,
+        refresh: generate,
+    };
+};
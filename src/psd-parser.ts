@@ -9,135 +9,268 @@
  * - 生成图层预览图
  */
 
-import { readPsd, Psd } from 'ag-psd';
-import { canvasToDataURL } from './utils/imageUtils';
+import { readPsd, Color, LayerEffectsInfo, LayerTextData, Layer as PsdLayer, TextStyle, UnitsValue } from 'ag-psd';
+import { EffectColor, Layer, LayerEffects, LayerExportTag, LayerMaskInfo, LayerTreeNode, TextInfo, TextRunInfo } from './types';
+import { AnyCanvas } from './utils/imageUtils';
+import { layerImageKey, maskImageKey, rawLayerImageKey } from './utils/imageStore';
+import { getLayerOpacity } from './utils/layerUtils';
+import { CompositeLayer, CompositeMask, PixelSource, applyMask, clipToShape, renderGroupImage } from './utils/compositor';
+import { parseLayerNameTags } from './utils/nameTags';
 
 
 /**
- * 递归展平所有图层（包括子图层，排除组）
- * 核心：合成组图层时，确保包含所有可见的子元素（如文字）
+ * 读取 ag-psd 图层的蒙版,没有像素数据或已停用时返回 null
+ *
+ * @param child - ag-psd 图层
  */
-const flattenLayers = (children: any[], result: any[] = []): any[] => {
-    for (const child of children) {
-        // 严格检查可见性
-        if (child.hidden === true || child.visible === false) {
-            console.log(`[Parser] 跳过隐藏节点: "${child.name}"`);
-            continue;
-        }
+const toCompositeMask = (child: PsdLayer): CompositeMask | null => {
+    const mask = child.mask;
+    if (!mask || !mask.canvas || mask.disabled) return null;
+    return {
+        source: mask.canvas,
+        left: mask.left ?? 0,
+        top: mask.top ?? 0,
+        width: mask.canvas.width,
+        height: mask.canvas.height,
+        defaultColor: mask.defaultColor ?? 0,
+    };
+};
 
-        const isGroup = (child.children && child.children.length > 0) || child.type === 'group';
+/**
+ * 将 ag-psd 的效果颜色转换为 RGB(0-255),不支持的颜色空间按黑色处理
+ */
+const toEffectColor = (color: Color | undefined): EffectColor => {
+    if (!color) return { r: 0, g: 0, b: 0 };
+    if ('r' in color) return { r: color.r, g: color.g, b: color.b };
+    if ('fr' in color) {
+        return { r: Math.round(color.fr * 255), g: Math.round(color.fg * 255), b: Math.round(color.fb * 255) };
+    }
+    if ('h' in color) {
+        // HSB: h 为角度,s/b 为百分比
+        const s = color.s / 100;
+        const v = color.b / 100;
+        const channel = (n: number) => {
+            const k = (n + color.h / 60) % 6;
+            return Math.round((v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+        };
+        return { r: channel(5), g: channel(3), b: channel(1) };
+    }
+    if ('c' in color) {
+        const k = 1 - color.k / 100;
+        return {
+            r: Math.round(255 * (1 - color.c / 100) * k),
+            g: Math.round(255 * (1 - color.m / 100) * k),
+            b: Math.round(255 * (1 - color.y / 100) * k),
+        };
+    }
+    if ('k' in color) {
+        // 灰度: k 为黑色百分比
+        const gray = Math.round(255 * (1 - color.k / 100));
+        return { r: gray, g: gray, b: gray };
+    }
+    return { r: 0, g: 0, b: 0 };
+};
 
-        if (isGroup) {
-            // 递归获取子图层
-            const subResult: any[] = [];
-            if (child.children) {
-                flattenLayers(child.children, subResult);
-            }
+/**
+ * 读取 ag-psd 的长度值(UnitsValue 或数字)
+ */
+const unitsToPixels = (value: UnitsValue | number | undefined): number => {
+    if (typeof value === 'number') return value;
+    return value?.value ?? 0;
+};
 
-            // 获取当前组内的可见叶子节点（用于合成）
-            let minLeft = Infinity, minTop = Infinity, maxRight = -Infinity, maxBottom = -Infinity;
-            let hasContent = false;
-
-            const getVisibleLeafLayersForGroup = (items: any[], list: any[] = []) => {
-                for (const item of items) {
-                    if (item.hidden === true || item.visible === false) continue;
-
-                    if (item.children && item.children.length > 0) {
-                        getVisibleLeafLayersForGroup(item.children, list);
-                    } else {
-                        const left = item.left ?? 0;
-                        const top = item.top ?? 0;
-                        const right = item.right ?? left;
-                        const bottom = item.bottom ?? top;
-                        const width = right - left;
-                        const height = bottom - top;
-
-                        if (item.canvas || width > 0 || height > 0 || item.text) {
-                            list.push(item);
-                            if (width > 0 && height > 0) {
-                                minLeft = Math.min(minLeft, left);
-                                minTop = Math.min(minTop, top);
-                                maxRight = Math.max(maxRight, right);
-                                maxBottom = Math.max(maxBottom, bottom);
-                                hasContent = true;
-                            }
-                        }
-                    }
-                }
-                return list;
-            };
-
-            const leafLayers = getVisibleLeafLayersForGroup(child.children || []);
-
-            // 策略调整：如果组内只有一个可见子项，且该项不是组，则不需要再生成“组”级别的预览，避免重复
-            const shouldAddGroupPreview = leafLayers.length > 1 || (leafLayers.length === 1 && leafLayers[0].canvas === undefined);
-
-            // 先将所有子项加入结果
-            result.push(...subResult);
-
-            // 生成组图层（只有当组内有多个元素或内容有意义时）
-            if (hasContent && shouldAddGroupPreview) {
-                const groupWidth = maxRight - minLeft;
-                const groupHeight = maxBottom - minTop;
-
-                if (groupWidth > 0 && groupHeight > 0) {
-                    const canvas = document.createElement('canvas');
-                    canvas.width = groupWidth;
-                    canvas.height = groupHeight;
-                    const ctx = canvas.getContext('2d');
-
-                    if (ctx) {
-                        for (const layer of leafLayers) {
-                            if (layer.canvas) {
-                                ctx.save();
-                                let opacity = layer.opacity ?? 255;
-                                ctx.globalAlpha = opacity > 1 ? opacity / 255 : opacity;
-                                ctx.drawImage(layer.canvas, (layer.left ?? 0) - minLeft, (layer.top ?? 0) - minTop);
-                                ctx.restore();
-                            }
-                        }
-
-                        result.push({
-                            name: `[Group] ${child.name}`,
-                            type: 'group',
-                            isGroup: true,
-                            visible: true,
-                            opacity: child.opacity ?? 255,
-                            left: minLeft,
-                            right: maxRight,
-                            top: minTop,
-                            bottom: maxBottom,
-                            width: groupWidth,
-                            height: groupHeight,
-                            imageUrl: canvasToDataURL(canvas),
-                        });
-                    }
-                }
-            }
-        } else {
-            //叶子节点处理
-            const left = child.left ?? 0;
-            const top = child.top ?? 0;
-            const right = child.right ?? left;
-            const bottom = child.bottom ?? top;
-            const width = child.canvas?.width ?? (right - left);
-            const height = child.canvas?.height ?? (bottom - top);
+/**
+ * 判断 ag-psd 的单个效果是否启用
+ */
+const isEffectEnabled = <T extends { enabled?: boolean }>(effect: T | undefined): effect is T => !!effect && effect.enabled !== false;
 
-            if (child.name && (child.canvas || width > 0 || height > 0 || child.text)) {
-                result.push({
-                    name: child.name,
-                    type: child.type,
-                    isGroup: false,
-                    visible: true,
-                    opacity: child.opacity ?? 255,
-                    blendMode: child.blendMode,
-                    left, right, top, bottom, width, height,
-                    imageUrl: canvasToDataURL(child.canvas),
-                });
-            }
-        }
+/**
+ * 读取 ag-psd 图层上已启用、可栅格化的图层效果
+ *
+ * 只保留描边(纯色)、投影、外发光、内发光和颜色叠加,转换为可序列化的数据
+ *
+ * @param effects - ag-psd 的 LayerEffectsInfo
+ * @param globalAngle - 文档的全局光源角度,效果勾选"使用全局光"时采用
+ * @returns 图层效果,没有可用效果时返回 undefined
+ */
+const toLayerEffects = (effects: LayerEffectsInfo | undefined, globalAngle: number): LayerEffects | undefined => {
+    if (!effects || effects.disabled) return undefined;
+
+    const scale = effects.scale ?? 1;
+    const result: LayerEffects = {};
+
+    const dropShadows = (effects.dropShadow || []).filter(isEffectEnabled).map(shadow => ({
+        color: toEffectColor(shadow.color),
+        opacity: shadow.opacity ?? 0.75,
+        blendMode: shadow.blendMode ?? 'multiply',
+        angle: shadow.useGlobalLight ? globalAngle : (shadow.angle ?? globalAngle),
+        distance: unitsToPixels(shadow.distance) * scale,
+        size: unitsToPixels(shadow.size) * scale,
+        spread: unitsToPixels(shadow.choke),
+    }));
+    if (dropShadows.length > 0) result.dropShadows = dropShadows;
+
+    const outerGlow = effects.outerGlow;
+    if (isEffectEnabled(outerGlow)) {
+        result.outerGlow = {
+            color: toEffectColor(outerGlow.color),
+            opacity: outerGlow.opacity ?? 0.75,
+            blendMode: outerGlow.blendMode ?? 'screen',
+            size: unitsToPixels(outerGlow.size) * scale,
+            spread: unitsToPixels(outerGlow.choke),
+        };
+    }
+
+    const innerGlow = effects.innerGlow;
+    if (isEffectEnabled(innerGlow)) {
+        result.innerGlow = {
+            color: toEffectColor(innerGlow.color),
+            opacity: innerGlow.opacity ?? 0.75,
+            blendMode: innerGlow.blendMode ?? 'screen',
+            size: unitsToPixels(innerGlow.size) * scale,
+            spread: unitsToPixels(innerGlow.choke),
+            source: innerGlow.source === 'center' ? 'center' : 'edge',
+        };
+    }
+
+    const colorOverlays = (effects.solidFill || []).filter(isEffectEnabled).map(fill => ({
+        color: toEffectColor(fill.color),
+        opacity: fill.opacity ?? 1,
+        blendMode: fill.blendMode ?? 'normal',
+    }));
+    if (colorOverlays.length > 0) result.colorOverlays = colorOverlays;
+
+    // 渐变、图案描边暂不支持
+    const strokes = (effects.stroke || [])
+        .filter(stroke => isEffectEnabled(stroke) && (stroke.fillType ?? 'color') === 'color')
+        .map(stroke => ({
+            color: toEffectColor(stroke.color),
+            opacity: stroke.opacity ?? 1,
+            blendMode: stroke.blendMode ?? 'normal',
+            size: unitsToPixels(stroke.size) * scale,
+            position: stroke.position ?? 'outside',
+        }));
+    if (strokes.length > 0) result.strokes = strokes;
+
+    return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * 将 RGB 颜色转换为 #rrggbb
+ */
+const toHexColor = (color: EffectColor): string => {
+    const hex = (value: number) => Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0');
+    return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}`;
+};
+
+/**
+ * 读取 ag-psd 文字样式的字体、字号和颜色
+ *
+ * @param style - ag-psd 的 TextStyle
+ * @param scale - 文字变换的纵向缩放
+ */
+const toTextStyle = (style: TextStyle | undefined, scale: number): Omit<TextRunInfo, 'text'> => ({
+    fontName: style?.font?.name ?? null,
+    fontSize: typeof style?.fontSize === 'number' ? Math.round(style.fontSize * scale * 100) / 100 : null,
+    color: style?.fillColor ? toHexColor(toEffectColor(style.fillColor)) : null,
+});
+
+/**
+ * 将 ag-psd 的段落对齐方式归并为左/中/右/两端对齐
+ */
+const toTextAlignment = (justification: string | undefined): TextInfo['alignment'] => {
+    if (justification === 'center' || justification === 'right') return justification;
+    if (justification?.startsWith('justify')) return 'justify';
+    return 'left';
+};
+
+/**
+ * 读取 ag-psd 文字图层的内容和样式
+ *
+ * @param text - ag-psd 的 LayerTextData
+ * @returns 文字信息,不是文字图层时返回 undefined
+ */
+const toTextInfo = (text: LayerTextData | undefined): TextInfo | undefined => {
+    if (!text || typeof text.text !== 'string') return undefined;
+
+    const transform: number[] | null = Array.isArray(text.transform) ? text.transform : null;
+    // 字号按文字变换的纵向缩放换算为实际像素
+    const scale = transform ? Math.hypot(transform[2], transform[3]) || 1 : 1;
+    const content = text.text.replace(/\r\n?/g, '\n');
+
+    const runs: TextRunInfo[] = [];
+    let offset = 0;
+    for (const run of text.styleRuns || []) {
+        runs.push({
+            text: content.slice(offset, offset + run.length),
+            ...toTextStyle({ ...text.style, ...run.style }, scale),
+        });
+        offset += run.length;
     }
-    return result;
+    if (runs.length === 0) {
+        runs.push({ text: content, ...toTextStyle(text.style, scale) });
+    }
+
+    const justification = text.paragraphStyleRuns?.[0]?.style?.justification ?? text.paragraphStyle?.justification;
+    return {
+        text: content,
+        fontName: runs[0].fontName,
+        fontSize: runs[0].fontSize,
+        color: runs[0].color,
+        alignment: toTextAlignment(justification),
+        orientation: text.orientation === 'vertical' ? 'vertical' : 'horizontal',
+        transform,
+        runs,
+    };
+};
+
+/**
+ * 将 ag-psd 图层转换为合成引擎的图层栈
+ *
+ * @param children - ag-psd 子图层数组(自下而上)
+ */
+const toCompositeLayers = (children: PsdLayer[]): CompositeLayer[] => {
+    return children.map(child => {
+        const isGroup = !!child.children && child.children.length > 0;
+        const left = child.left ?? 0;
+        const top = child.top ?? 0;
+        return {
+            name: child.name,
+            source: isGroup ? null : child.canvas ?? null,
+            left,
+            top,
+            width: child.canvas?.width ?? ((child.right ?? left) - left),
+            height: child.canvas?.height ?? ((child.bottom ?? top) - top),
+            opacity: getLayerOpacity(child),
+            blendMode: child.blendMode ?? (isGroup ? 'pass through' : 'normal'),
+            hidden: child.hidden === true,
+            clipping: child.clipping === true,
+            mask: toCompositeMask(child),
+            children: isGroup ? toCompositeLayers(child.children || []) : undefined,
+        };
+    });
+};
+
+// Photoshop 默认的全局光源角度
+const DEFAULT_GLOBAL_ANGLE = 120;
+
+/**
+ * 解析图层名中的导出标签,没有标签时返回 undefined(不在图层数据中出现空数组)
+ */
+const toExportTags = (name: string | undefined): LayerExportTag[] | undefined => {
+    const tags = parseLayerNameTags(name ?? '');
+    return tags.length > 0 ? tags : undefined;
+};
+
+// 未记录分辨率时的默认值(像素/英寸)
+const DEFAULT_RESOLUTION = 72;
+
+/**
+ * 读取文档水平分辨率并换算为像素/英寸
+ */
+const toPixelsPerInch = (info: { horizontalResolution: number; horizontalResolutionUnit: 'PPI' | 'PPCM' } | undefined): number => {
+    if (!info || !(info.horizontalResolution > 0)) return DEFAULT_RESOLUTION;
+    return info.horizontalResolutionUnit === 'PPCM' ? info.horizontalResolution * 2.54 : info.horizontalResolution;
 };
 
 // 后台统一的读取选项
@@ -150,64 +283,91 @@ const READ_OPTIONS = {
 };
 
 /**
- * 解析 PSD 文件
+ * 计算字符串的 FNV-1a 32 位哈希(8 位十六进制)
  */
-export const parsePSD = async (file: File): Promise<Psd> => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const psd = readPsd(new Uint8Array(arrayBuffer), READ_OPTIONS);
-        return psd;
-    } catch (error) {
-        console.error('PSD 解析错误:', error);
-        throw error;
+const hashString = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
     }
+    return (hash >>> 0).toString(16).padStart(8, '0');
 };
 
 /**
- * 从 PSD 文件中提取图层信息
+ * 为图层生成稳定 id
+ *
+ * 优先使用 ag-psd 读出的图层 id(Photoshop 写入的 lyid),
+ * 没有时以"路径 + 同名兄弟序号"的哈希代替。极少数情况下 id 重复(如拼接过的文件),追加后缀保证唯一。
+ *
+ * @param child - ag-psd 图层
+ * @param nodePath - 图层路径
+ * @param ordinal - 在同名兄弟图层中的序号
+ * @param usedIds - 本次解析已分配的 id
  */
-export const extractPSDLayers = async (file: File) => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const psd = readPsd(new Uint8Array(arrayBuffer), READ_OPTIONS);
-
-        const layers = flattenLayers(psd.children || []);
-
-        return {
-            width: psd.width,
-            height: psd.height,
-            layers: layers,
-            psdImageUrl: canvasToDataURL(psd.canvas)
-        };
-    } catch (error) {
-        console.error('提取 PSD 图层错误:', error);
-        throw error;
+const createLayerId = (child: PsdLayer, nodePath: string, ordinal: number, usedIds: Set<string>): string => {
+    const baseId = typeof child.id === 'number'
+        ? `psd:${child.id}`
+        : `path:${hashString(`${nodePath}#${ordinal}`)}`;
+
+    let id = baseId;
+    for (let suffix = 1; usedIds.has(id); suffix++) {
+        id = `${baseId}~${suffix}`;
     }
+    usedIds.add(id);
+    return id;
 };
 
 /**
- * 将 PSD 转换为图像数据
+ * 待转为位图写入图像存储的画布
  */
-export const renderPSDToImageData = async (file: File) => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const psd = readPsd(new Uint8Array(arrayBuffer), READ_OPTIONS);
-        return psd;
-    } catch (error) {
-        console.error('渲染 PSD 错误:', error);
-        throw error;
-    }
+export interface PendingImage {
+    /** 画布 */
+    canvas: AnyCanvas;
+    /** 所属图层名称(用于进度显示) */
+    name: string;
+}
+
+/**
+ * 收集图层蒙版画布,返回写入图层数据的蒙版信息
+ */
+const collectMask = (
+    mask: CompositeMask | null,
+    layerId: string,
+    name: string,
+    images: Map<string, PendingImage>
+): LayerMaskInfo | undefined => {
+    if (!mask) return undefined;
+    const imageKey = maskImageKey(layerId);
+    images.set(imageKey, { canvas: mask.source as AnyCanvas, name });
+    return {
+        imageKey,
+        left: mask.left,
+        top: mask.top,
+        width: mask.width,
+        height: mask.height,
+        defaultColor: mask.defaultColor,
+    };
 };
 
 /**
  * 构建层级图层树(保留PSD原有结构)
  * 
- * 递归遍历PSD图层,构建保留层级关系的树形结构,用于按目录结构导出
+ * 递归遍历PSD图层,构建保留层级关系的树形结构,用于按目录结构导出。
+ * 该函数不依赖 document,可在 Web Worker 中运行。图层画布不会在此处编码,
+ * 而是按图像键收集到 `ctx.images` 中;节点上的 imageKey 指向图像存储中对应的键,
+ * 由调用方把画布转为位图写入图像存储。
+ * 
+ * 叶子图层的 imageKey 对应应用蒙版、并剪贴到基底图层后的像素;带蒙版或剪贴的图层
+ * 另以 rawImageKey 保存原始像素。基底图层被隐藏时,剪贴图层只应用自身蒙版。
  * 
  * @param children - PSD子图层数组
  * @param parentPath - 父路径,用于构建完整路径
+ * @param ctx - 共享上下文: usedIds 记录已分配的图层 id, images 收集待编码的画布,
+ *              globalAngle 为文档的全局光源角度(用于图层效果),
+ *              onLayer 在每个图层处理完成后调用(用于进度汇报)
  * @returns 层级图层树节点数组
- * 
+ *
  * @example
  * ```ts
  * const tree = buildLayerTree(psd.children);
@@ -217,93 +377,67 @@ export const renderPSDToImageData = async (file: File) => {
  * // ]
  * ```
  */
-/**
- * 构建层级图层树(保留PSD原有结构)
- * 
- * @param children - PSD子图层数组
- * @param parentPath - 父路径
- * @param ctx - 共享计数器上下文，用于同步 flattenLayers 的索引
- */
 export const buildLayerTree = (
     children: any[],
     parentPath: string = '',
-    ctx: { index: number } = { index: 0 }
-): any[] => {
-    const tree: any[] = [];
+    ctx: {
+        usedIds: Set<string>;
+        images: Map<string, PendingImage>;
+        globalAngle?: number;
+        onLayer?: (name: string) => void;
+    } = { usedIds: new Set(), images: new Map() }
+): LayerTreeNode[] => {
+    const tree: LayerTreeNode[] = [];
+    // 同名兄弟图层的出现次数(包括隐藏图层,使序号不随隐藏状态变化)
+    const nameCounts = new Map<string, number>();
+    // 当前剪贴组的基底图层像素(children 自下而上,基底在剪贴图层之前出现)
+    let clipBase: { canvas: PixelSource; left: number; top: number } | null = null;
 
     for (const child of children) {
+        const ordinal = nameCounts.get(child.name) ?? 0;
+        nameCounts.set(child.name, ordinal + 1);
+
+        const isClipped = child.clipping === true;
+        if (!isClipped) clipBase = null;
+
         if (child.hidden === true) continue;
 
-        const isGroup = (child.children && child.children.length > 0) || child.type === 'group';
+        const isGroup = !!child.children && child.children.length > 0;
         const nodePath = parentPath ? `${parentPath}/${child.name}` : child.name;
+        const mask = toCompositeMask(child);
+        const effects = toLayerEffects(child.effects, ctx.globalAngle ?? DEFAULT_GLOBAL_ANGLE);
 
         if (isGroup) {
-            // 获取可见叶子图层（前序逻辑，保持一致）
-            let minLeft = Infinity, minTop = Infinity, maxRight = -Infinity, maxBottom = -Infinity;
-            let hasContent = false;
-            const getVisibleLeaves = (items: any[], list: any[] = []) => {
-                for (const item of items) {
-                    if (item.hidden === true || item.visible === false) continue;
-                    if (item.children && item.children.length > 0) {
-                        getVisibleLeaves(item.children, list);
-                    } else {
-                        const left = item.left ?? 0;
-                        const top = item.top ?? 0;
-                        const right = item.right ?? left;
-                        const bottom = item.bottom ?? top;
-                        if (item.canvas || (right - left) > 0 || (bottom - top) > 0 || item.text) {
-                            list.push(item);
-                            if ((right - left) > 0 && (bottom - top) > 0) {
-                                minLeft = Math.min(minLeft, left);
-                                minTop = Math.min(minTop, top);
-                                maxRight = Math.max(maxRight, right);
-                                maxBottom = Math.max(maxBottom, bottom);
-                                hasContent = true;
-                            }
-                        }
-                    }
-                }
-                return list;
-            };
-
-            const leafLayers = getVisibleLeaves(child.children || []);
+            const groupId = createLayerId(child, nodePath, ordinal, ctx.usedIds);
             const subTree = buildLayerTree(child.children || [], nodePath, ctx);
 
-            let groupImageUrl = null;
-            if (hasContent && (maxRight - minLeft) > 0 && (maxBottom - minTop) > 0) {
-                const canvas = document.createElement('canvas');
-                canvas.width = maxRight - minLeft;
-                canvas.height = maxBottom - minTop;
-                const ctx2d = canvas.getContext('2d');
-                if (ctx2d) {
-                    for (const layer of leafLayers) {
-                        if (layer.canvas) {
-                            ctx2d.save();
-                            const opacity = layer.opacity ?? 255;
-                            ctx2d.globalAlpha = opacity > 1 ? opacity / 255 : opacity;
-                            ctx2d.drawImage(layer.canvas, (layer.left ?? 0) - minLeft, (layer.top ?? 0) - minTop);
-                            ctx2d.restore();
-                        }
-                    }
-                    groupImageUrl = canvasToDataURL(canvas);
+            // 按混合模式、不透明度和组蒙版合成组预览(叶子画布此时尚未转移,可直接使用)
+            const groupImage = renderGroupImage(toCompositeLayers([child])[0]);
+            const imageKey = layerImageKey(groupId);
+            if (groupImage) {
+                ctx.images.set(imageKey, { canvas: groupImage.canvas, name: child.name });
+                if (!isClipped) {
+                    clipBase = { canvas: groupImage.canvas, left: groupImage.bounds.left, top: groupImage.bounds.top };
                 }
             }
 
-            // 策略：如果组被合成（子项 > 1 或 混合内容），它在 flattenLayers 中占一个坑
-            // 这部分的 index 同步需要非常小心。
-            // 在 flattenLayers 中：先加入子项，再加入组预览。
-            // 所以我们先递归子树，再分配组索引。
-
-            const groupIndex = ctx.index++;
+            ctx.onLayer?.(child.name);
 
             tree.push({
                 name: child.name,
                 path: nodePath,
                 isGroup: true,
-                imageUrl: groupImageUrl,
-                width: hasContent ? maxRight - minLeft : 0,
-                height: hasContent ? maxBottom - minTop : 0,
-                index: groupIndex, // 组节点也分配索引，以便选中整个组
+                id: groupId, // 组节点也有 id，以便选中整个组
+                imageKey: groupImage ? imageKey : null,
+                width: groupImage?.bounds.width ?? 0,
+                height: groupImage?.bounds.height ?? 0,
+                left: groupImage?.bounds.left ?? 0,
+                top: groupImage?.bounds.top ?? 0,
+                opacity: child.opacity ?? 1,
+                blendMode: child.blendMode ?? 'pass through',
+                mask: collectMask(mask, groupId, child.name, ctx.images),
+                effects,
+                exportTags: toExportTags(child.name),
                 children: subTree,
             });
         } else {
@@ -311,8 +445,31 @@ export const buildLayerTree = (
             const height = child.canvas?.height ?? ((child.bottom ?? 0) - (child.top ?? 0));
 
             if (child.name && (child.canvas || width > 0 || height > 0 || child.text)) {
-                const currentIndex = ctx.index++;
-                const layer = {
+                const layerId = createLayerId(child, nodePath, ordinal, ctx.usedIds);
+                const left = child.left ?? 0;
+                const top = child.top ?? 0;
+
+                let rawImageKey: string | null = null;
+                if (child.canvas) {
+                    let processed: AnyCanvas = child.canvas;
+                    if (mask) {
+                        processed = applyMask(processed, left, top, mask);
+                    }
+                    if (isClipped && clipBase) {
+                        processed = clipToShape(processed, left, top, clipBase);
+                    } else if (!isClipped) {
+                        clipBase = { canvas: processed, left, top };
+                    }
+
+                    ctx.images.set(layerImageKey(layerId), { canvas: processed, name: child.name });
+                    if (processed !== child.canvas) {
+                        rawImageKey = rawLayerImageKey(layerId);
+                        ctx.images.set(rawImageKey, { canvas: child.canvas, name: child.name });
+                    }
+                }
+
+                const layer: Layer = {
+                    id: layerId,
                     name: child.name,
                     type: child.type,
                     visible: child.visible !== false,
@@ -320,16 +477,24 @@ export const buildLayerTree = (
                     blendMode: child.blendMode,
                     left: child.left, right: child.right, top: child.top, bottom: child.bottom,
                     width, height,
-                    imageUrl: canvasToDataURL(child.canvas)
+                    imageKey: child.canvas ? layerImageKey(layerId) : null,
+                    rawImageKey,
+                    clipping: isClipped,
+                    mask: collectMask(mask, layerId, child.name, ctx.images),
+                    effects,
+                    text: toTextInfo(child.text),
+                    exportTags: toExportTags(child.name),
                 };
 
+                ctx.onLayer?.(child.name);
+
                 tree.push({
                     name: child.name,
                     path: nodePath,
                     isGroup: false,
+                    id: layerId,
                     layer: layer,
-                    imageUrl: layer.imageUrl,
-                    index: currentIndex,
+                    imageKey: layer.imageKey,
                     width,
                     height
                 });
@@ -340,49 +505,84 @@ export const buildLayerTree = (
 };
 
 /**
- * 从PSD文件中提取层级图层树
+ * 统计未隐藏的图层数量(包括图层组),作为解析进度的总量
  */
-export const extractLayerTree = async (file: File) => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const psd = readPsd(new Uint8Array(arrayBuffer), READ_OPTIONS);
-
-        // 为了保证 index 完全一致，我们重写 flattenLayers 让其逻辑与 buildLayerTree 完全镜像
-        // 或者直接从 buildLayerTree 结果中提取展平序列。这更稳妥。
-
-        const tree = buildLayerTree(psd.children || []);
-
-        // 展平树以获得顺序一致的图层列表
-        const flattened: any[] = [];
-        const flattenTree = (nodes: any[]) => {
-            for (const node of nodes) {
-                if (node.isGroup) {
-                    flattenTree(node.children || []);
-                    // 组预览排在子项后面 (匹配 flattenLayers 逻辑)
-                    if (node.imageUrl) {
-                        flattened.push({
-                            ...node,
-                            name: `[Group] ${node.name}`,
-                            type: 'group',
-                            isGroup: true
-                        });
-                    }
-                } else {
-                    flattened.push(node.layer);
+const countLayers = (children: any[]): number => {
+    let count = 0;
+    for (const child of children) {
+        if (child.hidden === true) continue;
+        count++;
+        if (child.children) {
+            count += countLayers(child.children);
+        }
+    }
+    return count;
+};
+
+/**
+ * 从 PSD 数据中解析层级图层树
+ * 
+ * 供 Web Worker 调用(见 workers/psdParser.worker.ts)。返回的 tree/layers 中 imageKey 指向的图像
+ * 尚未写入图像存储,对应的画布按图像键放在 images 中,composite 为 PSD 自带的全图合成画布。
+ * 
+ * @param data - PSD 文件的二进制数据
+ * @param onProgress - 进度回调: 解码完成时以 decoded = 0 调用一次,之后每处理一个图层调用一次
+ */
+export const parseLayerTree = (
+    data: Uint8Array,
+    onProgress?: (decoded: number, total: number, currentLayerName: string | null) => void
+): {
+    width: number;
+    height: number;
+    resolution: number;
+    tree: LayerTreeNode[];
+    layers: Layer[];
+    images: Map<string, PendingImage>;
+    composite: AnyCanvas | undefined;
+} => {
+    const psd = readPsd(data, READ_OPTIONS);
+
+    const totalLayers = countLayers(psd.children || []);
+    let decoded = 0;
+    onProgress?.(decoded, totalLayers, null);
+
+    const images = new Map<string, PendingImage>();
+    const tree = buildLayerTree(psd.children || [], '', {
+        usedIds: new Set(),
+        images,
+        globalAngle: psd.imageResources?.globalAngle,
+        onLayer: (name) => onProgress?.(++decoded, totalLayers, name)
+    });
+
+    // 展平树得到图层列表(图层通过 id 与树节点对应,顺序仅用于展示)
+    const flattened: any[] = [];
+    const flattenTree = (nodes: LayerTreeNode[]) => {
+        for (const node of nodes) {
+            if (node.isGroup) {
+                flattenTree(node.children || []);
+                // 组预览排在子项后面
+                if (node.imageKey) {
+                    flattened.push({
+                        ...node,
+                        name: `[Group] ${node.name}`,
+                        type: 'group',
+                        isGroup: true
+                    });
                 }
+            } else {
+                flattened.push(node.layer);
             }
-        };
-        flattenTree(tree);
-
-        return {
-            width: psd.width,
-            height: psd.height,
-            tree: tree,
-            layers: flattened.map((item, idx) => ({ ...item, id: idx })), // 给图层加个固定ID
-            psdImageUrl: canvasToDataURL(psd.canvas)
-        };
-    } catch (error) {
-        console.error('提取层级图层树错误:', error);
-        throw error;
-    }
+        }
+    };
+    flattenTree(tree);
+
+    return {
+        width: psd.width,
+        height: psd.height,
+        resolution: toPixelsPerInch(psd.imageResources?.resolutionInfo),
+        tree: tree,
+        layers: flattened,
+        images,
+        composite: psd.canvas
+    };
 };
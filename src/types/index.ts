@@ -10,6 +10,8 @@
  * 表示 PSD 文件中的一个图层
  */
 export interface Layer {
+    /** 图层的稳定标识(见 LayerTreeNode.id),同一 PSD 重新解析后保持不变 */
+    id: string;
     /** 图层名称 */
     name: string;
     /** 图层类型(如 'normal', 'text', 'group' 等) */
@@ -32,14 +34,201 @@ export interface Layer {
     width: number;
     /** 高度 */
     height: number;
-    /** 图层预览图的 base64 URL */
-    imageUrl?: string | null;
+    /** 图层图像在图像存储中的键(见 utils/imageStore),已应用蒙版和剪贴,无图像时为 null */
+    imageKey?: string | null;
+    /** 原始像素(未应用蒙版和剪贴)的图像键,仅带蒙版或剪贴的图层有 */
+    rawImageKey?: string | null;
+    /** 是否剪贴到下方的基底图层 */
+    clipping?: boolean;
+    /** 图层蒙版,没有或已停用时为空 */
+    mask?: LayerMaskInfo;
+    /** 已启用的图层效果(图层样式),没有时为空 */
+    effects?: LayerEffects;
+    /** 文字内容和样式(仅文字图层有) */
+    text?: TextInfo;
+    /** 图层名中的导出标签(见 utils/nameTags),没有时为空 */
+    exportTags?: LayerExportTag[];
     /** 是否为图层组 */
     isGroup?: boolean;
     /** 子图层(仅图层组有) */
     children?: Layer[];
 }
 
+/**
+ * 图层蒙版信息
+ *
+ * 蒙版像素为灰度图,以 imageKey 保存在图像存储中,坐标为文档坐标
+ */
+export interface LayerMaskInfo {
+    /** 蒙版图像的键 */
+    imageKey: string;
+    /** 左上角 X */
+    left: number;
+    /** 左上角 Y */
+    top: number;
+    /** 宽度 */
+    width: number;
+    /** 高度 */
+    height: number;
+    /** 蒙版范围外的取值(0 或 255) */
+    defaultColor: number;
+}
+
+/**
+ * 图层效果颜色(RGB,0-255)
+ */
+export interface EffectColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/**
+ * 投影效果
+ */
+export interface DropShadowEffect {
+    /** 颜色 */
+    color: EffectColor;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 混合模式 */
+    blendMode: string;
+    /** 光源角度(度,0 为右侧,逆时针为正) */
+    angle: number;
+    /** 距离(像素) */
+    distance: number;
+    /** 大小(像素,即模糊半径) */
+    size: number;
+    /** 扩展(0-100,大小中实心扩展部分的百分比) */
+    spread: number;
+}
+
+/**
+ * 外发光/内发光效果
+ */
+export interface GlowEffect {
+    /** 颜色 */
+    color: EffectColor;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 混合模式 */
+    blendMode: string;
+    /** 大小(像素) */
+    size: number;
+    /** 扩展/阻塞(0-100) */
+    spread: number;
+    /** 发光源(仅内发光): 边缘或居中 */
+    source?: 'edge' | 'center';
+}
+
+/**
+ * 描边效果(仅支持纯色填充)
+ */
+export interface StrokeEffect {
+    /** 颜色 */
+    color: EffectColor;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 混合模式 */
+    blendMode: string;
+    /** 描边宽度(像素) */
+    size: number;
+    /** 描边位置 */
+    position: 'inside' | 'center' | 'outside';
+}
+
+/**
+ * 颜色叠加效果
+ */
+export interface ColorOverlayEffect {
+    /** 颜色 */
+    color: EffectColor;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 混合模式 */
+    blendMode: string;
+}
+
+/**
+ * 图层效果(图层样式)
+ *
+ * 只包含已启用且支持栅格化的效果,数据可序列化,从 Worker 传回主线程后在导出时渲染
+ */
+export interface LayerEffects {
+    /** 投影(可叠加多个) */
+    dropShadows?: DropShadowEffect[];
+    /** 外发光 */
+    outerGlow?: GlowEffect;
+    /** 内发光 */
+    innerGlow?: GlowEffect;
+    /** 颜色叠加(可叠加多个) */
+    colorOverlays?: ColorOverlayEffect[];
+    /** 描边(可叠加多个) */
+    strokes?: StrokeEffect[];
+}
+
+/**
+ * 文字片段(同一样式的连续字符)
+ */
+export interface TextRunInfo {
+    /** 片段文本 */
+    text: string;
+    /** 字体 PostScript 名称 */
+    fontName: string | null;
+    /** 字号(像素,已计算文字变换的缩放) */
+    fontSize: number | null;
+    /** 文字颜色(#rrggbb) */
+    color: string | null;
+}
+
+/**
+ * 文字图层信息
+ *
+ * 字体、字号和颜色取自第一个样式片段,多样式文本的完整样式见 runs
+ */
+export interface TextInfo {
+    /** 文本内容(换行统一为 \n) */
+    text: string;
+    /** 字体 PostScript 名称 */
+    fontName: string | null;
+    /** 字号(像素,已计算文字变换的缩放) */
+    fontSize: number | null;
+    /** 文字颜色(#rrggbb) */
+    color: string | null;
+    /** 段落对齐方式 */
+    alignment: 'left' | 'center' | 'right' | 'justify';
+    /** 文字方向 */
+    orientation: 'horizontal' | 'vertical';
+    /** 文字变换矩阵 [xx, xy, yx, yy, tx, ty],没有时为 null */
+    transform: number[] | null;
+    /** 样式片段 */
+    runs: TextRunInfo[];
+}
+
+/**
+ * 图层名中的导出标签(Photoshop Generator 风格)
+ *
+ * 例如 `200% icons/btn_ok@2x.jpg80%` 解析为: 缩放 200%,文件 icons/btn_ok@2x.jpg,质量 0.8
+ */
+export interface LayerExportTag {
+    /** 文件名(不含扩展名,可带 / 分隔的子目录,包含 suffix) */
+    fileName: string;
+    /** 文件扩展名(保留原写法,如 jpeg) */
+    extension: string;
+    /** 导出格式 */
+    format: ExportOptions['format'];
+    /** 图片质量(0-1),仅 jpg、webp、avif、blp 有(blp 只在 JPEG 压缩时使用) */
+    quality?: number;
+    /** 缩放比例(1 为原尺寸),与 width/height 互斥;都未写时取 suffix 的倍率 */
+    scale?: number;
+    /** 目标宽度(像素),只给出高度时按比例计算 */
+    width?: number;
+    /** 目标高度(像素),只给出宽度时按比例计算 */
+    height?: number;
+    /** 文件名末尾的倍率后缀(如 @2x),没有时为空 */
+    suffix?: string;
+}
+
 /**
  * PSD 文件信息类型
  * 
@@ -50,12 +239,37 @@ export interface PsdInfo {
     width: number;
     /** PSD 画布高度 */
     height: number;
+    /** 文档分辨率(像素/英寸),未记录时为 72 */
+    resolution: number;
     /** 颜色通道数 */
     channels: number;
     /** PSD 文件版本 */
     version: number;
     /** 文件名 */
     name: string;
+    /** 打开的是 BLP/TGA 贴图时的贴图信息 */
+    texture?: TextureInfo;
+}
+
+/**
+ * 贴图文件信息(BLP/TGA 导入,见 utils/textureImport)
+ */
+export interface TextureInfo {
+    /** 文件格式,如 "BLP1 JPEG"、"BLP2 DXT5"、"TGA RLE 真彩色" */
+    format: string;
+    /** alpha 位数 */
+    alphaBits: number;
+    /** 各级 mipmap 的尺寸,第 0 级为原图 */
+    mipmaps: { width: number; height: number }[];
+}
+
+/**
+ * 解码后的贴图(见 utils/decoders)
+ */
+export interface DecodedTexture {
+    info: TextureInfo;
+    /** 各级 mipmap 的像素,第 0 级为原图 */
+    levels: ImageData[];
 }
 
 /**
@@ -82,8 +296,8 @@ export interface ExportResult {
  * 图层选择状态
  */
 export interface LayerSelectionState {
-    /** 已选中的图层索引集合 */
-    selectedIndexes: Set<number>;
+    /** 已选中的图层 id 集合 */
+    selectedIds: Set<string>;
     /** 已选中的数量 */
     selectedCount: number;
 }
@@ -114,20 +328,46 @@ export interface LayerTreeNode {
     path: string;
     /** 是否为组/文件夹 */
     isGroup: boolean;
-    /** 原始图层索引 */
-    index?: number;
-    /** 预览图 URL */
-    imageUrl?: string | null;
+    /**
+     * 稳定标识
+     *
+     * 优先取 PSD 中记录的图层 id(`psd:<id>`),缺失时由路径和同名兄弟序号哈希得到(`path:<hash>`)。
+     * 选中、隐藏、图像键和导出都以此为准,不依赖图层在树中的位置。
+     */
+    id: string;
+    /** 预览图在图像存储中的键,无图像时为 null */
+    imageKey?: string | null;
     /** 宽度 */
     width?: number;
     /** 高度 */
     height?: number;
+    /** 组预览图在文档中的左上角 X(仅组节点有,叶子节点见 layer.left) */
+    left?: number;
+    /** 组预览图在文档中的左上角 Y(仅组节点有,叶子节点见 layer.top) */
+    top?: number;
+    /** 不透明度(仅组节点有,叶子节点见 layer.opacity) */
+    opacity?: number;
+    /** 混合模式(仅组节点有,如 'pass through'、'normal',叶子节点见 layer.blendMode) */
+    blendMode?: string;
+    /** 组蒙版(仅组节点有,叶子节点见 layer.mask) */
+    mask?: LayerMaskInfo;
+    /** 组的图层效果(仅组节点有,叶子节点见 layer.effects) */
+    effects?: LayerEffects;
+    /** 组名中的导出标签(仅组节点有,叶子节点见 layer.exportTags) */
+    exportTags?: LayerExportTag[];
     /** 图层数据(仅叶子节点有) */
     layer?: Layer;
     /** 子节点(仅组节点有) */
     children?: LayerTreeNode[];
 }
 
+/**
+ * 导出图片格式
+ *
+ * webp 和 avif 由 WebAssembly 编码器生成(见 utils/encoders),不依赖 WebView 的编码支持
+ */
+export type ExportFormat = 'png' | 'jpg' | 'webp' | 'avif' | 'blp' | 'tga' | 'dds';
+
 /**
  * 导出选项
  */
@@ -135,8 +375,417 @@ export interface ExportOptions {
     /** 是否保留目录结构 */
     preserveStructure: boolean;
     /** 导出格式 */
-    format: 'png' | 'jpg' | 'blp' | 'tga';
-    /** 图片质量(0-1),仅对jpg格式有效 */
-    quality?: number;
+    format: ExportFormat;
+    /**
+     * 各格式的编码选项(见 utils/imageEncoders),只使用 format 对应的一项,未设置的格式使用编码器默认值。
+     * 图层名标签切换到其他格式时同样从这里取该格式的选项
+     */
+    encoderOptions?: Partial<EncoderOptionsMap>;
+    /** 是否额外导出未应用蒙版和剪贴的原始像素(文件名追加 _raw) */
+    exportRawPixels?: boolean;
+    /** 是否将图层效果(描边、投影、发光、颜色叠加)栅格化到导出图像中,图像尺寸随效果范围扩大 */
+    rasterizeEffects?: boolean;
+    /** 是否同时导出按当前图层可见性重新合成的 PSD 全图 */
+    includeComposite?: boolean;
+    /** 是否在导出根目录写入布局清单(见 utils/layoutManifest) */
+    writeManifest?: boolean;
+    /** 同时生成的引擎界面布局(见 utils/engineLayout),默认 none */
+    engineLayout?: EngineLayoutTarget;
+    /** 图集打包选项,仅图集导出使用(见 utils/atlasExport) */
+    atlas?: AtlasOptions;
+    /** CSS 精灵图选项,仅精灵图导出使用(见 utils/cssSprite) */
+    cssSprite?: CssSpriteOptions;
+    /** 是否按图层名中的导出标签导出(覆盖格式、质量并缩放),默认 true */
+    applyNameTags?: boolean;
+    /** 缩放变体,每个图像按每个变体各写入一个文件;未设置或为空时只按原尺寸导出 */
+    scaleVariants?: ScaleVariant[];
+    /** 图像取景(裁剪透明边缘、边距、画布尺寸、尺寸对齐),见 utils/imageFraming */
+    framing?: ImageFraming;
+    /** PSD 画布尺寸,由导出发起方填入,framing.fullCanvas 时使用 */
+    documentSize?: { width: number; height: number };
+}
+
+/**
+ * 有损编码的质量选项
+ */
+export interface QualityOptions {
+    /** 图片质量(0-1) */
+    quality: number;
 }
 
+/**
+ * WebP / AVIF 编码选项
+ */
+export interface LossyEncoderOptions extends QualityOptions {
+    /** 是否无损压缩,开启时忽略 quality */
+    lossless: boolean;
+}
+
+/**
+ * PNG 编码选项
+ */
+export interface PngEncoderOptions {
+    /** 是否优化体积,关闭时直接写入浏览器编码的 PNG */
+    optimize: boolean;
+    /** oxipng 无损压缩级别(1-6) */
+    level: number;
+    /** 是否量化为调色板 PNG-8(有损) */
+    quantize: boolean;
+    /** 量化的调色板颜色数(2-256,含透明色) */
+    colors: number;
+    /** 量化时是否使用 Floyd-Steinberg 抖动 */
+    dither: boolean;
+}
+
+/**
+ * 各导出格式的编码选项
+ */
+export interface EncoderOptionsMap {
+    png: PngEncoderOptions;
+    jpg: QualityOptions;
+    webp: LossyEncoderOptions;
+    avif: LossyEncoderOptions;
+    /** quality 仅 jpeg 压缩使用 */
+    blp: BlpOptions & QualityOptions;
+    tga: TgaOptions;
+    dds: DdsOptions;
+}
+
+/**
+ * 编码选项表单中的一个控件,ExportModal 按编码器的 fields 生成表单
+ *
+ * visible / enabled 根据当前选项决定控件是否显示、是否可用,默认总是显示并可用
+ */
+export type EncoderOptionField<T> = {
+    /** 对应的选项字段 */
+    key: keyof T & string;
+    label: string;
+    visible?: (options: T) => boolean;
+    enabled?: (options: T) => boolean;
+} & (
+    | { control: 'checkbox' }
+    | { control: 'select'; choices: (options: T) => readonly { value: string | number; label: string }[] }
+    | { control: 'range'; min: number; max: number; step: number; format: (value: number) => string }
+    | { control: 'number'; min: number; max: number }
+);
+
+/**
+ * 编码后的文件内容
+ */
+export interface EncodedFile {
+    /** 文件字节 */
+    bytes: Uint8Array;
+    /** 优化前(浏览器直接编码)的 PNG 大小,未开启 PNG 优化时为 null */
+    originalSize: number | null;
+}
+
+/**
+ * 导出格式的扩展名和标签规则(见 utils/exportFormats)
+ *
+ * 不依赖编码器,解析 Worker 中的图层名标签解析也使用这些信息
+ */
+export interface ExportFormatInfo<F extends ExportFormat> {
+    id: F;
+    /** 文件扩展名(小写,不含点),第一个为写入文件时使用的扩展名 */
+    extensions: readonly string[];
+    /** 图层名标签中是否可以带质量参数(见 utils/nameTags) */
+    tagQuality: boolean;
+}
+
+/**
+ * 图像编码器(见 utils/imageEncoders)
+ *
+ * 每种导出格式注册一个,导出流程、保存对话框和导出配置界面都从注册表读取
+ */
+export interface ImageEncoder<F extends ExportFormat> extends ExportFormatInfo<F> {
+    /** 导出配置中格式下拉框的名称 */
+    label: string;
+    /** 保存对话框中的文件类型名称 */
+    fileTypeName: string;
+    /** 是否可用作图集页面格式 */
+    atlasPage: boolean;
+    /** 默认选项 */
+    defaults: EncoderOptionsMap[F];
+    /** 选项表单 */
+    fields: readonly EncoderOptionField<EncoderOptionsMap[F]>[];
+    /** 修改选项后修正相互依赖的字段(如 BLP 压缩方式与 alpha 位数) */
+    normalize?: (options: EncoderOptionsMap[F]) => EncoderOptionsMap[F];
+    /**
+     * 编码图像存储中的图像
+     *
+     * @param imageKey - 图像键
+     * @param options - 编码选项
+     */
+    encode: (imageKey: string, options: EncoderOptionsMap[F]) => Promise<EncodedFile>;
+}
+
+/**
+ * 任意格式的图像编码器
+ */
+export type AnyImageEncoder = { [F in ExportFormat]: ImageEncoder<F> }[ExportFormat];
+
+/**
+ * PNG 优化选项(见 utils/pngOptimize)
+ */
+export interface PngOptimizeOptions {
+    /** oxipng 无损压缩级别(1-6,越大越慢、体积越小) */
+    level: number;
+    /** 有损量化的调色板颜色数(2-256,含透明色),0 表示不量化 */
+    colors: number;
+    /** 量化时是否使用 Floyd-Steinberg 抖动 */
+    dither: boolean;
+}
+
+/**
+ * BLP 压缩方式
+ *
+ * - jpeg: BLP1,JPEG 压缩(魔兽争霸3 最常用)
+ * - palette: BLP1,256 色调色板,alpha 单独存储
+ * - dxt: BLP2,DXT1(alpha 0/1 位)或 DXT5(alpha 8 位)
+ */
+export type BlpCompression = 'jpeg' | 'palette' | 'dxt';
+
+/**
+ * Mipmap 缩小滤波(见 utils/mipmaps)
+ */
+export type MipmapFilter = 'nearest' | 'box' | 'triangle' | 'lanczos';
+
+/**
+ * BLP 编码选项(见 utils/encoders/blp)
+ */
+export interface BlpOptions {
+    compression: BlpCompression;
+    /** alpha 位数: jpeg 为 0 或 8,palette 为 0/1/4/8,dxt 为 0/1/8 */
+    alphaBits: number;
+    /** 是否生成完整的 mipmap 链 */
+    mipmaps: boolean;
+    /** 生成 mipmap 的缩小滤波 */
+    mipmapFilter: MipmapFilter;
+}
+
+/**
+ * DDS 块压缩格式
+ *
+ * - bc1: DXT1,RGB + 1 位 alpha
+ * - bc3: DXT5,RGB + 8 位 alpha
+ * - bc7: RGBA 高质量(需要 DX10 扩展头)
+ */
+export type DdsCompression = 'bc1' | 'bc3' | 'bc7';
+
+/**
+ * DDS 编码选项(见 utils/encoders/dds)
+ */
+export interface DdsOptions {
+    compression: DdsCompression;
+    /** 是否生成完整的 mipmap 链 */
+    mipmaps: boolean;
+    /** 生成 mipmap 的缩小滤波 */
+    mipmapFilter: MipmapFilter;
+    /** 是否标记为 sRGB 颜色空间(写入 DX10 扩展头的 *_UNORM_SRGB 格式) */
+    srgb: boolean;
+}
+
+/**
+ * TGA 扫描原点: 左上(从上到下)或左下(从下到上,部分旧引擎只支持这种)
+ */
+export type TgaOrigin = 'top-left' | 'bottom-left';
+
+/**
+ * TGA 编码选项(见 utils/encoders/tga)
+ */
+export interface TgaOptions {
+    /** 是否 RLE 压缩 */
+    rle: boolean;
+    /** 像素深度: 32 位含 alpha,24 位不含 */
+    bitDepth: 24 | 32;
+    origin: TgaOrigin;
+    /** 是否写入预乘 alpha 的颜色,仅 32 位有效 */
+    premultiplied: boolean;
+    /** 是否写入 TGA 2.0 扩展区和文件尾(记录 alpha 类型) */
+    footer: boolean;
+}
+
+/**
+ * 导出尺寸对齐方式
+ *
+ * - none: 不对齐
+ * - power-of-two: 宽高分别向上取 2 的幂
+ * - multiple-of-4: 宽高分别向上取 4 的倍数(DXT/ETC 等块压缩格式要求)
+ */
+export type DimensionSnap = 'none' | 'power-of-two' | 'multiple-of-4';
+
+/**
+ * 导出图像取景选项
+ */
+export interface ImageFraming {
+    /** 是否裁掉四周的透明像素 */
+    trim: boolean;
+    /** 裁剪时视为透明的最大 alpha(0-255) */
+    trimThreshold: number;
+    /** 四周追加的透明边距(像素) */
+    padding: number;
+    /** 是否按 PSD 画布尺寸导出并保持图像在文档中的位置,开启时忽略 trim 和 padding */
+    fullCanvas: boolean;
+    /** 尺寸对齐,多出的透明像素补在右侧和底部 */
+    snap: DimensionSnap;
+}
+
+/**
+ * 缩放重采样质量
+ *
+ * - pixelated: 最近邻(像素风格图片)
+ * - low / medium / high: 对应 Canvas 的 imageSmoothingQuality
+ */
+export type ResampleQuality = 'pixelated' | 'low' | 'medium' | 'high';
+
+/**
+ * 缩放变体
+ *
+ * 例如 `{ scale: 2, suffix: '@2x', subfolder: '', resample: 'high' }` 将 btn.png 额外导出为 btn@2x.png
+ */
+export interface ScaleVariant {
+    /** 相对 PSD 像素的缩放比例,与 maxWidth 互斥 */
+    scale?: number;
+    /** 最大宽度(像素),更宽的图像按比例缩小,不放大 */
+    maxWidth?: number;
+    /** 追加在文件名末尾(扩展名之前)的后缀 */
+    suffix: string;
+    /** 写入的子目录(相对图像所在目录,用 / 分隔),为空时写入同一目录 */
+    subfolder: string;
+    /** 重采样质量 */
+    resample: ResampleQuality;
+}
+
+/**
+ * CSS 精灵图选项
+ */
+export interface CssSpriteOptions {
+    /** 相邻图片之间的间距(CSS 像素) */
+    padding: number;
+    /** 类名前缀,类名为 `前缀-图层文件名` */
+    classPrefix: string;
+    /** 是否同时生成 SCSS map 和 mixin */
+    scss: boolean;
+    /** 是否生成 @2x 精灵图(仅 PSD 分辨率不低于 2 倍时可用) */
+    retina: boolean;
+}
+
+/**
+ * 图集描述文件格式
+ *
+ * - texturepacker: TexturePacker JSON (Hash),每页一个 .json
+ * - libgdx: libGDX / Spine 的 .atlas 文本,所有页面写入同一文件
+ */
+export type AtlasDataFormat = 'texturepacker' | 'libgdx';
+
+/**
+ * 图集打包选项
+ */
+export interface AtlasOptions {
+    /** 页面最大边长,放不下时分为多页 */
+    maxSize: number;
+    /** 相邻图片之间的间距(像素) */
+    padding: number;
+    /** 图片边缘向外复制的像素数,防止采样时出现接缝 */
+    extrude: number;
+    /** 是否允许将图片旋转 90° 以节省空间(只生成 libGDX 描述时逆时针,否则顺时针;同时生成两种描述文件时不旋转) */
+    allowRotation: boolean;
+    /** 页面尺寸是否取 2 的幂 */
+    powerOfTwo: boolean;
+    /** 要生成的描述文件格式 */
+    dataFormats: AtlasDataFormat[];
+}
+
+/**
+ * 引擎界面布局导出目标
+ *
+ * - none: 不生成
+ * - cocos: Cocos Creator 3.x 预制体(.prefab),并为图片写入 .meta 以固定 uuid
+ * - unity: Unity UGUI 布局 JSON,由编辑器脚本读取后生成 GameObject 层级
+ */
+export type EngineLayoutTarget = 'none' | 'cocos' | 'unity';
+
+
+/**
+ * PSD 解析阶段
+ *
+ * - reading: 读取文件字节
+ * - decoding: ag-psd 解码图层数据
+ * - building: 构建图层树并合成图层组
+ * - encoding: 生成图层预览图
+ */
+export type ParsePhase = 'reading' | 'decoding' | 'building' | 'encoding';
+
+/**
+ * PSD 解析进度
+ */
+export interface ParseProgress {
+    /** 当前阶段 */
+    phase: ParsePhase;
+    /** 已读取的字节数 */
+    bytesRead: number;
+    /** 文件总字节数 */
+    totalBytes: number;
+    /** 已处理(解码并加入图层树)的图层数 */
+    layersDecoded: number;
+    /** 图层总数 */
+    totalLayers: number;
+    /** 已生成的图层位图数 */
+    thumbnailsGenerated: number;
+    /** 需要生成的图层位图总数 */
+    totalThumbnails: number;
+    /** 当前正在处理的图层名称 */
+    currentLayerName: string | null;
+}
+
+/**
+ * PSD 解析 Worker 的请求消息
+ */
+export type PsdWorkerRequest = {
+    type: 'parse';
+    /** 要解析的 PSD 或贴图(BLP/TGA)文件 */
+    file: File;
+};
+
+/**
+ * PSD 解析 Worker 的响应消息
+ *
+ * 解析按以下顺序推送(期间穿插 `progress` 进度消息):
+ * 1. `document` - 图层树与展平图层列表,其中的 imageKey 指向尚未到达的图像
+ * 2. `layer-image` - 逐个图层的位图(以 Transferable 方式转移),写入图像存储
+ * 3. `composite` - PSD 全图合成位图
+ * 4. `done` - 全部完成
+ */
+export type PsdWorkerResponse =
+    | { type: 'progress'; progress: ParseProgress }
+    | {
+        type: 'document';
+        width: number;
+        height: number;
+        /** 文档分辨率(像素/英寸) */
+        resolution: number;
+        tree: LayerTreeNode[];
+        layers: Layer[];
+        /** 打开的是贴图文件时的贴图信息 */
+        texture?: TextureInfo;
+    }
+    | { type: 'layer-image'; imageKey: string; bitmap: ImageBitmap }
+    | { type: 'composite'; bitmap: ImageBitmap }
+    | { type: 'done' }
+    | { type: 'error'; message: string };
+
+/**
+ * DDS 编码 Worker 的请求消息(见 workers/ddsEncoder.worker.ts)
+ */
+export type DdsWorkerRequest = {
+    type: 'encode';
+    imageData: ImageData;
+    options: DdsOptions;
+};
+
+/**
+ * DDS 编码 Worker 的响应消息
+ */
+export type DdsWorkerResponse =
+    | { type: 'done'; bytes: Uint8Array }
+    | { type: 'error'; message: string };
@@ -0,0 +1,336 @@
+/**
+ * 图集导出模块
+ *
+ * 将选中的图层打包为一张或多张图集页面(见 maxRects),并生成 TexturePacker JSON (Hash)
+ * 和 libGDX / Spine .atlas 描述文件。TexturePacker 的 rotated 表示顺时针旋转 90°,
+ * libGDX 的 rotate: true 表示逆时针旋转 90°,旋转方向按要生成的描述文件决定(见 getAtlasRotation)。
+ */
+
+import { open } from '@tauri-apps/plugin-dialog';
+import { writeFile } from '@tauri-apps/plugin-fs';
+import { AtlasOptions, ExportOptions } from '../types';
+import { ExportImage, ExportableLayer, encodeStoredImage, prepareExportImage, releaseExportImage, sanitizeFileName, uniqueNames } from './exportUtils';
+import { atlasPageImageKey, deleteImage, getImageBitmap, putImage } from './imageStore';
+import { packRects } from './maxRects';
+
+/**
+ * 图片在页面中的旋转方向: cw 顺时针(TexturePacker), ccw 逆时针(libGDX / Spine)
+ */
+export type AtlasRotation = 'cw' | 'ccw';
+
+/**
+ * 图集中的一张图片
+ */
+export interface AtlasFrame {
+    /** 图片名称(由图层名生成,不含扩展名,同名时追加序号) */
+    name: string;
+    /** 所在页面序号 */
+    page: number;
+    /** 图片内容在页面中的位置(不含外扩像素) */
+    x: number;
+    y: number;
+    /** 原始尺寸(未旋转) */
+    width: number;
+    height: number;
+    /** 是否旋转了 90°(方向见 RenderedAtlas.rotation) */
+    rotated: boolean;
+}
+
+/**
+ * 图集页面
+ */
+export interface AtlasPage {
+    /** 页面图片文件名 */
+    fileName: string;
+    width: number;
+    height: number;
+    /** 页面内的图片 */
+    frames: AtlasFrame[];
+}
+
+/**
+ * 渲染好的图集
+ */
+export interface RenderedAtlas {
+    pages: AtlasPage[];
+    /** 页面画布,与 pages 一一对应 */
+    canvases: OffscreenCanvas[];
+    /** 超过页面最大尺寸、未能打包的图片名称 */
+    oversized: string[];
+    /** 旋转图片的方向,不允许旋转时为 null */
+    rotation: AtlasRotation | null;
+}
+
+/**
+ * 获取打包时旋转图片的方向
+ *
+ * TexturePacker 与 libGDX 的旋转方向相反,同时生成两种描述文件时无法都正确描述,不旋转
+ *
+ * @param options - 打包选项
+ * @returns 旋转方向,不允许旋转时返回 null
+ */
+export const getAtlasRotation = (options: AtlasOptions): AtlasRotation | null => {
+    if (!options.allowRotation) return null;
+    const texturePacker = options.dataFormats.includes('texturepacker');
+    const libgdx = options.dataFormats.includes('libgdx');
+    if (texturePacker && libgdx) return null;
+    return libgdx ? 'ccw' : 'cw';
+};
+
+/**
+ * 待打包的图片
+ */
+export interface AtlasSprite {
+    name: string;
+    image: CanvasImageSource & { width: number; height: number };
+}
+
+/**
+ * 将图片绘制到页面,并向外复制边缘像素
+ */
+const drawSprite = (
+    ctx: OffscreenCanvasRenderingContext2D,
+    image: AtlasSprite['image'],
+    x: number,
+    y: number,
+    rotation: AtlasRotation | null,
+    extrude: number
+) => {
+    const width = rotation ? image.height : image.width;
+    const height = rotation ? image.width : image.height;
+
+    const oriented = new OffscreenCanvas(width, height);
+    const orientedCtx = oriented.getContext('2d')!;
+    if (rotation === 'cw') {
+        orientedCtx.translate(width, 0);
+        orientedCtx.rotate(Math.PI / 2);
+    } else if (rotation === 'ccw') {
+        orientedCtx.translate(0, height);
+        orientedCtx.rotate(-Math.PI / 2);
+    }
+    orientedCtx.drawImage(image, 0, 0);
+
+    const left = x + extrude;
+    const top = y + extrude;
+    ctx.drawImage(oriented, left, top);
+    if (extrude <= 0) return;
+
+    ctx.imageSmoothingEnabled = false;
+    // 四条边
+    ctx.drawImage(oriented, 0, 0, width, 1, left, y, width, extrude);
+    ctx.drawImage(oriented, 0, height - 1, width, 1, left, top + height, width, extrude);
+    ctx.drawImage(oriented, 0, 0, 1, height, x, top, extrude, height);
+    ctx.drawImage(oriented, width - 1, 0, 1, height, left + width, top, extrude, height);
+    // 四个角
+    ctx.drawImage(oriented, 0, 0, 1, 1, x, y, extrude, extrude);
+    ctx.drawImage(oriented, width - 1, 0, 1, 1, left + width, y, extrude, extrude);
+    ctx.drawImage(oriented, 0, height - 1, 1, 1, x, top + height, extrude, extrude);
+    ctx.drawImage(oriented, width - 1, height - 1, 1, 1, left + width, top + height, extrude, extrude);
+};
+
+/**
+ * 打包并绘制图集页面
+ *
+ * @param sprites - 待打包的图片
+ * @param options - 打包选项
+ * @param baseName - 页面文件名前缀,多页时追加 _序号
+ * @param extension - 页面文件扩展名
+ * @returns 页面信息和画布
+ */
+export const renderAtlas = (
+    sprites: AtlasSprite[],
+    options: AtlasOptions,
+    baseName: string,
+    extension: string
+): RenderedAtlas => {
+    const { extrude } = options;
+    const rotation = getAtlasRotation(options);
+    const names = uniqueNames(sprites.map(sprite => sprite.name));
+    const byName = new Map(sprites.map((sprite, i) => [names[i], sprite]));
+
+    const { pages: packed, oversized } = packRects(
+        sprites.map((sprite, i) => ({
+            id: names[i],
+            width: sprite.image.width + extrude * 2,
+            height: sprite.image.height + extrude * 2,
+        })),
+        {
+            maxWidth: options.maxSize,
+            maxHeight: options.maxSize,
+            padding: options.padding,
+            allowRotation: rotation !== null,
+            powerOfTwo: options.powerOfTwo,
+        }
+    );
+
+    const pages: AtlasPage[] = [];
+    const canvases: OffscreenCanvas[] = [];
+    packed.forEach((page, index) => {
+        const canvas = new OffscreenCanvas(page.width, page.height);
+        const ctx = canvas.getContext('2d')!;
+        const frames: AtlasFrame[] = [];
+
+        for (const rect of page.rects) {
+            const sprite = byName.get(rect.id)!;
+            drawSprite(ctx, sprite.image, rect.x, rect.y, rect.rotated ? rotation : null, extrude);
+            frames.push({
+                name: rect.id,
+                page: index,
+                x: rect.x + extrude,
+                y: rect.y + extrude,
+                width: sprite.image.width,
+                height: sprite.image.height,
+                rotated: rect.rotated,
+            });
+        }
+
+        const fileName = packed.length === 1 ? `${baseName}.${extension}` : `${baseName}_${index}.${extension}`;
+        pages.push({ fileName, width: page.width, height: page.height, frames });
+        canvases.push(canvas);
+    });
+
+    return { pages, canvases, oversized, rotation };
+};
+
+/**
+ * 生成单个页面的 TexturePacker JSON (Hash) 描述
+ *
+ * 旋转的图片 frame 的宽高仍为原始尺寸,与 TexturePacker 一致;rotated 表示顺时针旋转,
+ * 页面需按 'cw' 渲染(见 getAtlasRotation)
+ *
+ * @param page - 图集页面
+ */
+export const buildTexturePackerJson = (page: AtlasPage): string => {
+    const frames: Record<string, unknown> = {};
+    for (const frame of page.frames) {
+        frames[frame.name] = {
+            frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+            rotated: frame.rotated,
+            trimmed: false,
+            spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+            sourceSize: { w: frame.width, h: frame.height },
+            pivot: { x: 0.5, y: 0.5 },
+        };
+    }
+
+    return JSON.stringify({
+        frames,
+        meta: {
+            app: 'psd-export',
+            version: '1.0',
+            image: page.fileName,
+            format: 'RGBA8888',
+            size: { w: page.width, h: page.height },
+            scale: '1',
+        },
+    }, null, 2);
+};
+
+/**
+ * 生成 libGDX / Spine 的 .atlas 描述(所有页面写入同一文件)
+ *
+ * rotate: true 表示逆时针旋转 90°,size 为原始尺寸;页面需按 'ccw' 渲染(见 getAtlasRotation)
+ *
+ * @param pages - 图集页面
+ */
+export const buildLibgdxAtlas = (pages: AtlasPage[]): string => {
+    const lines: string[] = [];
+    for (const page of pages) {
+        lines.push(
+            '',
+            page.fileName,
+            `size: ${page.width},${page.height}`,
+            'format: RGBA8888',
+            'filter: Linear,Linear',
+            'repeat: none'
+        );
+        for (const frame of page.frames) {
+            lines.push(
+                frame.name,
+                `  rotate: ${frame.rotated}`,
+                `  xy: ${frame.x}, ${frame.y}`,
+                `  size: ${frame.width}, ${frame.height}`,
+                `  orig: ${frame.width}, ${frame.height}`,
+                '  offset: 0, 0',
+                '  index: -1'
+            );
+        }
+    }
+    return `${lines.join('\n')}\n`;
+};
+
+/**
+ * 将图层打包为图集并写入用户选择的文件夹
+ *
+ * @param layers - 要打包的图层
+ * @param options - 导出选项,format 为页面格式(png/tga),atlas 为打包选项
+ * @param baseName - 图集文件名(不含扩展名)
+ * @returns Promise,resolve 时返回打包统计(failed 为准备图像失败而跳过的图层数),用户取消时返回 null
+ */
+export const exportAtlas = async (
+    layers: ExportableLayer[],
+    options: ExportOptions & { atlas: AtlasOptions },
+    baseName: string
+): Promise<{ pages: number; packed: number; failed: number; oversized: string[] } | null> => {
+    const folderPath = await open({
+        directory: true,
+        multiple: false,
+        title: '选择图集导出文件夹'
+    });
+    if (!folderPath || typeof folderPath !== 'string') return null;
+
+    // 准备失败的图层跳过并计数,不影响其余图层打包
+    const sprites: AtlasSprite[] = [];
+    const prepared: { layer: ExportableLayer; image: ExportImage }[] = [];
+    let failed = 0;
+    for (const layer of layers) {
+        try {
+            const image = await prepareExportImage(layer, options);
+            prepared.push({ layer, image });
+            const bitmap = getImageBitmap(image.imageKey);
+            if (!bitmap) throw new Error(`图像不存在: ${image.imageKey}`);
+            sprites.push({ name: sanitizeFileName(layer.name), image: bitmap });
+        } catch (error) {
+            console.error(`打包 ${layer.name} 失败:`, error);
+            failed++;
+        }
+    }
+
+    const safeBaseName = sanitizeFileName(baseName);
+    let rendered: RenderedAtlas;
+    try {
+        rendered = renderAtlas(sprites, options.atlas, safeBaseName, options.format);
+    } finally {
+        // 图片已绘制到页面画布,释放 prepareExportImage 生成的临时图像
+        for (const { layer, image } of prepared) releaseExportImage(layer, image);
+    }
+    const { pages, canvases, oversized } = rendered;
+
+    for (let i = 0; i < pages.length; i++) {
+        const key = atlasPageImageKey(i);
+        putImage(key, await createImageBitmap(canvases[i]));
+        try {
+            await writeFile(`${folderPath}\\${pages[i].fileName}`, await encodeStoredImage(key, options));
+        } finally {
+            deleteImage(key);
+        }
+    }
+
+    const encoder = new TextEncoder();
+    if (options.atlas.dataFormats.includes('texturepacker')) {
+        for (const page of pages) {
+            const jsonName = page.fileName.replace(/\.[^.]+$/, '.json');
+            await writeFile(`${folderPath}\\${jsonName}`, encoder.encode(buildTexturePackerJson(page)));
+        }
+    }
+    if (options.atlas.dataFormats.includes('libgdx') && pages.length > 0) {
+        await writeFile(`${folderPath}\\${safeBaseName}.atlas`, encoder.encode(buildLibgdxAtlas(pages)));
+    }
+
+    return {
+        pages: pages.length,
+        packed: pages.reduce((sum, page) => sum + page.frames.length, 0),
+        failed,
+        oversized,
+    };
+};
@@ -0,0 +1,243 @@
+/**
+ * 调色板量化模块
+ *
+ * 使用中位切分(Median Cut)将 RGBA 图像量化为不超过 N 种颜色,可选 Floyd-Steinberg 误差扩散抖动。
+ * 分区在每通道 5 位的直方图上进行,调色板颜色取分区内像素的精确平均值;
+ * 完全透明的像素固定映射到调色板中的透明色(索引 0)。
+ */
+
+/**
+ * 量化结果
+ */
+export interface QuantizedImage {
+    /** 调色板 RGBA(每种颜色 4 字节) */
+    palette: Uint8Array;
+    /** 每个像素的调色板索引 */
+    indices: Uint8Array;
+}
+
+/** 直方图每通道的位数 */
+const HISTOGRAM_BITS = 5;
+const CHANNEL_SHIFT = 8 - HISTOGRAM_BITS;
+const CHANNEL_MASK = (1 << HISTOGRAM_BITS) - 1;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 4);
+
+/**
+ * 颜色所在的直方图格子(通道顺序 R G B A,各 5 位)
+ */
+const bucketOf = (r: number, g: number, b: number, a: number): number =>
+    ((r >> CHANNEL_SHIFT) << 15) | ((g >> CHANNEL_SHIFT) << 10) | ((b >> CHANNEL_SHIFT) << 5) | (a >> CHANNEL_SHIFT);
+
+/**
+ * 格子在某个通道上的坐标(0-31),channel 为 0-3 对应 R G B A
+ */
+const channelOf = (bucket: number, channel: number): number => (bucket >> ((3 - channel) * HISTOGRAM_BITS)) & CHANNEL_MASK;
+
+/**
+ * 中位切分中的一个分区: buckets[start, end) 内的格子
+ */
+interface ColorBox {
+    start: number;
+    end: number;
+    /** 像素数 */
+    count: number;
+    /** 跨度最大的通道 */
+    channel: number;
+    /** 该通道的跨度 */
+    range: number;
+}
+
+/**
+ * 将 RGBA 图像量化为调色板图像
+ *
+ * @param imageData - 图像像素
+ * @param maxColors - 调色板最大颜色数(2-256),含透明色
+ * @param dither - 是否使用 Floyd-Steinberg 抖动
+ * @returns 调色板和像素索引
+ */
+export const quantizeImage = (imageData: ImageData, maxColors: number, dither: boolean): QuantizedImage => {
+    const { width, height, data } = imageData;
+    const pixelCount = width * height;
+
+    // 统计直方图,完全透明的像素单独计数
+    const counts = new Uint32Array(HISTOGRAM_SIZE);
+    const sums = new Float64Array(HISTOGRAM_SIZE * 4);
+    let hasTransparent = false;
+    for (let i = 0; i < pixelCount; i++) {
+        const p = i * 4;
+        const a = data[p + 3];
+        if (a === 0) {
+            hasTransparent = true;
+            continue;
+        }
+        const bucket = bucketOf(data[p], data[p + 1], data[p + 2], a);
+        counts[bucket]++;
+        sums[bucket * 4] += data[p];
+        sums[bucket * 4 + 1] += data[p + 1];
+        sums[bucket * 4 + 2] += data[p + 2];
+        sums[bucket * 4 + 3] += a;
+    }
+
+    let used = 0;
+    for (let i = 0; i < HISTOGRAM_SIZE; i++) if (counts[i] > 0) used++;
+    const buckets = new Uint32Array(used);
+    for (let i = 0, n = 0; i < HISTOGRAM_SIZE; i++) if (counts[i] > 0) buckets[n++] = i;
+
+    const describeBox = (start: number, end: number): ColorBox => {
+        const min = [CHANNEL_MASK, CHANNEL_MASK, CHANNEL_MASK, CHANNEL_MASK];
+        const max = [0, 0, 0, 0];
+        let count = 0;
+        for (let i = start; i < end; i++) {
+            const bucket = buckets[i];
+            count += counts[bucket];
+            for (let c = 0; c < 4; c++) {
+                const value = channelOf(bucket, c);
+                if (value < min[c]) min[c] = value;
+                if (value > max[c]) max[c] = value;
+            }
+        }
+        let channel = 0;
+        for (let c = 1; c < 4; c++) {
+            if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+        }
+        return { start, end, count, channel, range: max[channel] - min[channel] };
+    };
+
+    // 中位切分: 反复拆分"像素数 × 跨度"最大的分区
+    const opaqueColors = Math.max(1, Math.min(256, maxColors) - (hasTransparent ? 1 : 0));
+    const boxes: ColorBox[] = used > 0 ? [describeBox(0, used)] : [];
+    while (boxes.length < opaqueColors) {
+        let target = -1;
+        let bestScore = 0;
+        boxes.forEach((box, i) => {
+            const score = box.range > 0 ? box.count * box.range : 0;
+            if (score > bestScore) {
+                bestScore = score;
+                target = i;
+            }
+        });
+        if (target < 0) break;
+
+        const box = boxes[target];
+        buckets.subarray(box.start, box.end).sort((x, y) => channelOf(x, box.channel) - channelOf(y, box.channel));
+
+        // 按像素数取中位,两侧至少各保留一个格子
+        let split = box.start + 1;
+        for (let i = box.start, accumulated = 0; i < box.end - 1; i++) {
+            accumulated += counts[buckets[i]];
+            split = i + 1;
+            if (accumulated * 2 >= box.count) break;
+        }
+        boxes.splice(target, 1, describeBox(box.start, split), describeBox(split, box.end));
+    }
+
+    // 生成调色板,并记录每个格子所属的颜色
+    const offset = hasTransparent ? 1 : 0;
+    const palette = new Uint8Array((boxes.length + offset) * 4);
+    const bucketColor = new Int16Array(HISTOGRAM_SIZE);
+    boxes.forEach((box, i) => {
+        const total = [0, 0, 0, 0];
+        for (let j = box.start; j < box.end; j++) {
+            const bucket = buckets[j];
+            for (let c = 0; c < 4; c++) total[c] += sums[bucket * 4 + c];
+            bucketColor[bucket] = i + offset;
+        }
+        for (let c = 0; c < 4; c++) palette[(i + offset) * 4 + c] = Math.round(total[c] / box.count);
+    });
+
+    if (dither) {
+        return { palette, indices: mapToPalette(imageData, palette, true) };
+    }
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        const p = i * 4;
+        const a = data[p + 3];
+        indices[i] = a === 0 ? 0 : bucketColor[bucketOf(data[p], data[p + 1], data[p + 2], a)];
+    }
+    return { palette, indices };
+};
+
+/**
+ * 将图像映射到已有调色板(最近颜色)
+ *
+ * 调色板首色的 alpha 为 0 时视为透明色: 完全透明的像素映射到索引 0,其余像素不会使用它。
+ *
+ * @param imageData - 图像像素
+ * @param palette - 调色板 RGBA(每种颜色 4 字节)
+ * @param dither - 是否使用 Floyd-Steinberg 抖动
+ * @returns 每个像素的调色板索引
+ */
+export const mapToPalette = (imageData: ImageData, palette: Uint8Array, dither: boolean): Uint8Array => {
+    const { width, height, data } = imageData;
+    const pixelCount = width * height;
+    const colorCount = palette.length / 4;
+    const offset = colorCount > 1 && palette[3] === 0 ? 1 : 0;
+
+    // 查找最近的颜色,按直方图格子缓存查找结果
+    const nearestCache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+    const findNearest = (r: number, g: number, b: number, a: number): number => {
+        const bucket = bucketOf(r, g, b, a);
+        if (nearestCache[bucket] >= 0) return nearestCache[bucket];
+        let best = offset;
+        let bestDistance = Infinity;
+        for (let i = offset; i < colorCount; i++) {
+            const dr = palette[i * 4] - r;
+            const dg = palette[i * 4 + 1] - g;
+            const db = palette[i * 4 + 2] - b;
+            const da = palette[i * 4 + 3] - a;
+            const distance = dr * dr + dg * dg + db * db + da * da;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = i;
+            }
+        }
+        nearestCache[bucket] = best;
+        return best;
+    };
+
+    const indices = new Uint8Array(pixelCount);
+    if (!dither) {
+        for (let i = 0; i < pixelCount; i++) {
+            const p = i * 4;
+            const a = data[p + 3];
+            indices[i] = a === 0 && offset === 1 ? 0 : findNearest(data[p], data[p + 1], data[p + 2], a);
+        }
+        return indices;
+    }
+
+    const clamp = (value: number) => value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+    // 当前行和下一行的误差(每个像素 4 个通道,左右各留一个像素)
+    let current = new Float32Array((width + 2) * 4);
+    let next = new Float32Array((width + 2) * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const p = i * 4;
+            if (data[p + 3] === 0 && offset === 1) {
+                indices[i] = 0;
+                continue;
+            }
+
+            const e = (x + 1) * 4;
+            const r = clamp(data[p] + current[e]);
+            const g = clamp(data[p + 1] + current[e + 1]);
+            const b = clamp(data[p + 2] + current[e + 2]);
+            const a = Math.max(offset, clamp(data[p + 3] + current[e + 3]));
+            const index = findNearest(r, g, b, a);
+            indices[i] = index;
+
+            const error = [r - palette[index * 4], g - palette[index * 4 + 1], b - palette[index * 4 + 2], a - palette[index * 4 + 3]];
+            for (let c = 0; c < 4; c++) {
+                current[e + 4 + c] += error[c] * 7 / 16;
+                next[e - 4 + c] += error[c] * 3 / 16;
+                next[e + c] += error[c] * 5 / 16;
+                next[e + 4 + c] += error[c] / 16;
+            }
+        }
+        [current, next] = [next, current];
+        next.fill(0);
+    }
+
+    return indices;
+};
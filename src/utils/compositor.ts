@@ -0,0 +1,566 @@
+/**
+ * 图层合成引擎
+ *
+ * 按 Photoshop 的规则把图层栈合成为一张图像:
+ * - 图层按 PSD 顺序(自下而上)依次以各自的混合模式和不透明度绘制
+ * - 普通图层组先在独立画布上合成子图层,再以组的混合模式和不透明度绘制到背景
+ * - "穿透"(pass through)图层组的子图层直接与背景混合,组不透明度作用于混合结果
+ * - 图层蒙版按灰度缩放图层的不透明度;剪贴图层只显示在其基底图层的不透明区域内
+ *
+ * 画布原生支持的混合模式直接使用 globalCompositeOperation,
+ * 其余模式(线性加深、亮光、实色混合、减去、划分等)在像素数据上软件计算。
+ * 不依赖 document,主线程和 Web Worker 均可使用。
+ */
+
+import { AnyCanvas, AnyContext2D, createCanvas, getContext2D } from './imageUtils';
+import { LayerBounds } from './layerUtils';
+
+/**
+ * 可作为图层像素的图像
+ */
+export type PixelSource = AnyCanvas | ImageBitmap;
+
+/**
+ * 图层蒙版
+ *
+ * 灰度图像(取 R 通道),255 为完全显示,0 为完全隐藏
+ */
+export interface CompositeMask {
+    /** 蒙版像素 */
+    source: PixelSource;
+    /** 蒙版在文档中的左上角 X */
+    left: number;
+    /** 蒙版在文档中的左上角 Y */
+    top: number;
+    /** 蒙版宽度 */
+    width: number;
+    /** 蒙版高度 */
+    height: number;
+    /** 蒙版范围外的取值(0 或 255) */
+    defaultColor: number;
+}
+
+/**
+ * 参与合成的图层
+ *
+ * 与数据来源无关: Worker 中由 ag-psd 图层转换而来,主线程中由图层树和图像存储中的位图构建
+ */
+export interface CompositeLayer {
+    /** 图层名称(仅用于调试) */
+    name?: string;
+    /** 图层像素(叶子图层),没有像素时为 null */
+    source?: PixelSource | null;
+    /** 像素在文档中的左上角 X */
+    left: number;
+    /** 像素在文档中的左上角 Y */
+    top: number;
+    /** 像素宽度 */
+    width: number;
+    /** 像素高度 */
+    height: number;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** PSD 混合模式(如 'normal'、'multiply'、'pass through') */
+    blendMode: string;
+    /** 是否隐藏 */
+    hidden?: boolean;
+    /** 是否剪贴到下方最近的非剪贴图层(基底) */
+    clipping?: boolean;
+    /** 图层蒙版,停用或没有时为 null */
+    mask?: CompositeMask | null;
+    /** 子图层(自下而上),存在时表示图层组 */
+    children?: CompositeLayer[];
+}
+
+/** 分量混合函数,参数和返回值均在 0-1 之间 */
+type BlendFunction = (backdrop: number, source: number) => number;
+
+/**
+ * PSD 混合模式到画布合成操作的映射
+ *
+ * 溶解(dissolve)按正常模式处理
+ */
+const NATIVE_BLEND_OPERATIONS: Record<string, GlobalCompositeOperation> = {
+    'normal': 'source-over',
+    'dissolve': 'source-over',
+    'darken': 'darken',
+    'multiply': 'multiply',
+    'color burn': 'color-burn',
+    'lighten': 'lighten',
+    'screen': 'screen',
+    'color dodge': 'color-dodge',
+    'overlay': 'overlay',
+    'soft light': 'soft-light',
+    'hard light': 'hard-light',
+    'difference': 'difference',
+    'exclusion': 'exclusion',
+    'hue': 'hue',
+    'saturation': 'saturation',
+    'color': 'color',
+    'luminosity': 'luminosity',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const colorBurn: BlendFunction = (b, s) => {
+    if (b >= 1) return 1;
+    if (s <= 0) return 0;
+    return 1 - Math.min(1, (1 - b) / s);
+};
+
+const colorDodge: BlendFunction = (b, s) => {
+    if (b <= 0) return 0;
+    if (s >= 1) return 1;
+    return Math.min(1, b / (1 - s));
+};
+
+const vividLight: BlendFunction = (b, s) => (
+    s <= 0.5 ? colorBurn(b, 2 * s) : colorDodge(b, 2 * s - 1)
+);
+
+/**
+ * 画布不支持、需要软件计算的分量混合模式
+ */
+const SOFTWARE_BLEND_FUNCTIONS: Record<string, BlendFunction> = {
+    'linear burn': (b, s) => Math.max(0, b + s - 1),
+    'linear dodge': (b, s) => Math.min(1, b + s),
+    'vivid light': vividLight,
+    'linear light': (b, s) => clamp01(b + 2 * s - 1),
+    'pin light': (b, s) => (s <= 0.5 ? Math.min(b, 2 * s) : Math.max(b, 2 * s - 1)),
+    'hard mix': (b, s) => (b + s >= 1 ? 1 : 0),
+    'subtract': (b, s) => Math.max(0, b - s),
+    'divide': (b, s) => (s <= 0 ? (b <= 0 ? 0 : 1) : Math.min(1, b / s)),
+};
+
+/**
+ * 非分量混合模式: 按三个通道之和比较,整体取较深/较浅的颜色
+ */
+const COLOR_COMPARE_MODES: Record<string, (backdropSum: number, sourceSum: number) => boolean> = {
+    'darker color': (backdropSum, sourceSum) => sourceSum < backdropSum,
+    'lighter color': (backdropSum, sourceSum) => sourceSum > backdropSum,
+};
+
+/**
+ * 判断混合模式是否需要软件计算
+ *
+ * @param blendMode - PSD 混合模式
+ */
+export const isSoftwareBlendMode = (blendMode: string): boolean => {
+    return blendMode in SOFTWARE_BLEND_FUNCTIONS || blendMode in COLOR_COMPARE_MODES;
+};
+
+/**
+ * 读取图像源在目标区域内的像素
+ */
+const readSourcePixels = (
+    source: PixelSource,
+    offsetX: number,
+    offsetY: number,
+    width: number,
+    height: number
+): ImageData | null => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas);
+    if (!ctx) return null;
+    ctx.drawImage(source, offsetX, offsetY);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * 在像素数据上按混合模式合成(结果写回 backdrop)
+ *
+ * 采用 W3C Compositing 规范的混合公式:
+ * Cr = (1 - αb)·Cs + αb·B(Cb, Cs),再以 source-over 与背景合成
+ */
+const blendPixels = (backdrop: Uint8ClampedArray, source: Uint8ClampedArray, blendMode: string, opacity: number) => {
+    const blend = SOFTWARE_BLEND_FUNCTIONS[blendMode];
+    const compare = COLOR_COMPARE_MODES[blendMode];
+    const mixed = [0, 0, 0];
+
+    for (let i = 0; i < backdrop.length; i += 4) {
+        const as = (source[i + 3] / 255) * opacity;
+        if (as <= 0) continue;
+        const ab = backdrop[i + 3] / 255;
+        const ao = as + ab * (1 - as);
+
+        if (compare) {
+            const sourceSum = source[i] + source[i + 1] + source[i + 2];
+            const backdropSum = backdrop[i] + backdrop[i + 1] + backdrop[i + 2];
+            const useSource = compare(backdropSum, sourceSum);
+            for (let c = 0; c < 3; c++) {
+                mixed[c] = (useSource ? source[i + c] : backdrop[i + c]) / 255;
+            }
+        } else {
+            for (let c = 0; c < 3; c++) {
+                mixed[c] = blend(backdrop[i + c] / 255, source[i + c] / 255);
+            }
+        }
+
+        for (let c = 0; c < 3; c++) {
+            const cs = source[i + c] / 255;
+            const cb = backdrop[i + c] / 255;
+            const cr = (1 - ab) * cs + ab * mixed[c];
+            backdrop[i + c] = Math.round(((as * cr) + (1 - as) * ab * cb) / ao * 255);
+        }
+        backdrop[i + 3] = Math.round(ao * 255);
+    }
+};
+
+/**
+ * 以指定混合模式和不透明度将图像绘制到目标画布
+ *
+ * @param target - 目标画布
+ * @param source - 要绘制的图像
+ * @param dx - 图像左上角在目标画布中的 X
+ * @param dy - 图像左上角在目标画布中的 Y
+ * @param blendMode - PSD 混合模式,未知模式按正常处理
+ * @param opacity - 不透明度(0-1)
+ */
+export const blendOnto = (
+    target: AnyCanvas,
+    source: PixelSource,
+    dx: number,
+    dy: number,
+    blendMode: string,
+    opacity: number
+): void => {
+    const ctx = getContext2D(target);
+    if (!ctx || opacity <= 0) return;
+
+    if (!isSoftwareBlendMode(blendMode)) {
+        ctx.save();
+        ctx.globalAlpha = opacity;
+        ctx.globalCompositeOperation = NATIVE_BLEND_OPERATIONS[blendMode] ?? 'source-over';
+        ctx.drawImage(source, dx, dy);
+        ctx.restore();
+        return;
+    }
+
+    // 只处理与目标画布相交的区域
+    const left = Math.max(0, Math.floor(dx));
+    const top = Math.max(0, Math.floor(dy));
+    const right = Math.min(target.width, Math.ceil(dx + source.width));
+    const bottom = Math.min(target.height, Math.ceil(dy + source.height));
+    if (right <= left || bottom <= top) return;
+
+    const width = right - left;
+    const height = bottom - top;
+    const sourcePixels = readSourcePixels(source, dx - left, dy - top, width, height);
+    if (!sourcePixels) return;
+
+    const backdropPixels = ctx.getImageData(left, top, width, height);
+    blendPixels(backdropPixels.data, sourcePixels.data, blendMode, opacity);
+    ctx.putImageData(backdropPixels, left, top);
+};
+
+/**
+ * 计算图层栈中所有可见且有像素的图层的包围边界(文档坐标)
+ *
+ * @param layers - 图层栈
+ * @returns 包围边界,没有可见内容时返回 null
+ */
+export const getCompositeBounds = (layers: CompositeLayer[]): LayerBounds | null => {
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+
+    const visit = (items: CompositeLayer[]) => {
+        for (const item of items) {
+            if (item.hidden) continue;
+            if (item.children) {
+                visit(item.children);
+            } else if (item.source && item.width > 0 && item.height > 0) {
+                left = Math.min(left, item.left);
+                top = Math.min(top, item.top);
+                right = Math.max(right, item.left + item.width);
+                bottom = Math.max(bottom, item.top + item.height);
+            }
+        }
+    };
+    visit(layers);
+
+    if (right <= left || bottom <= top) return null;
+    return { left, top, right, bottom, width: right - left, height: bottom - top };
+};
+
+/**
+ * 复制画布
+ */
+const cloneCanvas = (canvas: AnyCanvas): AnyCanvas => {
+    const copy = createCanvas(canvas.width, canvas.height);
+    getContext2D(copy)?.drawImage(canvas, 0, 0);
+    return copy;
+};
+
+/**
+ * 将蒙版渲染为透明度画布: 像素为黑色,alpha 等于蒙版值,蒙版范围外取 defaultColor
+ *
+ * @param mask - 图层蒙版
+ * @param left - 输出区域左上角的文档 X
+ * @param top - 输出区域左上角的文档 Y
+ * @param width - 输出区域宽度
+ * @param height - 输出区域高度
+ */
+const renderMaskAlpha = (mask: CompositeMask, left: number, top: number, width: number, height: number): AnyCanvas => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas) as AnyContext2D;
+    ctx.fillStyle = `rgb(${mask.defaultColor}, ${mask.defaultColor}, ${mask.defaultColor})`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(mask.source, mask.left - left, mask.top - top);
+
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = data[i];
+        data[i] = data[i + 1] = data[i + 2] = 0;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+/**
+ * 将图层蒙版应用到图层像素
+ *
+ * @param source - 图层像素
+ * @param left - 像素在文档中的左上角 X
+ * @param top - 像素在文档中的左上角 Y
+ * @param mask - 图层蒙版
+ * @returns 应用蒙版后的新画布(尺寸与 source 相同)
+ */
+export const applyMask = (source: PixelSource, left: number, top: number, mask: CompositeMask): AnyCanvas => {
+    const canvas = createCanvas(source.width, source.height);
+    const ctx = getContext2D(canvas) as AnyContext2D;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(renderMaskAlpha(mask, left, top, source.width, source.height), 0, 0);
+    return canvas;
+};
+
+/**
+ * 将图层像素限制在基底图层的不透明区域内(剪贴蒙版)
+ *
+ * @param source - 图层像素
+ * @param left - 像素在文档中的左上角 X
+ * @param top - 像素在文档中的左上角 Y
+ * @param base - 基底图层的像素及其文档位置
+ * @returns 剪贴后的新画布(尺寸与 source 相同)
+ */
+export const clipToShape = (
+    source: PixelSource,
+    left: number,
+    top: number,
+    base: { canvas: PixelSource; left: number; top: number }
+): AnyCanvas => {
+    const canvas = createCanvas(source.width, source.height);
+    const ctx = getContext2D(canvas) as AnyContext2D;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(base.canvas, base.left - left, base.top - top);
+    return canvas;
+};
+
+/**
+ * 按不透明度(及可选的蒙版)在两张画布间插值: target = target·(1 - t·m) + result·t·m
+ *
+ * 在预乘颜色空间中计算,先擦除 target 的 t·m 比例,再以 lighter(相加)叠加 result 的 t·m 比例
+ */
+const lerpOnto = (target: AnyCanvas, result: AnyCanvas, t: number, maskAlpha: AnyCanvas | null) => {
+    if (maskAlpha) {
+        const resultCtx = getContext2D(result) as AnyContext2D;
+        resultCtx.globalCompositeOperation = 'destination-in';
+        resultCtx.drawImage(maskAlpha, 0, 0);
+    }
+
+    const ctx = getContext2D(target) as AnyContext2D;
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.globalAlpha = t;
+    if (maskAlpha) {
+        ctx.drawImage(maskAlpha, 0, 0);
+    } else {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, target.width, target.height);
+    }
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.drawImage(result, 0, 0);
+    ctx.restore();
+};
+
+/**
+ * 渲染后的图层像素及其文档位置
+ */
+interface RenderedLayer {
+    canvas: PixelSource;
+    left: number;
+    top: number;
+}
+
+/**
+ * 获取叶子图层应用蒙版后的像素
+ */
+const renderLeaf = (layer: CompositeLayer): RenderedLayer | null => {
+    if (!layer.source || layer.width <= 0 || layer.height <= 0) return null;
+    const canvas = layer.mask ? applyMask(layer.source, layer.left, layer.top, layer.mask) : layer.source;
+    return { canvas, left: layer.left, top: layer.top };
+};
+
+/**
+ * 在独立画布上合成图层组(应用组蒙版,不应用组的混合模式和不透明度)
+ */
+const renderIsolatedGroup = (group: CompositeLayer): RenderedLayer | null => {
+    const children = group.children || [];
+    const bounds = getCompositeBounds(children);
+    if (!bounds) return null;
+
+    const isolated = createCanvas(bounds.width, bounds.height);
+    renderStack(isolated, bounds, children);
+    const canvas = group.mask ? applyMask(isolated, bounds.left, bounds.top, group.mask) : isolated;
+    return { canvas, left: bounds.left, top: bounds.top };
+};
+
+/**
+ * 获取图层(叶子或组)独立渲染后的像素
+ */
+const renderIsolated = (layer: CompositeLayer): RenderedLayer | null => {
+    return layer.children ? renderIsolatedGroup(layer) : renderLeaf(layer);
+};
+
+/**
+ * 将图层栈依次绘制到目标画布
+ *
+ * 基底图层与紧随其上的剪贴图层作为一个剪贴组一起处理;基底隐藏时剪贴图层也不显示
+ *
+ * @param target - 目标画布
+ * @param origin - 目标画布左上角对应的文档坐标
+ * @param layers - 图层栈(自下而上)
+ */
+const renderStack = (target: AnyCanvas, origin: { left: number; top: number }, layers: CompositeLayer[]) => {
+    for (let i = 0; i < layers.length; i++) {
+        const base = layers[i];
+        const clipped: CompositeLayer[] = [];
+        while (i + 1 < layers.length && layers[i + 1].clipping) {
+            clipped.push(layers[++i]);
+        }
+
+        if (base.hidden) continue;
+
+        const visibleClipped = clipped.filter(layer => !layer.hidden);
+        if (visibleClipped.length > 0) {
+            renderClippingGroup(target, origin, base, visibleClipped);
+        } else if (base.children) {
+            renderGroup(target, origin, base);
+        } else {
+            const rendered = renderLeaf(base);
+            if (rendered) {
+                blendOnto(target, rendered.canvas, rendered.left - origin.left, rendered.top - origin.top, base.blendMode, base.opacity);
+            }
+        }
+    }
+};
+
+/**
+ * 将剪贴组(基底 + 剪贴图层)绘制到目标画布
+ *
+ * 剪贴图层依次与基底像素混合,结果的透明度恢复为基底的透明度,
+ * 再以基底的混合模式和不透明度整体绘制
+ */
+const renderClippingGroup = (
+    target: AnyCanvas,
+    origin: { left: number; top: number },
+    base: CompositeLayer,
+    clipped: CompositeLayer[]
+) => {
+    const baseImage = renderIsolated(base);
+    if (!baseImage) return;
+
+    const clipCanvas = createCanvas(baseImage.canvas.width, baseImage.canvas.height);
+    const ctx = getContext2D(clipCanvas) as AnyContext2D;
+    ctx.drawImage(baseImage.canvas, 0, 0);
+    const baseAlpha = ctx.getImageData(0, 0, clipCanvas.width, clipCanvas.height).data;
+
+    for (const layer of clipped) {
+        const rendered = renderIsolated(layer);
+        if (rendered) {
+            blendOnto(clipCanvas, rendered.canvas, rendered.left - baseImage.left, rendered.top - baseImage.top, layer.blendMode, layer.opacity);
+        }
+    }
+
+    const pixels = ctx.getImageData(0, 0, clipCanvas.width, clipCanvas.height);
+    for (let i = 3; i < pixels.data.length; i += 4) {
+        pixels.data[i] = baseAlpha[i];
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    blendOnto(target, clipCanvas, baseImage.left - origin.left, baseImage.top - origin.top, base.blendMode, base.opacity);
+};
+
+/**
+ * 将图层组绘制到目标画布
+ */
+const renderGroup = (target: AnyCanvas, origin: { left: number; top: number }, group: CompositeLayer) => {
+    const children = group.children || [];
+
+    if (group.blendMode === 'pass through') {
+        // 穿透: 子图层直接与背景混合,组不透明度和组蒙版决定混合结果与原背景之间的插值
+        if (group.opacity >= 1 && !group.mask) {
+            renderStack(target, origin, children);
+        } else if (group.opacity > 0) {
+            const result = cloneCanvas(target);
+            renderStack(result, origin, children);
+            const maskAlpha = group.mask
+                ? renderMaskAlpha(group.mask, origin.left, origin.top, target.width, target.height)
+                : null;
+            lerpOnto(target, result, group.opacity, maskAlpha);
+        }
+        return;
+    }
+
+    // 普通组: 在独立画布上合成后整体混合
+    const rendered = renderIsolatedGroup(group);
+    if (rendered) {
+        blendOnto(target, rendered.canvas, rendered.left - origin.left, rendered.top - origin.top, group.blendMode, group.opacity);
+    }
+};
+
+/**
+ * 合成图层栈
+ *
+ * @param layers - 图层栈(自下而上)
+ * @param bounds - 输出区域(文档坐标),不传则使用所有可见图层的包围边界
+ * @returns 合成结果画布,没有可见内容时返回 null
+ *
+ * @example
+ * ```ts
+ * const canvas = compositeLayers(group.children);
+ * // 指定区域(如整个文档)
+ * const full = compositeLayers(layers, { left: 0, top: 0, width: psd.width, height: psd.height });
+ * ```
+ */
+export const compositeLayers = (
+    layers: CompositeLayer[],
+    bounds?: Pick<LayerBounds, 'left' | 'top' | 'width' | 'height'> | null
+): AnyCanvas | null => {
+    const area = bounds ?? getCompositeBounds(layers);
+    if (!area || area.width <= 0 || area.height <= 0) return null;
+
+    const canvas = createCanvas(area.width, area.height);
+    renderStack(canvas, area, layers);
+    return canvas;
+};
+
+/**
+ * 单独渲染一个图层组(例如作为组预览图或导出组图片)
+ *
+ * 组没有背景可混合,因此组的混合模式不起作用,只应用组不透明度
+ *
+ * @param group - 图层组
+ * @returns 合成结果和其在文档中的边界,没有可见内容时返回 null
+ */
+export const renderGroupImage = (group: CompositeLayer): { canvas: AnyCanvas; bounds: LayerBounds } | null => {
+    const bounds = getCompositeBounds(group.children || []);
+    if (!bounds) return null;
+
+    const canvas = compositeLayers([{ ...group, hidden: false, blendMode: 'normal' }], bounds);
+    return canvas ? { canvas, bounds } : null;
+};
@@ -0,0 +1,297 @@
+/**
+ * CSS 精灵图导出模块
+ *
+ * 将选中的图层打包为网页使用的精灵图,并生成带 background-position 的 CSS(可选 SCSS map 和 mixin)。
+ * 尺寸以 CSS 像素计算: PSD 分辨率为 144ppi 时视为 2 倍设计稿,1 倍精灵图按比例缩小,
+ * 同时输出原始精度的 @2x 精灵图供高分屏使用。
+ */
+
+import { open } from '@tauri-apps/plugin-dialog';
+import { writeFile } from '@tauri-apps/plugin-fs';
+import { APP_CONFIG } from '../config';
+import { CssSpriteOptions, ExportOptions } from '../types';
+import { ExportImage, ExportableLayer, encodeStoredImage, prepareExportImage, releaseExportImage, sanitizeFileName, uniqueNames } from './exportUtils';
+import { atlasPageImageKey, deleteImage, getImageBitmap, putImage } from './imageStore';
+import { packRects } from './maxRects';
+
+/** 高分屏媒体查询 */
+const RETINA_MEDIA_QUERY = '@media (-webkit-min-device-pixel-ratio: 2), (min-resolution: 192dpi)';
+
+/**
+ * 精灵图中的一个图标(单位均为 CSS 像素)
+ */
+export interface CssSpriteFrame {
+    /** 图标名称(sanitizeFileName 处理后的图层名,同名时追加序号) */
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * 一张精灵图
+ */
+export interface CssSpriteSheet {
+    /** 1 倍图文件名 */
+    fileName: string;
+    /** @2x 图文件名,未生成时为 null */
+    retinaFileName: string | null;
+    /** 1 倍图尺寸(CSS 像素) */
+    width: number;
+    height: number;
+    frames: CssSpriteFrame[];
+}
+
+/**
+ * 根据 PSD 分辨率计算设计稿倍率(不小于 1 的整数)
+ *
+ * @param resolution - 文档分辨率(像素/英寸)
+ */
+export const getDesignPixelRatio = (resolution: number): number => {
+    return Math.max(1, Math.round(resolution / APP_CONFIG.CSS_SPRITE.BASE_RESOLUTION));
+};
+
+/**
+ * 将类名前缀限制为合法的 CSS 标识符
+ */
+const normalizePrefix = (prefix: string): string => {
+    const cleaned = prefix.trim().replace(/[^a-zA-Z0-9_-]/g, '');
+    return /^[a-zA-Z_-]/.test(cleaned) ? cleaned : APP_CONFIG.CSS_SPRITE.DEFAULTS.classPrefix;
+};
+
+/**
+ * 生成图标的类选择器
+ */
+const toSelector = (prefix: string, name: string): string => `.${prefix}-${CSS.escape(name)}`;
+
+/**
+ * 生成 CSS
+ *
+ * 每张精灵图一条公共规则(背景图),每个图标一条尺寸和位置规则,@2x 图写在高分屏媒体查询中
+ *
+ * @param sheets - 精灵图
+ * @param options - 精灵图选项
+ */
+export const buildSpriteCss = (sheets: CssSpriteSheet[], options: CssSpriteOptions): string => {
+    const prefix = normalizePrefix(options.classPrefix);
+    const blocks: string[] = [];
+
+    for (const sheet of sheets) {
+        const selectors = sheet.frames.map(frame => toSelector(prefix, frame.name)).join(',\n');
+        blocks.push(`${selectors} {\n    display: inline-block;\n    background-image: url("${sheet.fileName}");\n    background-repeat: no-repeat;\n}`);
+
+        for (const frame of sheet.frames) {
+            blocks.push([
+                `${toSelector(prefix, frame.name)} {`,
+                `    width: ${frame.width}px;`,
+                `    height: ${frame.height}px;`,
+                `    background-position: ${-frame.x}px ${-frame.y}px;`,
+                '}',
+            ].join('\n'));
+        }
+
+        if (sheet.retinaFileName) {
+            const indented = sheet.frames.map(frame => `    ${toSelector(prefix, frame.name)}`).join(',\n');
+            blocks.push([
+                `${RETINA_MEDIA_QUERY} {`,
+                `${indented} {`,
+                `        background-image: url("${sheet.retinaFileName}");`,
+                `        background-size: ${sheet.width}px ${sheet.height}px;`,
+                '    }',
+                '}',
+            ].join('\n'));
+        }
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * 生成 SCSS map 和 mixin
+ *
+ * @param sheets - 精灵图
+ * @param options - 精灵图选项
+ *
+ * @example
+ * ```scss
+ * .home-button { @include icon-sprite('home'); }
+ * ```
+ */
+export const buildSpriteScss = (sheets: CssSpriteSheet[], options: CssSpriteOptions): string => {
+    const prefix = normalizePrefix(options.classPrefix);
+    const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+    const entries: string[] = [];
+    for (const sheet of sheets) {
+        for (const frame of sheet.frames) {
+            entries.push(`    ${quote(frame.name)}: (` + [
+                `sheet: ${quote(sheet.fileName)}`,
+                `sheet-2x: ${sheet.retinaFileName ? quote(sheet.retinaFileName) : 'null'}`,
+                `sheet-width: ${sheet.width}px`,
+                `sheet-height: ${sheet.height}px`,
+                `x: ${-frame.x}px`,
+                `y: ${-frame.y}px`,
+                `width: ${frame.width}px`,
+                `height: ${frame.height}px`,
+            ].join(', ') + '),');
+        }
+    }
+
+    return [
+        `$${prefix}-sprites: (`,
+        ...entries,
+        ');',
+        '',
+        `@mixin ${prefix}-sprite($name) {`,
+        `    $sprite: map-get($${prefix}-sprites, $name);`,
+        '    display: inline-block;',
+        '    width: map-get($sprite, width);',
+        '    height: map-get($sprite, height);',
+        '    background: url(map-get($sprite, sheet)) map-get($sprite, x) map-get($sprite, y) no-repeat;',
+        '    @if map-get($sprite, sheet-2x) {',
+        `        ${RETINA_MEDIA_QUERY} {`,
+        '            background-image: url(map-get($sprite, sheet-2x));',
+        '            background-size: map-get($sprite, sheet-width) map-get($sprite, sheet-height);',
+        '        }',
+        '    }',
+        '}',
+        '',
+    ].join('\n');
+};
+
+/**
+ * 按导出选项将精灵图画布编码为 PNG(经过 PNG 编码器,可应用 PNG 优化)
+ */
+const encodeSheet = async (canvas: OffscreenCanvas, options: ExportOptions): Promise<Uint8Array> => {
+    const key = atlasPageImageKey(0);
+    putImage(key, await createImageBitmap(canvas));
+    try {
+        return await encodeStoredImage(key, { ...options, format: 'png' });
+    } finally {
+        deleteImage(key);
+    }
+};
+
+/**
+ * 将选中的图层导出为 CSS 精灵图
+ *
+ * @param layers - 要导出的图层
+ * @param options - 导出选项,cssSprite 为精灵图选项(精灵图固定为 PNG)
+ * @param baseName - 精灵图和样式表文件名(不含扩展名)
+ * @param pixelRatio - 设计稿倍率(见 getDesignPixelRatio)
+ * @returns Promise,resolve 时返回导出统计(failed 为准备图像失败而跳过的图层数),用户取消时返回 null
+ */
+export const exportCssSprite = async (
+    layers: ExportableLayer[],
+    options: ExportOptions & { cssSprite: CssSpriteOptions },
+    baseName: string,
+    pixelRatio: number
+): Promise<{ sheets: number; icons: number; retina: boolean; failed: number; oversized: string[] } | null> => {
+    const folderPath = await open({
+        directory: true,
+        multiple: false,
+        title: '选择精灵图导出文件夹'
+    });
+    if (!folderPath || typeof folderPath !== 'string') return null;
+
+    const { cssSprite } = options;
+    const retina = cssSprite.retina && pixelRatio >= 2;
+
+    // 准备失败的图层跳过并计数,不影响其余图层
+    const images: ImageBitmap[] = [];
+    const rawNames: string[] = [];
+    const prepared: { layer: ExportableLayer; image: ExportImage }[] = [];
+    let failed = 0;
+    for (const layer of layers) {
+        try {
+            const image = await prepareExportImage(layer, options);
+            prepared.push({ layer, image });
+            const bitmap = getImageBitmap(image.imageKey);
+            if (!bitmap) throw new Error(`图像不存在: ${image.imageKey}`);
+            images.push(bitmap);
+            rawNames.push(sanitizeFileName(layer.name));
+        } catch (error) {
+            console.error(`打包 ${layer.name} 失败:`, error);
+            failed++;
+        }
+    }
+
+    const safeBaseName = sanitizeFileName(baseName);
+    const sheets: CssSpriteSheet[] = [];
+    let oversized: string[];
+    try {
+        const names = uniqueNames(rawNames);
+        const imageByName = new Map(names.map((name, i) => [name, images[i]]));
+
+        const packed = packRects(
+            images.map((image, i) => ({
+                id: names[i],
+                width: Math.ceil(image.width / pixelRatio),
+                height: Math.ceil(image.height / pixelRatio),
+            })),
+            {
+                maxWidth: APP_CONFIG.CSS_SPRITE.MAX_SIZE,
+                maxHeight: APP_CONFIG.CSS_SPRITE.MAX_SIZE,
+                padding: cssSprite.padding,
+                allowRotation: false,
+                powerOfTwo: false,
+            }
+        );
+        const { pages } = packed;
+        oversized = packed.oversized;
+
+        // scale 为相对 CSS 像素的倍数: 1 倍图为 1,@2x 图为 2
+        const renderSheet = (page: typeof pages[number], scale: number): OffscreenCanvas => {
+            const canvas = new OffscreenCanvas(page.width * scale, page.height * scale);
+            const ctx = canvas.getContext('2d')!;
+            ctx.imageSmoothingQuality = 'high';
+            for (const rect of page.rects) {
+                const image = imageByName.get(rect.id)!;
+                ctx.drawImage(
+                    image,
+                    rect.x * scale,
+                    rect.y * scale,
+                    image.width * scale / pixelRatio,
+                    image.height * scale / pixelRatio
+                );
+            }
+            return canvas;
+        };
+
+        for (let i = 0; i < pages.length; i++) {
+            const page = pages[i];
+            const stem = pages.length === 1 ? safeBaseName : `${safeBaseName}_${i}`;
+            const sheet: CssSpriteSheet = {
+                fileName: `${stem}.png`,
+                retinaFileName: retina ? `${stem}@2x.png` : null,
+                width: page.width,
+                height: page.height,
+                frames: page.rects.map(rect => ({ name: rect.id, x: rect.x, y: rect.y, width: rect.width, height: rect.height })),
+            };
+
+            await writeFile(`${folderPath}\\${sheet.fileName}`, await encodeSheet(renderSheet(page, 1), options));
+            if (sheet.retinaFileName) {
+                await writeFile(`${folderPath}\\${sheet.retinaFileName}`, await encodeSheet(renderSheet(page, 2), options));
+            }
+            sheets.push(sheet);
+        }
+    } finally {
+        // 精灵图已编码,释放 prepareExportImage 生成的临时图像
+        for (const { layer, image } of prepared) releaseExportImage(layer, image);
+    }
+
+    const encoder = new TextEncoder();
+    await writeFile(`${folderPath}\\${safeBaseName}.css`, encoder.encode(buildSpriteCss(sheets, cssSprite)));
+    if (cssSprite.scss) {
+        await writeFile(`${folderPath}\\${safeBaseName}.scss`, encoder.encode(buildSpriteScss(sheets, cssSprite)));
+    }
+
+    return {
+        sheets: sheets.length,
+        icons: sheets.reduce((sum, sheet) => sum + sheet.frames.length, 0),
+        retina,
+        failed,
+        oversized,
+    };
+};
@@ -0,0 +1,191 @@
+/**
+ * BLP 贴图解码器
+ *
+ * 支持:
+ * - BLP1 JPEG: 共享 JPEG 头 + 每级 B G R A 四分量 JPEG 数据
+ * - BLP1 调色板: 256 色 BGRA 调色板 + 索引,alpha 按 0/1/4/8 位紧随其后
+ * - BLP2 调色板、DXT1/DXT3/DXT5 和未压缩 BGRA
+ *
+ * 不支持 mipmap 存放在外部文件中的 BLP0 和极少见的 BLP2 JPEG。
+ */
+
+import { DecodedTexture } from '../../types';
+import { decodeDxt, DxtFormat } from './dxt';
+import { decodeJpegComponents } from './jpeg';
+
+/** BLP1 文件头大小 */
+const BLP1_HEADER_SIZE = 156;
+
+/** BLP2 文件头大小(含调色板) */
+const BLP2_HEADER_SIZE = 1172;
+
+/** mipmap 表项数 */
+const MAX_MIPMAPS = 16;
+
+/** BLP2 alpha 编码对应的 DXT 格式 */
+const BLP2_DXT_FORMATS: Record<number, DxtFormat> = { 0: 'dxt1', 1: 'dxt3', 7: 'dxt5' };
+
+/**
+ * 读取 mipmap 偏移表和长度表中有效的各级数据
+ *
+ * @param tableOffset - 偏移表位置,长度表紧随其后
+ * @param hasMipmaps - 文件头中的 mipmap 标志,为否时只读取第 0 级
+ */
+const readMipmaps = (
+    data: Uint8Array,
+    view: DataView,
+    tableOffset: number,
+    width: number,
+    height: number,
+    hasMipmaps: boolean
+): { width: number; height: number; data: Uint8Array }[] => {
+    const mipmaps = [];
+    for (let i = 0; i < (hasMipmaps ? MAX_MIPMAPS : 1); i++) {
+        const offset = view.getUint32(tableOffset + i * 4, true);
+        const length = view.getUint32(tableOffset + 64 + i * 4, true);
+        if (offset === 0 || length === 0 || offset + length > data.length) break;
+        mipmaps.push({ width: Math.max(1, width >> i), height: Math.max(1, height >> i), data: data.subarray(offset, offset + length) });
+        if (width >> i <= 1 && height >> i <= 1) break;
+    }
+    if (mipmaps.length === 0) throw new Error('BLP 文件不包含图像数据');
+    return mipmaps;
+};
+
+/**
+ * 解码 BLP1 JPEG 的一级
+ */
+const decodeJpegLevel = (sharedHeader: Uint8Array, levelData: Uint8Array, alphaBits: number): ImageData => {
+    const jpeg = new Uint8Array(sharedHeader.length + levelData.length);
+    jpeg.set(sharedHeader);
+    jpeg.set(levelData, sharedHeader.length);
+
+    const { width, height, components } = decodeJpegComponents(jpeg);
+    const [blue, green, red, alpha] = components;
+    const image = new ImageData(width, height);
+    for (let i = 0; i < width * height; i++) {
+        image.data[i * 4] = red[i];
+        image.data[i * 4 + 1] = green[i];
+        image.data[i * 4 + 2] = blue[i];
+        image.data[i * 4 + 3] = alphaBits > 0 && alpha ? alpha[i] : 255;
+    }
+    return image;
+};
+
+/**
+ * 解码调色板图像的一级: 索引之后紧跟按 alphaBits 打包的 alpha(低位在前)
+ *
+ * @param palette - 256 × B G R A 调色板
+ */
+const decodePaletteLevel = (palette: Uint8Array, levelData: Uint8Array, width: number, height: number, alphaBits: number): ImageData => {
+    const pixelCount = width * height;
+    const image = new ImageData(width, height);
+    for (let i = 0; i < pixelCount; i++) {
+        const entry = levelData[i] * 4;
+        image.data[i * 4] = palette[entry + 2];
+        image.data[i * 4 + 1] = palette[entry + 1];
+        image.data[i * 4 + 2] = palette[entry];
+
+        let alpha = 255;
+        if (alphaBits === 8) {
+            alpha = levelData[pixelCount + i];
+        } else if (alphaBits === 4) {
+            alpha = ((levelData[pixelCount + (i >> 1)] >> ((i & 1) * 4)) & 15) * 17;
+        } else if (alphaBits === 1) {
+            alpha = (levelData[pixelCount + (i >> 3)] >> (i & 7)) & 1 ? 255 : 0;
+        }
+        image.data[i * 4 + 3] = alpha;
+    }
+    return image;
+};
+
+/**
+ * 解码未压缩的 B G R A 图像
+ */
+const decodeBgraLevel = (levelData: Uint8Array, width: number, height: number, alphaBits: number): ImageData => {
+    const image = new ImageData(width, height);
+    for (let i = 0; i < width * height; i++) {
+        image.data[i * 4] = levelData[i * 4 + 2];
+        image.data[i * 4 + 1] = levelData[i * 4 + 1];
+        image.data[i * 4 + 2] = levelData[i * 4];
+        image.data[i * 4 + 3] = alphaBits > 0 ? levelData[i * 4 + 3] : 255;
+    }
+    return image;
+};
+
+/**
+ * 解码 BLP1
+ */
+const decodeBlp1 = (data: Uint8Array, view: DataView): DecodedTexture => {
+    const compression = view.getUint32(4, true);
+    const alphaBits = view.getUint32(8, true);
+    const width = view.getUint32(12, true);
+    const height = view.getUint32(16, true);
+    const mipmaps = readMipmaps(data, view, 28, width, height, view.getUint32(24, true) !== 0);
+
+    let levels: ImageData[];
+    let format: string;
+    if (compression === 0) {
+        const headerSize = view.getUint32(BLP1_HEADER_SIZE, true);
+        const sharedHeader = data.subarray(BLP1_HEADER_SIZE + 4, BLP1_HEADER_SIZE + 4 + headerSize);
+        levels = mipmaps.map(mipmap => decodeJpegLevel(sharedHeader, mipmap.data, alphaBits));
+        format = 'BLP1 JPEG';
+    } else if (compression === 1) {
+        const palette = data.subarray(BLP1_HEADER_SIZE, BLP1_HEADER_SIZE + 1024);
+        levels = mipmaps.map(mipmap => decodePaletteLevel(palette, mipmap.data, mipmap.width, mipmap.height, alphaBits));
+        format = 'BLP1 调色板';
+    } else {
+        throw new Error(`不支持的 BLP1 压缩方式: ${compression}`);
+    }
+
+    return { info: { format, alphaBits, mipmaps: levels.map(({ width, height }) => ({ width, height })) }, levels };
+};
+
+/**
+ * 解码 BLP2
+ */
+const decodeBlp2 = (data: Uint8Array, view: DataView): DecodedTexture => {
+    if (view.getUint32(4, true) === 0) throw new Error('不支持 JPEG 压缩的 BLP2 文件');
+
+    const encoding = view.getUint8(8);
+    const alphaBits = view.getUint8(9);
+    const alphaEncoding = view.getUint8(10);
+    const width = view.getUint32(12, true);
+    const height = view.getUint32(16, true);
+    const mipmaps = readMipmaps(data, view, 20, width, height, view.getUint8(11) !== 0);
+
+    let levels: ImageData[];
+    let format: string;
+    if (encoding === 1) {
+        const palette = data.subarray(BLP2_HEADER_SIZE - 1024, BLP2_HEADER_SIZE);
+        levels = mipmaps.map(mipmap => decodePaletteLevel(palette, mipmap.data, mipmap.width, mipmap.height, alphaBits));
+        format = 'BLP2 调色板';
+    } else if (encoding === 2) {
+        const dxtFormat = BLP2_DXT_FORMATS[alphaEncoding];
+        if (!dxtFormat) throw new Error(`不支持的 BLP2 alpha 编码: ${alphaEncoding}`);
+        levels = mipmaps.map(mipmap => decodeDxt(mipmap.data, mipmap.width, mipmap.height, dxtFormat, alphaBits > 0));
+        format = `BLP2 ${dxtFormat.toUpperCase()}`;
+    } else if (encoding === 3) {
+        levels = mipmaps.map(mipmap => decodeBgraLevel(mipmap.data, mipmap.width, mipmap.height, alphaBits));
+        format = 'BLP2 BGRA';
+    } else {
+        throw new Error(`不支持的 BLP2 编码: ${encoding}`);
+    }
+
+    return { info: { format, alphaBits, mipmaps: levels.map(({ width, height }) => ({ width, height })) }, levels };
+};
+
+/**
+ * 解码 BLP 文件
+ *
+ * @param data - 文件字节
+ * @returns 各级 mipmap 像素与贴图信息
+ */
+export const decodeBlp = (data: Uint8Array): DecodedTexture => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const magic = String.fromCharCode(...data.subarray(0, 4));
+
+    if (magic === 'BLP1' && data.length >= BLP1_HEADER_SIZE) return decodeBlp1(data, view);
+    if (magic === 'BLP2' && data.length >= BLP2_HEADER_SIZE) return decodeBlp2(data, view);
+    if (magic === 'BLP0') throw new Error('不支持 mipmap 存放在外部文件中的 BLP0');
+    throw new Error('不是有效的 BLP 文件');
+};
@@ -0,0 +1,130 @@
+/**
+ * DXT(S3TC)块压缩解码器
+ *
+ * 支持 DXT1(BC1)、DXT3(BC2,4 位显式 alpha)和 DXT5(BC3,8 位插值 alpha),
+ * 图像尺寸不是 4 的倍数时丢弃边缘块中越界的像素。
+ */
+
+/** DXT 格式 */
+export type DxtFormat = 'dxt1' | 'dxt3' | 'dxt5';
+
+/**
+ * RGB565 → RGB888
+ */
+const fromRgb565 = (color: number): [number, number, number] => {
+    const r = (color >> 11) & 31;
+    const g = (color >> 5) & 63;
+    const b = color & 31;
+    return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2)];
+};
+
+/**
+ * 解码颜色块(8 字节),写入 16 个像素的 RGBA
+ *
+ * @param punchThrough - 是否允许 3 色模式下的透明像素(仅 DXT1 独立使用时)
+ */
+const decodeColorBlock = (data: Uint8Array, offset: number, punchThrough: boolean, out: Uint8Array) => {
+    const color0 = data[offset] | (data[offset + 1] << 8);
+    const color1 = data[offset + 2] | (data[offset + 3] << 8);
+    const c0 = fromRgb565(color0);
+    const c1 = fromRgb565(color1);
+    const palette: number[][] = [[...c0, 255], [...c1, 255]];
+
+    // DXT3/DXT5 的颜色块总是 4 色模式
+    if (color0 > color1 || !punchThrough) {
+        palette.push(
+            [0, 1, 2].map(c => Math.round((2 * c0[c] + c1[c]) / 3)).concat(255),
+            [0, 1, 2].map(c => Math.round((c0[c] + 2 * c1[c]) / 3)).concat(255)
+        );
+    } else {
+        palette.push([0, 1, 2].map(c => Math.round((c0[c] + c1[c]) / 2)).concat(255), [0, 0, 0, 0]);
+    }
+
+    for (let i = 0; i < 16; i++) {
+        const index = (data[offset + 4 + (i >> 2)] >> ((i & 3) * 2)) & 3;
+        out.set(palette[index], i * 4);
+    }
+};
+
+/**
+ * 解码 DXT3 显式 alpha 块(8 字节,每像素 4 位)
+ */
+const decodeExplicitAlphaBlock = (data: Uint8Array, offset: number, out: Uint8Array) => {
+    for (let i = 0; i < 16; i++) {
+        const value = (data[offset + (i >> 1)] >> ((i & 1) * 4)) & 15;
+        out[i * 4 + 3] = value * 17;
+    }
+};
+
+/**
+ * 解码 DXT5 插值 alpha 块(8 字节: 两个端点 + 16 个 3 位索引)
+ */
+const decodeInterpolatedAlphaBlock = (data: Uint8Array, offset: number, out: Uint8Array) => {
+    const a0 = data[offset];
+    const a1 = data[offset + 1];
+    const values = [a0, a1];
+    if (a0 > a1) {
+        for (let i = 1; i < 7; i++) values.push(Math.round(((7 - i) * a0 + i * a1) / 7));
+    } else {
+        for (let i = 1; i < 5; i++) values.push(Math.round(((5 - i) * a0 + i * a1) / 5));
+        values.push(0, 255);
+    }
+
+    // 48 位索引分两段 24 位读取,每段 8 个像素
+    for (let half = 0; half < 2; half++) {
+        const base = offset + 2 + half * 3;
+        const bits = data[base] | (data[base + 1] << 8) | (data[base + 2] << 16);
+        for (let i = 0; i < 8; i++) {
+            out[(half * 8 + i) * 4 + 3] = values[(bits >> (i * 3)) & 7];
+        }
+    }
+};
+
+/**
+ * 解码 DXT 块数据
+ *
+ * @param data - 块数据
+ * @param width - 图像宽度
+ * @param height - 图像高度
+ * @param format - DXT 格式
+ * @param punchThrough - DXT1 是否解码 1 位 alpha,否则 3 色模式的透明像素按不透明黑色处理
+ * @returns 解码后的像素
+ */
+export const decodeDxt = (data: Uint8Array, width: number, height: number, format: DxtFormat, punchThrough = true): ImageData => {
+    const image = new ImageData(width, height);
+    const blockSize = format === 'dxt1' ? 8 : 16;
+    const blocksPerLine = Math.ceil(width / 4);
+    const blocksPerColumn = Math.ceil(height / 4);
+    const pixels = new Uint8Array(64);
+
+    if (data.length < blocksPerLine * blocksPerColumn * blockSize) {
+        throw new Error('DXT 数据长度不足');
+    }
+
+    for (let blockY = 0; blockY < blocksPerColumn; blockY++) {
+        for (let blockX = 0; blockX < blocksPerLine; blockX++) {
+            const offset = (blockY * blocksPerLine + blockX) * blockSize;
+            if (format === 'dxt1') {
+                decodeColorBlock(data, offset, punchThrough, pixels);
+                if (!punchThrough) {
+                    for (let i = 0; i < 16; i++) pixels[i * 4 + 3] = 255;
+                }
+            } else {
+                decodeColorBlock(data, offset + 8, false, pixels);
+                if (format === 'dxt3') {
+                    decodeExplicitAlphaBlock(data, offset, pixels);
+                } else {
+                    decodeInterpolatedAlphaBlock(data, offset, pixels);
+                }
+            }
+
+            for (let y = 0; y < 4 && blockY * 4 + y < height; y++) {
+                for (let x = 0; x < 4 && blockX * 4 + x < width; x++) {
+                    const p = ((blockY * 4 + y) * width + blockX * 4 + x) * 4;
+                    image.data.set(pixels.subarray((y * 4 + x) * 4, (y * 4 + x) * 4 + 4), p);
+                }
+            }
+        }
+    }
+    return image;
+};
@@ -0,0 +1,382 @@
+/**
+ * 基线 JPEG 解码器
+ *
+ * 输出各分量的原始采样值,不做任何颜色变换,用于解码 BLP1 中按 B G R A 存储的四分量 JPEG
+ * (浏览器会把四分量 JPEG 当作 CMYK 处理)。
+ * 支持基线和扩展顺序(Huffman)编码、任意采样因子、重启间隔以及多次扫描,不支持渐进式和算术编码。
+ */
+
+/** Z 字形扫描顺序: 第 k 个系数在 8×8 块中的位置 */
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** IDCT 余弦表: COSINES[x * 8 + u] = C(u) / 2 · cos((2x + 1)uπ / 16) */
+const COSINES = (() => {
+    const table = new Float64Array(64);
+    for (let x = 0; x < 8; x++) {
+        for (let u = 0; u < 8; u++) {
+            const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+            table[x * 8 + u] = scale * Math.cos((2 * x + 1) * u * Math.PI / 16);
+        }
+    }
+    return table;
+})();
+
+/**
+ * 解码后的 JPEG: 每个分量一个与图像同尺寸的采样平面(已按采样因子放大)
+ */
+export interface JpegComponents {
+    width: number;
+    height: number;
+    /** 按帧头中的分量顺序排列 */
+    components: Uint8Array[];
+}
+
+/**
+ * Huffman 解码表(规范码,按码长查找)
+ */
+interface HuffmanTable {
+    /** 各码长的最大码字,没有该码长时为 -1 */
+    maxCode: Int32Array;
+    /** 各码长第一个码字在 values 中的下标减去该码字 */
+    valueOffset: Int32Array;
+    values: Uint8Array;
+}
+
+/**
+ * 帧中的一个分量
+ */
+interface FrameComponent {
+    id: number;
+    h: number;
+    v: number;
+    quantTable: number;
+    /** 按 MCU 补齐后的块行列数 */
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    /** 反量化后的 DCT 系数,每块 64 个 */
+    coefficients: Int32Array;
+    dcTable?: HuffmanTable;
+    acTable?: HuffmanTable;
+    previousDc: number;
+}
+
+const buildHuffmanTable = (counts: Uint8Array, values: Uint8Array): HuffmanTable => {
+    const maxCode = new Int32Array(17).fill(-1);
+    const valueOffset = new Int32Array(17);
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        valueOffset[length] = k - code;
+        code += counts[length - 1];
+        k += counts[length - 1];
+        if (counts[length - 1] > 0) maxCode[length] = code - 1;
+        code <<= 1;
+    }
+    return { maxCode, valueOffset, values };
+};
+
+/**
+ * 熵编码数据的位读取器,跳过 0xFF 后的填充字节,遇到标记时停止
+ */
+const createBitReader = (data: Uint8Array, start: number) => {
+    let offset = start;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const readBit = (): number => {
+        if (bitCount === 0) {
+            let byte = data[offset];
+            if (byte === 0xff) {
+                const next = data[offset + 1];
+                if (next === 0) {
+                    offset += 2;
+                } else {
+                    // 遇到标记: 数据不足时补 0
+                    byte = 0;
+                }
+            } else {
+                offset++;
+            }
+            bitBuffer = byte;
+            bitCount = 8;
+        }
+        bitCount--;
+        return (bitBuffer >> bitCount) & 1;
+    };
+
+    return {
+        readBit,
+        receive: (length: number): number => {
+            let value = 0;
+            for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+            return value;
+        },
+        decodeHuffman: (table: HuffmanTable): number => {
+            let code = 0;
+            for (let length = 1; length <= 16; length++) {
+                code = (code << 1) | readBit();
+                if (code <= table.maxCode[length]) return table.values[table.valueOffset[length] + code];
+            }
+            throw new Error('JPEG 数据损坏: 无效的 Huffman 码');
+        },
+        /** 丢弃剩余位并跳过 RSTn 标记 */
+        restart: () => {
+            bitCount = 0;
+            while (offset < data.length - 1 && !(data[offset] === 0xff && data[offset + 1] >= 0xd0 && data[offset + 1] <= 0xd7)) offset++;
+            offset += 2;
+        },
+        /** 扫描结束后的位置(下一个标记) */
+        position: () => {
+            while (offset < data.length - 1 && !(data[offset] === 0xff && data[offset + 1] !== 0 && !(data[offset + 1] >= 0xd0 && data[offset + 1] <= 0xd7))) offset++;
+            return offset;
+        },
+    };
+};
+
+/**
+ * 按附加位还原有符号系数
+ */
+const extend = (value: number, length: number): number =>
+    length > 0 && value < (1 << (length - 1)) ? value - (1 << length) + 1 : value;
+
+/**
+ * 解码一个块的系数并反量化
+ */
+const decodeBlock = (
+    reader: ReturnType<typeof createBitReader>,
+    component: FrameComponent,
+    quantization: Uint16Array,
+    blockOffset: number
+) => {
+    const out = component.coefficients;
+    const dcLength = reader.decodeHuffman(component.dcTable!);
+    component.previousDc += dcLength === 0 ? 0 : extend(reader.receive(dcLength), dcLength);
+    out[blockOffset] = component.previousDc * quantization[0];
+
+    for (let k = 1; k < 64;) {
+        const symbol = reader.decodeHuffman(component.acTable!);
+        const run = symbol >> 4;
+        const length = symbol & 15;
+        if (length === 0) {
+            if (run !== 15) break;
+            k += 16;
+            continue;
+        }
+        k += run;
+        if (k > 63) break;
+        const position = ZIGZAG[k];
+        out[blockOffset + position] = extend(reader.receive(length), length) * quantization[position];
+        k++;
+    }
+};
+
+/**
+ * 对一个块做反 DCT,写入分量平面
+ */
+const inverseDctBlock = (coefficients: Int32Array, blockOffset: number, plane: Uint8Array, planeWidth: number, x0: number, y0: number) => {
+    const rows = new Float64Array(64);
+    // 先对每行(水平频率 u)求和
+    for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let u = 0; u < 8; u++) sum += coefficients[blockOffset + v * 8 + u] * COSINES[x * 8 + u];
+            rows[v * 8 + x] = sum;
+        }
+    }
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let v = 0; v < 8; v++) sum += rows[v * 8 + x] * COSINES[y * 8 + v];
+            const value = Math.round(sum + 128);
+            plane[(y0 + y) * planeWidth + x0 + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+        }
+    }
+};
+
+/**
+ * 解码基线 JPEG
+ *
+ * @param data - JPEG 文件字节
+ * @returns 各分量的采样平面
+ */
+export const decodeJpegComponents = (data: Uint8Array): JpegComponents => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (view.getUint16(0) !== 0xffd8) throw new Error('不是有效的 JPEG 数据');
+
+    const quantTables: Uint16Array[] = [];
+    const dcTables: HuffmanTable[] = [];
+    const acTables: HuffmanTable[] = [];
+    let frame: { width: number; height: number; components: FrameComponent[]; mcusPerLine: number; mcusPerColumn: number; hMax: number; vMax: number } | null = null;
+    let restartInterval = 0;
+    let offset = 2;
+
+    while (offset < data.length) {
+        if (data[offset] !== 0xff) {
+            offset++;
+            continue;
+        }
+        const marker = data[offset + 1];
+        offset += 2;
+        if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) continue;
+        if (marker === 0xd9) break;
+
+        const length = view.getUint16(offset);
+        const segmentEnd = offset + length;
+        let p = offset + 2;
+
+        switch (marker) {
+            case 0xdb: // DQT
+                while (p < segmentEnd) {
+                    const precision = data[p] >> 4;
+                    const id = data[p] & 15;
+                    p++;
+                    const table = new Uint16Array(64);
+                    for (let k = 0; k < 64; k++) {
+                        table[ZIGZAG[k]] = precision ? view.getUint16(p + k * 2) : data[p + k];
+                    }
+                    p += precision ? 128 : 64;
+                    quantTables[id] = table;
+                }
+                break;
+            case 0xc4: // DHT
+                while (p < segmentEnd) {
+                    const tableClass = data[p] >> 4;
+                    const id = data[p] & 15;
+                    const counts = data.subarray(p + 1, p + 17);
+                    const total = counts.reduce((sum, count) => sum + count, 0);
+                    const table = buildHuffmanTable(counts, data.slice(p + 17, p + 17 + total));
+                    (tableClass === 0 ? dcTables : acTables)[id] = table;
+                    p += 17 + total;
+                }
+                break;
+            case 0xc0: // SOF0 基线
+            case 0xc1: { // SOF1 扩展顺序
+                const height = view.getUint16(p + 1);
+                const width = view.getUint16(p + 3);
+                const count = data[p + 5];
+                const components: FrameComponent[] = [];
+                for (let i = 0; i < count; i++) {
+                    const base = p + 6 + i * 3;
+                    components.push({
+                        id: data[base],
+                        h: data[base + 1] >> 4,
+                        v: data[base + 1] & 15,
+                        quantTable: data[base + 2],
+                        blocksPerLine: 0,
+                        blocksPerColumn: 0,
+                        coefficients: new Int32Array(0),
+                        previousDc: 0,
+                    });
+                }
+                const hMax = Math.max(...components.map(c => c.h));
+                const vMax = Math.max(...components.map(c => c.v));
+                const mcusPerLine = Math.ceil(width / (8 * hMax));
+                const mcusPerColumn = Math.ceil(height / (8 * vMax));
+                for (const component of components) {
+                    component.blocksPerLine = mcusPerLine * component.h;
+                    component.blocksPerColumn = mcusPerColumn * component.v;
+                    component.coefficients = new Int32Array(component.blocksPerLine * component.blocksPerColumn * 64);
+                }
+                frame = { width, height, components, mcusPerLine, mcusPerColumn, hMax, vMax };
+                break;
+            }
+            case 0xc2:
+            case 0xc3:
+            case 0xc5:
+            case 0xc6:
+            case 0xc7:
+            case 0xc9:
+            case 0xca:
+            case 0xcb:
+            case 0xcd:
+            case 0xce:
+            case 0xcf:
+                throw new Error('不支持渐进式、无损或算术编码的 JPEG');
+            case 0xdd: // DRI
+                restartInterval = view.getUint16(p);
+                break;
+            case 0xda: { // SOS
+                if (!frame) throw new Error('JPEG 数据损坏: 扫描前缺少帧头');
+                const count = data[p];
+                const scanComponents: FrameComponent[] = [];
+                for (let i = 0; i < count; i++) {
+                    const component = frame.components.find(c => c.id === data[p + 1 + i * 2])!;
+                    const tables = data[p + 2 + i * 2];
+                    component.dcTable = dcTables[tables >> 4];
+                    component.acTable = acTables[tables & 15];
+                    component.previousDc = 0;
+                    scanComponents.push(component);
+                }
+
+                const reader = createBitReader(data, segmentEnd);
+                const decode = (component: FrameComponent, blockRow: number, blockColumn: number) => {
+                    const blockOffset = (blockRow * component.blocksPerLine + blockColumn) * 64;
+                    decodeBlock(reader, component, quantTables[component.quantTable], blockOffset);
+                };
+
+                // 单分量扫描不交错,按分量自身的块网格(不补齐到 MCU)遍历
+                const single = scanComponents.length === 1 ? scanComponents[0] : null;
+                const units = single
+                    ? Math.ceil(Math.ceil(frame.width * single.h / frame.hMax) / 8) * Math.ceil(Math.ceil(frame.height * single.v / frame.vMax) / 8)
+                    : frame.mcusPerLine * frame.mcusPerColumn;
+                const unitsPerLine = single ? Math.ceil(Math.ceil(frame.width * single.h / frame.hMax) / 8) : frame.mcusPerLine;
+
+                for (let unit = 0; unit < units; unit++) {
+                    if (restartInterval > 0 && unit > 0 && unit % restartInterval === 0) {
+                        reader.restart();
+                        for (const component of scanComponents) component.previousDc = 0;
+                    }
+                    const row = Math.floor(unit / unitsPerLine);
+                    const column = unit % unitsPerLine;
+                    if (single) {
+                        decode(single, row, column);
+                        continue;
+                    }
+                    for (const component of scanComponents) {
+                        for (let v = 0; v < component.v; v++) {
+                            for (let h = 0; h < component.h; h++) {
+                                decode(component, row * component.v + v, column * component.h + h);
+                            }
+                        }
+                    }
+                }
+                offset = reader.position();
+                continue;
+            }
+        }
+        offset = segmentEnd;
+    }
+
+    if (!frame) throw new Error('JPEG 数据损坏: 缺少帧头');
+
+    // 反 DCT 并按采样因子放大到图像尺寸
+    const { width, height, hMax, vMax } = frame;
+    const components = frame.components.map(component => {
+        const planeWidth = component.blocksPerLine * 8;
+        const plane = new Uint8Array(planeWidth * component.blocksPerColumn * 8);
+        for (let row = 0; row < component.blocksPerColumn; row++) {
+            for (let column = 0; column < component.blocksPerLine; column++) {
+                inverseDctBlock(component.coefficients, (row * component.blocksPerLine + column) * 64, plane, planeWidth, column * 8, row * 8);
+            }
+        }
+
+        if (component.h === hMax && component.v === vMax && planeWidth === width) {
+            return plane.subarray(0, width * height);
+        }
+        const output = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const sourceRow = Math.floor(y * component.v / vMax) * planeWidth;
+            for (let x = 0; x < width; x++) {
+                output[y * width + x] = plane[sourceRow + Math.floor(x * component.h / hMax)];
+            }
+        }
+        return output;
+    });
+
+    return { width, height, components };
+};
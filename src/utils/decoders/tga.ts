@@ -0,0 +1,154 @@
+/**
+ * TGA 解码器
+ *
+ * 支持颜色表(类型 1/9)、真彩色(类型 2/10)和灰度(类型 3/11)图像的未压缩与 RLE 格式,
+ * 像素深度 8/15/16/24/32 位,以及四种扫描原点(左下、右下、左上、右上)。
+ */
+
+import { DecodedTexture } from '../../types';
+
+/** TGA 文件头大小 */
+const HEADER_SIZE = 18;
+
+/** 各图像类型的说明 */
+const IMAGE_TYPE_LABELS: Record<number, string> = {
+    1: '颜色表',
+    2: '真彩色',
+    3: '灰度',
+    9: 'RLE 颜色表',
+    10: 'RLE 真彩色',
+    11: 'RLE 灰度',
+};
+
+/**
+ * 按像素深度读取一个颜色值为 RGBA
+ *
+ * @param alpha - 16 位颜色是否使用最高位作为 alpha
+ */
+const readColor = (data: Uint8Array, offset: number, depth: number, alpha: boolean, out: Uint8Array, outOffset: number) => {
+    if (depth === 8) {
+        out[outOffset] = out[outOffset + 1] = out[outOffset + 2] = data[offset];
+        out[outOffset + 3] = 255;
+    } else if (depth === 15 || depth === 16) {
+        // A RRRRR GGGGG BBBBB,小端
+        const value = data[offset] | (data[offset + 1] << 8);
+        const r = (value >> 10) & 31;
+        const g = (value >> 5) & 31;
+        const b = value & 31;
+        out[outOffset] = (r << 3) | (r >> 2);
+        out[outOffset + 1] = (g << 3) | (g >> 2);
+        out[outOffset + 2] = (b << 3) | (b >> 2);
+        out[outOffset + 3] = alpha && !(value & 0x8000) ? 0 : 255;
+    } else {
+        out[outOffset] = data[offset + 2];
+        out[outOffset + 1] = data[offset + 1];
+        out[outOffset + 2] = data[offset];
+        out[outOffset + 3] = depth === 32 ? data[offset + 3] : 255;
+    }
+};
+
+/**
+ * 解码 TGA 文件
+ *
+ * 32 位图像的 alpha 全部为 0 时视为未使用 alpha(部分工具不写入 alpha),按不透明处理
+ *
+ * @param data - 文件字节
+ * @returns 单级贴图
+ */
+export const decodeTga = (data: Uint8Array): DecodedTexture => {
+    if (data.length < HEADER_SIZE) throw new Error('不是有效的 TGA 文件');
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    const idLength = data[0];
+    const colorMapType = data[1];
+    const imageType = data[2];
+    const colorMapStart = view.getUint16(3, true);
+    const colorMapLength = view.getUint16(5, true);
+    const colorMapDepth = data[7];
+    const width = view.getUint16(12, true);
+    const height = view.getUint16(14, true);
+    const depth = data[16];
+    const descriptor = data[17];
+
+    const typeLabel = IMAGE_TYPE_LABELS[imageType];
+    if (!typeLabel) throw new Error(`不支持的 TGA 图像类型: ${imageType}`);
+    if (width === 0 || height === 0) throw new Error('TGA 图像尺寸为 0');
+
+    const isColorMapped = imageType === 1 || imageType === 9;
+    const isRle = imageType >= 9;
+    const attributeBits = descriptor & 15;
+    const validDepths = isColorMapped ? [8, 16] : imageType === 3 || imageType === 11 ? [8] : [15, 16, 24, 32];
+    if (!validDepths.includes(depth)) throw new Error(`不支持的 TGA 像素深度: ${depth}`);
+
+    let offset = HEADER_SIZE + idLength;
+
+    // 颜色表: 统一转为 RGBA
+    let colorMap: Uint8Array | null = null;
+    if (colorMapType === 1) {
+        const entrySize = Math.ceil(colorMapDepth / 8);
+        colorMap = new Uint8Array(colorMapLength * 4);
+        for (let i = 0; i < colorMapLength; i++) {
+            readColor(data, offset + i * entrySize, colorMapDepth, attributeBits > 0, colorMap, i * 4);
+        }
+        offset += colorMapLength * entrySize;
+    }
+    if (isColorMapped && !colorMap) throw new Error('TGA 文件缺少颜色表');
+
+    // 按文件顺序解出全部像素
+    const pixelCount = width * height;
+    const bytesPerPixel = Math.ceil(depth / 8);
+    const pixels = new Uint8Array(pixelCount * 4);
+    const readPixel = (source: number, index: number) => {
+        if (colorMap) {
+            const entry = (depth === 8 ? data[source] : data[source] | (data[source + 1] << 8)) - colorMapStart;
+            pixels.set(colorMap.subarray(entry * 4, entry * 4 + 4), index * 4);
+        } else {
+            readColor(data, source, depth, attributeBits > 0, pixels, index * 4);
+        }
+    };
+
+    if (isRle) {
+        let index = 0;
+        while (index < pixelCount) {
+            if (offset >= data.length) throw new Error('TGA 数据不完整');
+            const packet = data[offset++];
+            const count = Math.min((packet & 0x7f) + 1, pixelCount - index);
+            if (packet & 0x80) {
+                readPixel(offset, index);
+                for (let i = 1; i < count; i++) pixels.copyWithin((index + i) * 4, index * 4, index * 4 + 4);
+                offset += bytesPerPixel;
+            } else {
+                for (let i = 0; i < count; i++) readPixel(offset + i * bytesPerPixel, index + i);
+                offset += count * bytesPerPixel;
+            }
+            index += count;
+        }
+    } else {
+        if (offset + pixelCount * bytesPerPixel > data.length) throw new Error('TGA 数据不完整');
+        for (let i = 0; i < pixelCount; i++) readPixel(offset + i * bytesPerPixel, i);
+    }
+
+    // 按原点翻转: 第 4 位为从右到左,第 5 位为从上到下
+    const rightToLeft = (descriptor & 0x10) !== 0;
+    const topToBottom = (descriptor & 0x20) !== 0;
+    const image = new ImageData(width, height);
+    let hasAlpha = false;
+    for (let y = 0; y < height; y++) {
+        const targetY = topToBottom ? y : height - 1 - y;
+        for (let x = 0; x < width; x++) {
+            const targetX = rightToLeft ? width - 1 - x : x;
+            const source = (y * width + x) * 4;
+            image.data.set(pixels.subarray(source, source + 4), (targetY * width + targetX) * 4);
+            if (pixels[source + 3] !== 0) hasAlpha = true;
+        }
+    }
+    if (!hasAlpha) {
+        for (let p = 3; p < image.data.length; p += 4) image.data[p] = 255;
+    }
+
+    const alphaBits = depth === 32 ? 8 : (depth === 16 || isColorMapped) && attributeBits > 0 ? Math.min(attributeBits, 8) : 0;
+    return {
+        info: { format: `TGA ${typeLabel} ${depth} 位`, alphaBits: hasAlpha ? alphaBits : 0, mipmaps: [{ width, height }] },
+        levels: [image],
+    };
+};
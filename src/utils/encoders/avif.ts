@@ -0,0 +1,22 @@
+/**
+ * AVIF 编码器
+ *
+ * 使用 @jsquash/avif(libavif 的 WebAssembly 版本),不依赖 WebView 的 canvas 编码支持。
+ * 编码模块在首次使用时按需加载。
+ */
+
+/**
+ * 将像素编码为 AVIF(8 位,保留 alpha 通道)
+ *
+ * @param imageData - 图像像素
+ * @param quality - 有损压缩质量(0-1),无损时忽略
+ * @param lossless - 是否无损压缩(YUV444)
+ * @returns Promise,resolve 时返回文件字节
+ */
+export const encodeAvif = async (imageData: ImageData, quality: number, lossless: boolean): Promise<Uint8Array> => {
+    const { default: encode } = await import('@jsquash/avif/encode.js');
+    const buffer = await encode(imageData, lossless
+        ? { lossless: true, quality: 100, qualityAlpha: -1, subsample: 3 }
+        : { quality: Math.round(quality * 100) });
+    return new Uint8Array(buffer);
+};
@@ -0,0 +1,186 @@
+/**
+ * BC7 块压缩编码器
+ *
+ * 只使用模式 6: 单一子集,RGBA 端点各 7 位 + 每端点 1 个 p 位(即 8 位精度),每像素 4 位索引。
+ * 模式 6 能同时处理颜色和 alpha,质量明显高于 BC3,编码也远快于搜索全部 8 种模式。
+ * 端点取块内 RGBA 主轴上的投影范围,再按索引做最小二乘拟合。
+ */
+
+import { forEachBlock, getDxtDataSize } from './dxt';
+
+/** 4 位索引的插值权重(/64) */
+const WEIGHTS = [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
+
+/** 最小二乘拟合的迭代次数 */
+const REFINE_ITERATIONS = 2;
+
+/**
+ * 量化后的端点: 7 位分量、p 位和还原出的 8 位值
+ */
+interface QuantizedEndpoint {
+    bits: number[];
+    pbit: number;
+    value: number[];
+}
+
+/**
+ * 量化端点,选择误差较小的 p 位
+ */
+const quantizeEndpoint = (color: number[]): QuantizedEndpoint => {
+    let best: QuantizedEndpoint | null = null;
+    let bestError = Infinity;
+    for (let pbit = 0; pbit < 2; pbit++) {
+        const bits = color.map(value => Math.min(127, Math.max(0, Math.round((value - pbit) / 2))));
+        const value = bits.map(bit => (bit << 1) | pbit);
+        const error = value.reduce((sum, v, c) => sum + (v - color[c]) ** 2, 0);
+        if (error < bestError) {
+            bestError = error;
+            best = { bits, pbit, value };
+        }
+    }
+    return best!;
+};
+
+/**
+ * 沿 RGBA 主轴(协方差幂迭代)取投影最大和最小的颜色作为初始端点
+ */
+const findEndpoints = (pixels: Uint8Array): [number[], number[]] => {
+    const mean = [0, 0, 0, 0];
+    for (let i = 0; i < 16; i++) {
+        for (let c = 0; c < 4; c++) mean[c] += pixels[i * 4 + c] / 16;
+    }
+
+    const cov = Array.from({ length: 4 }, () => [0, 0, 0, 0]);
+    for (let i = 0; i < 16; i++) {
+        for (let a = 0; a < 4; a++) {
+            for (let b = 0; b < 4; b++) {
+                cov[a][b] += (pixels[i * 4 + a] - mean[a]) * (pixels[i * 4 + b] - mean[b]);
+            }
+        }
+    }
+
+    let axis = [1, 1, 1, 1];
+    for (let iteration = 0; iteration < 8; iteration++) {
+        const next = cov.map(row => row.reduce((sum, value, c) => sum + value * axis[c], 0));
+        const length = Math.hypot(...next);
+        if (length < 1e-6) break;
+        axis = next.map(value => value / length);
+    }
+
+    let min = 0;
+    let max = 0;
+    for (let i = 0; i < 16; i++) {
+        let t = 0;
+        for (let c = 0; c < 4; c++) t += (pixels[i * 4 + c] - mean[c]) * axis[c];
+        if (t < min) min = t;
+        if (t > max) max = t;
+    }
+    return [mean.map((value, c) => value + axis[c] * min), mean.map((value, c) => value + axis[c] * max)];
+};
+
+/**
+ * 已知索引时用最小二乘求端点
+ *
+ * @returns 两个 RGBA 端点,方程退化时返回 null
+ */
+const fitEndpoints = (pixels: Uint8Array, indices: number[]): [number[], number[]] | null => {
+    let aa = 0;
+    let bb = 0;
+    let ab = 0;
+    const ax = [0, 0, 0, 0];
+    const bx = [0, 0, 0, 0];
+    for (let i = 0; i < 16; i++) {
+        const b = WEIGHTS[indices[i]] / 64;
+        const a = 1 - b;
+        aa += a * a;
+        bb += b * b;
+        ab += a * b;
+        for (let c = 0; c < 4; c++) {
+            ax[c] += a * pixels[i * 4 + c];
+            bx[c] += b * pixels[i * 4 + c];
+        }
+    }
+    const det = aa * bb - ab * ab;
+    if (Math.abs(det) < 1e-6) return null;
+    return [
+        ax.map((value, c) => (value * bb - bx[c] * ab) / det),
+        ax.map((value, c) => (bx[c] * aa - value * ab) / det),
+    ];
+};
+
+/**
+ * 量化端点并为每个像素选择最近的插值颜色
+ */
+const evaluate = (pixels: Uint8Array, start: number[], end: number[]) => {
+    const e0 = quantizeEndpoint(start);
+    const e1 = quantizeEndpoint(end);
+    const palette = WEIGHTS.map(w => e0.value.map((v, c) => ((64 - w) * v + w * e1.value[c] + 32) >> 6));
+
+    const indices: number[] = [];
+    let error = 0;
+    for (let i = 0; i < 16; i++) {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let k = 0; k < 16; k++) {
+            let distance = 0;
+            for (let c = 0; c < 4; c++) distance += (palette[k][c] - pixels[i * 4 + c]) ** 2;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = k;
+            }
+        }
+        indices.push(best);
+        error += bestDistance;
+    }
+    return { e0, e1, indices, error };
+};
+
+/**
+ * 压缩一个块(16 字节,模式 6)
+ */
+const encodeBlock = (pixels: Uint8Array, out: Uint8Array, offset: number) => {
+    const [start, end] = findEndpoints(pixels);
+    let best = evaluate(pixels, start, end);
+    for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+        const fitted = fitEndpoints(pixels, best.indices);
+        if (!fitted) break;
+        const refined = evaluate(pixels, fitted[0], fitted[1]);
+        if (refined.error >= best.error) break;
+        best = refined;
+    }
+
+    // 第 0 个像素的索引只存 3 位(最高位隐含为 0),否则交换端点并翻转索引
+    let { e0, e1, indices } = best;
+    if (indices[0] >= 8) {
+        [e0, e1] = [e1, e0];
+        indices = indices.map(index => 15 - index);
+    }
+
+    // 位流低位在前: 模式(7)、R0 R1 G0 G1 B0 B1 A0 A1(各 7)、P0 P1、索引(3 + 15 × 4)
+    let position = offset * 8;
+    const put = (value: number, count: number) => {
+        for (let i = 0; i < count; i++, position++) {
+            if ((value >> i) & 1) out[position >> 3] |= 1 << (position & 7);
+        }
+    };
+    put(1 << 6, 7);
+    for (let c = 0; c < 4; c++) {
+        put(e0.bits[c], 7);
+        put(e1.bits[c], 7);
+    }
+    put(e0.pbit, 1);
+    put(e1.pbit, 1);
+    indices.forEach((index, i) => put(index, i === 0 ? 3 : 4));
+};
+
+/**
+ * BC7 压缩
+ *
+ * @param imageData - 图像像素
+ * @returns 压缩后的块数据(每块 16 字节)
+ */
+export const encodeBc7 = (imageData: ImageData): Uint8Array => {
+    const out = new Uint8Array(getDxtDataSize(imageData.width, imageData.height, 16));
+    forEachBlock(imageData, (pixels, index) => encodeBlock(pixels, out, index * 16));
+    return out;
+};
@@ -1,53 +1,207 @@
-
 /**
- * Simple BLP1 (JPEG Content) Encoder
- * 
- * Writes a minimal BLP1 header enclosing a standard JPEG image.
- * This does not support paletted textures or mipmaps generation (uses 1 mipmap).
+ * BLP 贴图编码器
+ *
+ * 支持三种格式:
+ * - BLP1 JPEG: 每级 mipmap 为一张 B G R A 四分量 JPEG,共享的 JPEG 头只存一份
+ * - BLP1 调色板: 256 色 BGR 调色板 + 每像素 1 字节索引,alpha 按 0/1/4/8 位紧随其后
+ * - BLP2 DXT: DXT1(无 alpha 或 1 位 alpha)或 DXT5(8 位 alpha)块压缩
+ *
+ * 开启 mipmap 时生成到 1×1 的完整链(最多 16 级),魔兽争霸3 在远处使用小尺寸级别,
+ * 没有 mipmap 的贴图缩小后会出现闪烁和锯齿。
  */
-export const encodeBlp = (jpegData: Uint8Array, width: number, height: number): Uint8Array => {
-    const headerSize = 156;
-    const fileSize = headerSize + jpegData.length;
-    const buffer = new Uint8Array(fileSize);
-    const view = new DataView(buffer.buffer);
 
-    // 0: Magic "BLP1"
-    view.setUint8(0, 0x42); // B
-    view.setUint8(1, 0x4C); // L
-    view.setUint8(2, 0x50); // P
-    view.setUint8(3, 0x31); // 1
+import { APP_CONFIG } from '../../config';
+import { BlpOptions } from '../../types';
+import { mapToPalette, quantizeImage } from '../colorQuantizer';
+import { generateMipmaps } from '../mipmaps';
+import { encodeDxt1, encodeDxt5 } from './dxt';
+import { encodeBgraJpeg } from './jpeg';
 
-    // 4: Type (0 = JPEG)
-    view.setUint32(4, 0, true);
+/** BLP1 文件头大小: 魔数、7 个字段、mipmap 偏移表和长度表 */
+const BLP1_HEADER_SIZE = 4 + 4 * 6 + 4 * 16 * 2;
 
-    // 8: Alpha Bits (0)
-    // Some docs say 0x00000008 for 8-bit alpha, but our JPEG has no alpha channel.
-    view.setUint32(8, 0, true);
+/** BLP2 文件头大小: 魔数、类型、4 个单字节字段、宽高、mipmap 表和 256 色调色板 */
+const BLP2_HEADER_SIZE = 4 + 4 + 4 + 4 * 2 + 4 * 16 * 2 + 256 * 4;
 
-    // 12: Width
-    view.setUint32(12, width, true);
+/** BLP2 alpha 编码: DXT1 / DXT5 */
+const BLP2_ALPHA_DXT1 = 0;
+const BLP2_ALPHA_DXT5 = 7;
+
+/**
+ * 写入 mipmap 偏移表和长度表(各 16 项,未使用的项为 0)
+ */
+const writeMipmapTable = (view: DataView, tableOffset: number, dataOffset: number, mipmaps: Uint8Array[]): void => {
+    let offset = dataOffset;
+    mipmaps.forEach((mipmap, i) => {
+        view.setUint32(tableOffset + i * 4, offset, true);
+        view.setUint32(tableOffset + 64 + i * 4, mipmap.length, true);
+        offset += mipmap.length;
+    });
+};
+
+/**
+ * 拼接文件头和各级 mipmap 数据
+ */
+const concatFile = (header: Uint8Array, mipmaps: Uint8Array[]): Uint8Array => {
+    const file = new Uint8Array(header.length + mipmaps.reduce((sum, mipmap) => sum + mipmap.length, 0));
+    file.set(header);
+    let offset = header.length;
+    for (const mipmap of mipmaps) {
+        file.set(mipmap, offset);
+        offset += mipmap.length;
+    }
+    return file;
+};
 
-    // 16: Height
+/**
+ * 复制图像并将 alpha 设为不透明
+ */
+const withoutAlpha = (image: ImageData): ImageData => {
+    const opaque = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+    for (let p = 3; p < opaque.data.length; p += 4) opaque.data[p] = 255;
+    return opaque;
+};
+
+/**
+ * 写入 BLP1 公共文件头
+ *
+ * @param compression - 0 为 JPEG,1 为调色板
+ * @param extraSize - 文件头之后、mipmap 数据之前的字节数(JPEG 头或调色板)
+ */
+const createBlp1Header = (
+    compression: number,
+    options: BlpOptions,
+    width: number,
+    height: number,
+    extraSize: number,
+    mipmaps: Uint8Array[]
+): { header: Uint8Array; view: DataView } => {
+    const header = new Uint8Array(BLP1_HEADER_SIZE + extraSize);
+    const view = new DataView(header.buffer);
+    header.set([0x42, 0x4c, 0x50, 0x31]); // "BLP1"
+    view.setUint32(4, compression, true);
+    view.setUint32(8, options.alphaBits, true);
+    view.setUint32(12, width, true);
     view.setUint32(16, height, true);
+    // extra: 4 为带 alpha 的图像,5 为不带 alpha
+    view.setUint32(20, options.alphaBits > 0 ? 4 : 5, true);
+    view.setUint32(24, mipmaps.length > 1 ? 1 : 0, true);
+    writeMipmapTable(view, 28, header.length, mipmaps);
+    return { header, view };
+};
 
-    // 20: Flags (5 is common for JPEG content)
-    view.setUint32(20, 5, true);
+/**
+ * 编码 BLP1 JPEG
+ *
+ * 各级 JPEG 相同的前缀(量化表、Huffman 表等)作为共享 JPEG 头写入文件头之后
+ */
+const encodeBlp1Jpeg = (levels: ImageData[], options: BlpOptions, quality: number): Uint8Array => {
+    // 不使用 alpha 时写入不透明的 alpha 分量
+    const jpegs = levels.map(level => encodeBgraJpeg(options.alphaBits > 0 ? level : withoutAlpha(level), quality));
+
+    let sharedSize = Math.min(APP_CONFIG.BLP.MAX_JPEG_HEADER_SIZE, ...jpegs.map(jpeg => jpeg.length));
+    for (const jpeg of jpegs) {
+        let i = 0;
+        while (i < sharedSize && jpeg[i] === jpegs[0][i]) i++;
+        sharedSize = i;
+    }
+
+    const mipmaps = jpegs.map(jpeg => jpeg.subarray(sharedSize));
+    const { header, view } = createBlp1Header(0, options, levels[0].width, levels[0].height, 4 + sharedSize, mipmaps);
+    view.setUint32(BLP1_HEADER_SIZE, sharedSize, true);
+    header.set(jpegs[0].subarray(0, sharedSize), BLP1_HEADER_SIZE + 4);
+    return concatFile(header, mipmaps);
+};
+
+/**
+ * 按 alpha 位数打包 alpha 值(低位在前)
+ */
+const packAlpha = (image: ImageData, alphaBits: number): Uint8Array => {
+    const { data } = image;
+    const pixelCount = image.width * image.height;
+    const packed = new Uint8Array(Math.ceil(pixelCount * alphaBits / 8));
+    for (let i = 0; i < pixelCount; i++) {
+        const alpha = data[i * 4 + 3];
+        if (alphaBits === 8) {
+            packed[i] = alpha;
+        } else if (alphaBits === 4) {
+            packed[i >> 1] |= Math.round(alpha / 17) << ((i & 1) * 4);
+        } else if (alphaBits === 1) {
+            packed[i >> 3] |= (alpha >= 128 ? 1 : 0) << (i & 7);
+        }
+    }
+    return packed;
+};
+
+/**
+ * 编码 BLP1 调色板
+ *
+ * 调色板只包含颜色,由第 0 级量化得到,其余各级映射到同一调色板
+ */
+const encodeBlp1Palette = (levels: ImageData[], options: BlpOptions): Uint8Array => {
+    const { palette, indices } = quantizeImage(withoutAlpha(levels[0]), 256, false);
 
-    // 24: PictureSubType (1 = ?) 
-    view.setUint32(24, 1, true);
+    const mipmaps = levels.map((level, i) => {
+        const levelIndices = i === 0 ? indices : mapToPalette(withoutAlpha(level), palette, false);
+        const alpha = packAlpha(level, options.alphaBits);
+        const mipmap = new Uint8Array(levelIndices.length + alpha.length);
+        mipmap.set(levelIndices);
+        mipmap.set(alpha, levelIndices.length);
+        return mipmap;
+    });
 
-    // 28: Mipmap Offsets (16 * 4)
-    // Offset 0 points to our data
-    view.setUint32(28, headerSize, true);
-    // Others 0
+    const { header } = createBlp1Header(1, options, levels[0].width, levels[0].height, 256 * 4, mipmaps);
+    // 调色板按 B G R A 存储
+    for (let i = 0; i < palette.length / 4; i++) {
+        const offset = BLP1_HEADER_SIZE + i * 4;
+        header[offset] = palette[i * 4 + 2];
+        header[offset + 1] = palette[i * 4 + 1];
+        header[offset + 2] = palette[i * 4];
+        header[offset + 3] = 255;
+    }
+    return concatFile(header, mipmaps);
+};
 
-    // 92: Mipmap Lengths (16 * 4)
-    // Length 0 is our data length
-    view.setUint32(92, jpegData.length, true);
-    // Others 0
+/**
+ * 编码 BLP2 DXT
+ */
+const encodeBlp2Dxt = (levels: ImageData[], options: BlpOptions): Uint8Array => {
+    const useDxt5 = options.alphaBits === 8;
+    const mipmaps = levels.map(level => (useDxt5 ? encodeDxt5(level) : encodeDxt1(level, options.alphaBits === 1)));
 
-    // Copy JPEG data
-    buffer.set(jpegData, headerSize);
+    const header = new Uint8Array(BLP2_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    header.set([0x42, 0x4c, 0x50, 0x32]); // "BLP2"
+    view.setUint32(4, 1, true); // 1: 非 JPEG
+    view.setUint8(8, 2); // 编码: 2 = DXT
+    view.setUint8(9, options.alphaBits);
+    view.setUint8(10, useDxt5 ? BLP2_ALPHA_DXT5 : BLP2_ALPHA_DXT1);
+    view.setUint8(11, mipmaps.length > 1 ? 1 : 0);
+    view.setUint32(12, levels[0].width, true);
+    view.setUint32(16, levels[0].height, true);
+    writeMipmapTable(view, 20, header.length, mipmaps);
+    return concatFile(header, mipmaps);
+};
+
+/**
+ * 将图像编码为 BLP
+ *
+ * @param imageData - 图像像素
+ * @param options - BLP 选项
+ * @param quality - JPEG 质量(0-1),仅 jpeg 压缩使用
+ * @returns BLP 文件字节
+ */
+export const encodeBlp = (imageData: ImageData, options: BlpOptions, quality: number): Uint8Array => {
+    const levels = options.mipmaps
+        ? generateMipmaps(imageData, options.mipmapFilter, APP_CONFIG.BLP.MAX_MIPMAPS)
+        : [imageData];
 
-    return buffer;
+    switch (options.compression) {
+        case 'palette':
+            return encodeBlp1Palette(levels, options);
+        case 'dxt':
+            return encodeBlp2Dxt(levels, options);
+        default:
+            return encodeBlp1Jpeg(levels, options, quality);
+    }
 };
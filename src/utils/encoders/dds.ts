@@ -0,0 +1,111 @@
+/**
+ * DDS 贴图编码器
+ *
+ * 块压缩格式:
+ * - bc1: DXT1,RGB + 1 位 alpha,每块 8 字节
+ * - bc3: DXT5,RGB + 8 位插值 alpha,每块 16 字节
+ * - bc7: 模式 6,RGBA 高质量,每块 16 字节(见 encoders/bc7)
+ *
+ * 不带 sRGB 标记的 BC1/BC3 写传统 FourCC 文件头(DXT1/DXT5),兼容性最好;
+ * BC7 和带 sRGB 标记的格式需要在文件头后追加 DX10 扩展头指定 DXGI 格式。
+ */
+
+import { DdsCompression, DdsOptions } from '../../types';
+import { generateMipmaps } from '../mipmaps';
+import { encodeBc7 } from './bc7';
+import { encodeDxt1, encodeDxt5 } from './dxt';
+
+/** 魔数 "DDS " + DDS_HEADER */
+const HEADER_SIZE = 4 + 124;
+
+/** DDS_HEADER_DXT10 大小 */
+const DX10_HEADER_SIZE = 20;
+
+/** DDS_HEADER.dwFlags */
+const DDSD_CAPS = 0x1;
+const DDSD_HEIGHT = 0x2;
+const DDSD_WIDTH = 0x4;
+const DDSD_PIXELFORMAT = 0x1000;
+const DDSD_MIPMAPCOUNT = 0x20000;
+const DDSD_LINEARSIZE = 0x80000;
+
+/** DDS_PIXELFORMAT.dwFlags: 使用 FourCC */
+const DDPF_FOURCC = 0x4;
+
+/** DDS_HEADER.dwCaps */
+const DDSCAPS_COMPLEX = 0x8;
+const DDSCAPS_TEXTURE = 0x1000;
+const DDSCAPS_MIPMAP = 0x400000;
+
+/** D3D10_RESOURCE_DIMENSION_TEXTURE2D */
+const RESOURCE_DIMENSION_TEXTURE2D = 3;
+
+/**
+ * 各压缩格式的块编码函数、传统 FourCC 和 DXGI 格式(UNORM / UNORM_SRGB)
+ */
+const FORMATS: Record<DdsCompression, {
+    encode: (imageData: ImageData) => Uint8Array;
+    fourCC: string | null;
+    dxgiFormat: number;
+    dxgiFormatSrgb: number;
+}> = {
+    bc1: { encode: imageData => encodeDxt1(imageData, true), fourCC: 'DXT1', dxgiFormat: 71, dxgiFormatSrgb: 72 },
+    bc3: { encode: encodeDxt5, fourCC: 'DXT5', dxgiFormat: 77, dxgiFormatSrgb: 78 },
+    bc7: { encode: encodeBc7, fourCC: null, dxgiFormat: 98, dxgiFormatSrgb: 99 },
+};
+
+/**
+ * 将四个 ASCII 字符编码为 32 位 FourCC(小端)
+ */
+const toFourCC = (code: string): number =>
+    code.charCodeAt(0) | (code.charCodeAt(1) << 8) | (code.charCodeAt(2) << 16) | (code.charCodeAt(3) << 24);
+
+/**
+ * 将图像编码为 DDS
+ *
+ * @param imageData - 图像像素
+ * @param options - DDS 选项
+ * @returns DDS 文件字节
+ */
+export const encodeDds = (imageData: ImageData, options: DdsOptions): Uint8Array => {
+    const format = FORMATS[options.compression];
+    // DDS 不限制级数,mipmap 链一直生成到 1×1
+    const levels = options.mipmaps
+        ? generateMipmaps(imageData, options.mipmapFilter, Infinity)
+        : [imageData];
+    const blocks = levels.map(format.encode);
+
+    const useDx10 = format.fourCC === null || options.srgb;
+    const headerSize = HEADER_SIZE + (useDx10 ? DX10_HEADER_SIZE : 0);
+    const file = new Uint8Array(headerSize + blocks.reduce((sum, block) => sum + block.length, 0));
+    const view = new DataView(file.buffer);
+
+    file.set([0x44, 0x44, 0x53, 0x20]); // "DDS "
+    view.setUint32(4, 124, true);
+    view.setUint32(8, DDSD_CAPS | DDSD_HEIGHT | DDSD_WIDTH | DDSD_PIXELFORMAT | DDSD_LINEARSIZE
+        | (levels.length > 1 ? DDSD_MIPMAPCOUNT : 0), true);
+    view.setUint32(12, imageData.height, true);
+    view.setUint32(16, imageData.width, true);
+    view.setUint32(20, blocks[0].length, true); // 第 0 级的数据大小
+    view.setUint32(28, levels.length, true);
+
+    // DDS_PIXELFORMAT
+    view.setUint32(76, 32, true);
+    view.setUint32(80, DDPF_FOURCC, true);
+    view.setUint32(84, toFourCC(useDx10 ? 'DX10' : format.fourCC!), true);
+
+    view.setUint32(108, DDSCAPS_TEXTURE | (levels.length > 1 ? DDSCAPS_COMPLEX | DDSCAPS_MIPMAP : 0), true);
+
+    if (useDx10) {
+        view.setUint32(HEADER_SIZE, options.srgb ? format.dxgiFormatSrgb : format.dxgiFormat, true);
+        view.setUint32(HEADER_SIZE + 4, RESOURCE_DIMENSION_TEXTURE2D, true);
+        view.setUint32(HEADER_SIZE + 12, 1, true); // arraySize
+    }
+
+    let offset = headerSize;
+    for (const block of blocks) {
+        file.set(block, offset);
+        offset += block.length;
+    }
+    return file;
+};
@@ -0,0 +1,336 @@
+/**
+ * DXT(S3TC)块压缩编码器
+ *
+ * 将图像按 4×4 像素分块压缩: DXT1(BC1)每块 8 字节,可带 1 位 alpha;
+ * DXT5(BC3)每块 16 字节,8 位 alpha 单独插值编码。
+ * 颜色端点取块内颜色主轴(协方差幂迭代)上的投影范围,再用最小二乘拟合一次,
+ * 不足 4 像素的边缘块重复边缘像素。
+ */
+
+/** 1 位 alpha 模式下视为透明的 alpha 上限 */
+const ALPHA_THRESHOLD = 128;
+
+/**
+ * 读取 4×4 块的 RGBA 像素(64 字节),越界像素取边缘像素
+ */
+const readBlock = (imageData: ImageData, blockX: number, blockY: number, out: Uint8Array) => {
+    const { width, height, data } = imageData;
+    for (let y = 0; y < 4; y++) {
+        const row = Math.min(height - 1, blockY + y) * width;
+        for (let x = 0; x < 4; x++) {
+            const p = (row + Math.min(width - 1, blockX + x)) * 4;
+            out.set(data.subarray(p, p + 4), (y * 4 + x) * 4);
+        }
+    }
+};
+
+/**
+ * RGB888 → RGB565
+ */
+const toRgb565 = (r: number, g: number, b: number): number =>
+    ((Math.round(Math.min(255, Math.max(0, r)) * 31 / 255) << 11)
+        | (Math.round(Math.min(255, Math.max(0, g)) * 63 / 255) << 5)
+        | Math.round(Math.min(255, Math.max(0, b)) * 31 / 255));
+
+/**
+ * RGB565 → RGB888
+ */
+const fromRgb565 = (color: number): [number, number, number] => {
+    const r = (color >> 11) & 31;
+    const g = (color >> 5) & 63;
+    const b = color & 31;
+    return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2)];
+};
+
+/**
+ * 计算颜色端点: 沿主轴取投影最小和最大的颜色
+ *
+ * @param pixels - 块像素
+ * @param used - 参与计算的像素(1 位 alpha 模式下排除透明像素)
+ * @returns 两个 RGB 端点(浮点)
+ */
+const findEndpoints = (pixels: Uint8Array, used: boolean[]): [number[], number[]] => {
+    const mean = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < 16; i++) {
+        if (!used[i]) continue;
+        for (let c = 0; c < 3; c++) mean[c] += pixels[i * 4 + c];
+        count++;
+    }
+    for (let c = 0; c < 3; c++) mean[c] /= count;
+
+    // 协方差矩阵(对称,按 rr rg rb gg gb bb 存储)
+    const cov = [0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < 16; i++) {
+        if (!used[i]) continue;
+        const r = pixels[i * 4] - mean[0];
+        const g = pixels[i * 4 + 1] - mean[1];
+        const b = pixels[i * 4 + 2] - mean[2];
+        cov[0] += r * r; cov[1] += r * g; cov[2] += r * b;
+        cov[3] += g * g; cov[4] += g * b; cov[5] += b * b;
+    }
+
+    // 幂迭代求主轴
+    let axis = [1, 1, 1];
+    for (let iteration = 0; iteration < 8; iteration++) {
+        const next = [
+            cov[0] * axis[0] + cov[1] * axis[1] + cov[2] * axis[2],
+            cov[1] * axis[0] + cov[3] * axis[1] + cov[4] * axis[2],
+            cov[2] * axis[0] + cov[4] * axis[1] + cov[5] * axis[2],
+        ];
+        const length = Math.hypot(next[0], next[1], next[2]);
+        if (length < 1e-6) break;
+        axis = next.map(value => value / length);
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < 16; i++) {
+        if (!used[i]) continue;
+        const t = (pixels[i * 4] - mean[0]) * axis[0] + (pixels[i * 4 + 1] - mean[1]) * axis[1] + (pixels[i * 4 + 2] - mean[2]) * axis[2];
+        if (t < min) min = t;
+        if (t > max) max = t;
+    }
+    return [
+        mean.map((value, c) => value + axis[c] * max),
+        mean.map((value, c) => value + axis[c] * min),
+    ];
+};
+
+/**
+ * 由两个 565 端点生成调色板(4 色模式或 3 色 + 透明模式)
+ */
+const buildPalette = (color0: number, color1: number, threeColor: boolean): number[][] => {
+    const c0 = fromRgb565(color0);
+    const c1 = fromRgb565(color1);
+    if (threeColor) {
+        return [c0, c1, c0.map((value, c) => (value + c1[c]) / 2)];
+    }
+    return [
+        c0,
+        c1,
+        c0.map((value, c) => (value * 2 + c1[c]) / 3),
+        c0.map((value, c) => (value + c1[c] * 2) / 3),
+    ];
+};
+
+/**
+ * 为每个像素选择最近的调色板颜色
+ *
+ * @returns 每个像素的索引,透明像素为 3
+ */
+const assignIndices = (pixels: Uint8Array, used: boolean[], palette: number[][]): number[] => {
+    const indices: number[] = [];
+    for (let i = 0; i < 16; i++) {
+        if (!used[i]) {
+            indices.push(3);
+            continue;
+        }
+        let best = 0;
+        let bestDistance = Infinity;
+        palette.forEach((color, index) => {
+            const dr = color[0] - pixels[i * 4];
+            const dg = color[1] - pixels[i * 4 + 1];
+            const db = color[2] - pixels[i * 4 + 2];
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = index;
+            }
+        });
+        indices.push(best);
+    }
+    return indices;
+};
+
+/**
+ * 已知各像素在两端点间的插值权重时,用最小二乘求端点
+ *
+ * @returns 两个 RGB 端点,方程退化时返回 null
+ */
+const fitEndpoints = (pixels: Uint8Array, used: boolean[], weights: number[]): [number[], number[]] | null => {
+    let aa = 0;
+    let bb = 0;
+    let ab = 0;
+    const ax = [0, 0, 0];
+    const bx = [0, 0, 0];
+    for (let i = 0; i < 16; i++) {
+        if (!used[i]) continue;
+        const b = weights[i];
+        const a = 1 - b;
+        aa += a * a;
+        bb += b * b;
+        ab += a * b;
+        for (let c = 0; c < 3; c++) {
+            ax[c] += a * pixels[i * 4 + c];
+            bx[c] += b * pixels[i * 4 + c];
+        }
+    }
+    const det = aa * bb - ab * ab;
+    if (Math.abs(det) < 1e-6) return null;
+    return [
+        ax.map((value, c) => (value * bb - bx[c] * ab) / det),
+        ax.map((value, c) => (bx[c] * aa - value * ab) / det),
+    ];
+};
+
+/** 4 色模式下各索引在两端点间的权重(相对 color0 → color1) */
+const FOUR_COLOR_WEIGHTS = [0, 1, 1 / 3, 2 / 3];
+/** 3 色模式下各索引的权重 */
+const THREE_COLOR_WEIGHTS = [0, 1, 1 / 2, 0];
+
+/**
+ * 压缩一个颜色块(8 字节)
+ *
+ * @param pixels - 块像素
+ * @param punchThrough - 是否把 alpha 小于阈值的像素编码为透明(仅 DXT1)
+ * @param out - 输出缓冲
+ * @param offset - 写入位置
+ */
+const encodeColorBlock = (pixels: Uint8Array, punchThrough: boolean, out: Uint8Array, offset: number) => {
+    const used = Array.from({ length: 16 }, (_, i) => !punchThrough || pixels[i * 4 + 3] >= ALPHA_THRESHOLD);
+    const threeColor = used.includes(false);
+    const view = new DataView(out.buffer, out.byteOffset + offset, 8);
+
+    if (!used.includes(true)) {
+        // 全透明: 3 色模式,所有索引为 3
+        view.setUint16(0, 0, true);
+        view.setUint16(2, 0, true);
+        view.setUint32(4, 0xffffffff, true);
+        return;
+    }
+
+    const encode = (end0: number[], end1: number[]) => {
+        let color0 = toRgb565(end0[0], end0[1], end0[2]);
+        let color1 = toRgb565(end1[0], end1[1], end1[2]);
+        // 4 色模式要求 color0 > color1,3 色模式要求 color0 <= color1
+        if (threeColor ? color0 > color1 : color0 < color1) [color0, color1] = [color1, color0];
+        const palette = buildPalette(color0, color1, threeColor);
+        const indices = color0 === color1 && !threeColor
+            ? used.map(() => 0)
+            : assignIndices(pixels, used, palette);
+
+        let error = 0;
+        for (let i = 0; i < 16; i++) {
+            if (!used[i]) continue;
+            const color = palette[indices[i]];
+            for (let c = 0; c < 3; c++) error += (color[c] - pixels[i * 4 + c]) ** 2;
+        }
+        return { color0, color1, indices, error };
+    };
+
+    const [start, end] = findEndpoints(pixels, used);
+    let best = encode(start, end);
+
+    // 按当前索引做一次最小二乘拟合,误差更小时采用
+    const weights = threeColor ? THREE_COLOR_WEIGHTS : FOUR_COLOR_WEIGHTS;
+    const fitted = fitEndpoints(pixels, used, best.indices.map(index => weights[index]));
+    if (fitted) {
+        const refined = encode(fitted[0], fitted[1]);
+        if (refined.error < best.error) best = refined;
+    }
+
+    view.setUint16(0, best.color0, true);
+    view.setUint16(2, best.color1, true);
+    let bits = 0;
+    for (let i = 15; i >= 0; i--) bits = (bits * 4) + best.indices[i];
+    view.setUint32(4, bits, true);
+};
+
+/**
+ * 压缩一个 alpha 块(8 字节,DXT5 的 8 值插值模式)
+ */
+const encodeAlphaBlock = (pixels: Uint8Array, out: Uint8Array, offset: number) => {
+    let min = 255;
+    let max = 0;
+    for (let i = 0; i < 16; i++) {
+        const alpha = pixels[i * 4 + 3];
+        if (alpha < min) min = alpha;
+        if (alpha > max) max = alpha;
+    }
+
+    out[offset] = max;
+    out[offset + 1] = min;
+    // 8 值模式(alpha0 > alpha1): 索引 0、1 为端点,2-7 为由 alpha0 到 alpha1 的插值
+    const palette = [max, min];
+    for (let k = 1; k <= 6; k++) palette.push(((7 - k) * max + k * min) / 7);
+
+    // 48 位索引,每像素 3 位,低位在前
+    let low = 0;
+    let high = 0;
+    for (let i = 0; i < 16; i++) {
+        let index = 0;
+        if (max !== min) {
+            let bestDistance = Infinity;
+            palette.forEach((value, k) => {
+                const distance = Math.abs(value - pixels[i * 4 + 3]);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    index = k;
+                }
+            });
+        }
+        // 24 是 3 的倍数,单个索引不会跨越两半
+        if (i < 8) low |= index << (i * 3);
+        else high |= index << ((i - 8) * 3);
+    }
+    for (let k = 0; k < 3; k++) {
+        out[offset + 2 + k] = (low >> (k * 8)) & 0xff;
+        out[offset + 5 + k] = (high >> (k * 8)) & 0xff;
+    }
+};
+
+/**
+ * 按块遍历图像(BC7 编码器复用)
+ *
+ * @param callback - 接收块像素(64 字节 RGBA,回调之间复用同一缓冲)和块序号
+ */
+export const forEachBlock = (imageData: ImageData, callback: (pixels: Uint8Array, blockIndex: number) => void) => {
+    const pixels = new Uint8Array(64);
+    const blocksX = Math.ceil(imageData.width / 4);
+    const blocksY = Math.ceil(imageData.height / 4);
+    for (let by = 0; by < blocksY; by++) {
+        for (let bx = 0; bx < blocksX; bx++) {
+            readBlock(imageData, bx * 4, by * 4, pixels);
+            callback(pixels, by * blocksX + bx);
+        }
+    }
+};
+
+/**
+ * 压缩后的数据大小
+ *
+ * @param width - 图像宽度
+ * @param height - 图像高度
+ * @param blockSize - 每块字节数(DXT1 为 8,DXT5 为 16)
+ */
+export const getDxtDataSize = (width: number, height: number, blockSize: number): number =>
+    Math.ceil(width / 4) * Math.ceil(height / 4) * blockSize;
+
+/**
+ * DXT1(BC1)压缩
+ *
+ * @param imageData - 图像像素
+ * @param alpha - 是否保留 1 位 alpha(alpha < 128 的像素编码为透明)
+ * @returns 压缩后的块数据
+ */
+export const encodeDxt1 = (imageData: ImageData, alpha: boolean): Uint8Array => {
+    const out = new Uint8Array(getDxtDataSize(imageData.width, imageData.height, 8));
+    forEachBlock(imageData, (pixels, index) => encodeColorBlock(pixels, alpha, out, index * 8));
+    return out;
+};
+
+/**
+ * DXT5(BC3)压缩
+ *
+ * @param imageData - 图像像素
+ * @returns 压缩后的块数据
+ */
+export const encodeDxt5 = (imageData: ImageData): Uint8Array => {
+    const out = new Uint8Array(getDxtDataSize(imageData.width, imageData.height, 16));
+    forEachBlock(imageData, (pixels, index) => {
+        encodeAlphaBlock(pixels, out, index * 16);
+        encodeColorBlock(pixels, false, out, index * 16 + 8);
+    });
+    return out;
+};
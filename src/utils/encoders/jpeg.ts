@@ -0,0 +1,299 @@
+/**
+ * 四分量基线 JPEG 编码器
+ *
+ * BLP1 的 JPEG 内容按 B G R A 四个分量直接存储,不做 YCbCr 颜色变换(Adobe APP14 transform = 0),
+ * 浏览器的 JPEG 编码器无法输出这种格式,因此在此实现。
+ * 所有分量使用 1×1 采样、同一张亮度量化表和标准 Huffman 表。
+ */
+
+/** Z 字形扫描顺序: 第 k 个系数在 8×8 块中的位置 */
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** 标准亮度量化表(自然顺序) */
+const LUMINANCE_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+/** 标准亮度 DC Huffman 表: 各码长的码字数和符号 */
+const DC_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+/** 标准亮度 AC Huffman 表 */
+const AC_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_VALUES = [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+];
+
+/** 分量在 RGBA 像素中的通道,按 B G R A 顺序写入 */
+const COMPONENT_CHANNELS = [2, 1, 0, 3];
+
+/**
+ * Huffman 码表: 符号 → [码字, 码长]
+ */
+type HuffmanTable = Map<number, [number, number]>;
+
+/**
+ * 由各码长的码字数和符号生成规范 Huffman 码表
+ */
+const buildHuffmanTable = (bits: number[], values: number[]): HuffmanTable => {
+    const table: HuffmanTable = new Map();
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < bits[length - 1]; i++) {
+            table.set(values[k++], [code++, length]);
+        }
+        code <<= 1;
+    }
+    return table;
+};
+
+const DC_TABLE = buildHuffmanTable(DC_BITS, DC_VALUES);
+const AC_TABLE = buildHuffmanTable(AC_BITS, AC_VALUES);
+
+/** DCT 余弦表: COSINES[x * 8 + u] = C(u) / 2 · cos((2x + 1)uπ / 16) */
+const COSINES = (() => {
+    const table = new Float64Array(64);
+    for (let x = 0; x < 8; x++) {
+        for (let u = 0; u < 8; u++) {
+            const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+            table[x * 8 + u] = scale * Math.cos((2 * x + 1) * u * Math.PI / 16);
+        }
+    }
+    return table;
+})();
+
+/**
+ * 按质量(0-1)缩放量化表,算法与 IJG libjpeg 相同
+ */
+const scaleQuantization = (quality: number): Uint8Array => {
+    const q = Math.min(100, Math.max(1, Math.round(quality * 100)));
+    const scale = q < 50 ? 5000 / q : 200 - q * 2;
+    return Uint8Array.from(LUMINANCE_QUANTIZATION, value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+};
+
+/**
+ * 字节输出和熵编码的位输出
+ */
+const createWriter = () => {
+    let buffer = new Uint8Array(4096);
+    let length = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const writeByte = (value: number) => {
+        if (length === buffer.length) {
+            const grown = new Uint8Array(buffer.length * 2);
+            grown.set(buffer);
+            buffer = grown;
+        }
+        buffer[length++] = value;
+    };
+
+    /** 写入熵编码数据,0xFF 之后补 0x00 */
+    const writeBits = (value: number, count: number) => {
+        for (let i = count - 1; i >= 0; i--) {
+            bitBuffer = (bitBuffer << 1) | ((value >> i) & 1);
+            if (++bitCount === 8) {
+                writeByte(bitBuffer);
+                if (bitBuffer === 0xff) writeByte(0);
+                bitBuffer = 0;
+                bitCount = 0;
+            }
+        }
+    };
+
+    return {
+        writeByte,
+        writeWord: (value: number) => {
+            writeByte(value >> 8);
+            writeByte(value & 0xff);
+        },
+        writeBytes: (values: ArrayLike<number>) => {
+            for (let i = 0; i < values.length; i++) writeByte(values[i]);
+        },
+        writeBits,
+        /** 用 1 填满最后一个字节 */
+        flushBits: () => {
+            if (bitCount > 0) writeBits((1 << (8 - bitCount)) - 1, 8 - bitCount);
+        },
+        result: () => buffer.slice(0, length),
+    };
+};
+
+type JpegWriter = ReturnType<typeof createWriter>;
+
+/**
+ * 系数的位数类别和附加位(负数取反码)
+ */
+const categorize = (value: number): [number, number] => {
+    const magnitude = Math.abs(value);
+    let category = 0;
+    while (magnitude >> category) category++;
+    return [category, value < 0 ? value + (1 << category) - 1 : value];
+};
+
+/**
+ * 编码一个 8×8 块,返回该块的 DC 值供下一块求差分
+ */
+const encodeBlock = (
+    writer: JpegWriter,
+    samples: Float64Array,
+    quantization: Uint8Array,
+    previousDc: number
+): number => {
+    // 二维 DCT(先行后列)
+    const rows = new Float64Array(64);
+    for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let x = 0; x < 8; x++) sum += samples[y * 8 + x] * COSINES[x * 8 + u];
+            rows[y * 8 + u] = sum;
+        }
+    }
+    const coefficients = new Int32Array(64);
+    for (let u = 0; u < 8; u++) {
+        for (let v = 0; v < 8; v++) {
+            let sum = 0;
+            for (let y = 0; y < 8; y++) sum += rows[y * 8 + u] * COSINES[y * 8 + v];
+            const index = v * 8 + u;
+            coefficients[index] = Math.round(sum / quantization[index]);
+        }
+    }
+
+    // DC 差分
+    const dc = coefficients[0];
+    const [dcCategory, dcBits] = categorize(dc - previousDc);
+    const [dcCode, dcLength] = DC_TABLE.get(dcCategory)!;
+    writer.writeBits(dcCode, dcLength);
+    if (dcCategory > 0) writer.writeBits(dcBits, dcCategory);
+
+    // AC 游程编码
+    let zeros = 0;
+    for (let k = 1; k < 64; k++) {
+        const value = coefficients[ZIGZAG[k]];
+        if (value === 0) {
+            zeros++;
+            continue;
+        }
+        while (zeros > 15) {
+            const [code, length] = AC_TABLE.get(0xf0)!;
+            writer.writeBits(code, length);
+            zeros -= 16;
+        }
+        const [category, bits] = categorize(value);
+        const [code, length] = AC_TABLE.get((zeros << 4) | category)!;
+        writer.writeBits(code, length);
+        writer.writeBits(bits, category);
+        zeros = 0;
+    }
+    if (zeros > 0) {
+        const [code, length] = AC_TABLE.get(0x00)!;
+        writer.writeBits(code, length);
+    }
+    return dc;
+};
+
+/**
+ * 将 RGBA 图像编码为 B G R A 四分量基线 JPEG
+ *
+ * 标记顺序为 SOI、APP14、DQT、DHT、SOF0、SOS,与尺寸无关的部分都在 SOF0 之前,
+ * 便于 BLP 在多个 mipmap 之间共享 JPEG 头。
+ *
+ * @param imageData - 图像像素
+ * @param quality - 质量(0-1)
+ * @returns JPEG 文件字节
+ */
+export const encodeBgraJpeg = (imageData: ImageData, quality: number): Uint8Array => {
+    const { width, height, data } = imageData;
+    const quantization = scaleQuantization(quality);
+    const writer = createWriter();
+
+    // SOI
+    writer.writeWord(0xffd8);
+
+    // APP14 Adobe: 不做颜色变换
+    writer.writeWord(0xffee);
+    writer.writeWord(14);
+    writer.writeBytes([0x41, 0x64, 0x6f, 0x62, 0x65]);
+    writer.writeWord(100);
+    writer.writeWord(0);
+    writer.writeWord(0);
+    writer.writeByte(0);
+
+    // DQT
+    writer.writeWord(0xffdb);
+    writer.writeWord(67);
+    writer.writeByte(0);
+    for (let k = 0; k < 64; k++) writer.writeByte(quantization[ZIGZAG[k]]);
+
+    // DHT: DC 表 0 和 AC 表 0
+    writer.writeWord(0xffc4);
+    writer.writeWord(2 + 17 + DC_VALUES.length + 17 + AC_VALUES.length);
+    writer.writeByte(0x00);
+    writer.writeBytes(DC_BITS);
+    writer.writeBytes(DC_VALUES);
+    writer.writeByte(0x10);
+    writer.writeBytes(AC_BITS);
+    writer.writeBytes(AC_VALUES);
+
+    // SOF0
+    writer.writeWord(0xffc0);
+    writer.writeWord(8 + COMPONENT_CHANNELS.length * 3);
+    writer.writeByte(8);
+    writer.writeWord(height);
+    writer.writeWord(width);
+    writer.writeByte(COMPONENT_CHANNELS.length);
+    COMPONENT_CHANNELS.forEach((_, i) => writer.writeBytes([i + 1, 0x11, 0]));
+
+    // SOS
+    writer.writeWord(0xffda);
+    writer.writeWord(6 + COMPONENT_CHANNELS.length * 2);
+    writer.writeByte(COMPONENT_CHANNELS.length);
+    COMPONENT_CHANNELS.forEach((_, i) => writer.writeBytes([i + 1, 0x00]));
+    writer.writeBytes([0, 63, 0]);
+
+    // 交错的 MCU: 每个分量一个 8×8 块,越界像素取边缘像素
+    const samples = new Float64Array(64);
+    const previousDc = COMPONENT_CHANNELS.map(() => 0);
+    for (let blockY = 0; blockY < height; blockY += 8) {
+        for (let blockX = 0; blockX < width; blockX += 8) {
+            COMPONENT_CHANNELS.forEach((channel, component) => {
+                for (let y = 0; y < 8; y++) {
+                    const row = Math.min(height - 1, blockY + y) * width;
+                    for (let x = 0; x < 8; x++) {
+                        samples[y * 8 + x] = data[(row + Math.min(width - 1, blockX + x)) * 4 + channel] - 128;
+                    }
+                }
+                previousDc[component] = encodeBlock(writer, samples, quantization, previousDc[component]);
+            });
+        }
+    }
+    writer.flushBits();
+
+    // EOI
+    writer.writeWord(0xffd9);
+    return writer.result();
+};
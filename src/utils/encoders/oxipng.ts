@@ -0,0 +1,21 @@
+/**
+ * PNG 无损优化器
+ *
+ * 使用 @jsquash/oxipng(oxipng 的 WebAssembly 版本)重新选择过滤器并重新压缩,
+ * 颜色不超过 256 种时自动转为调色板图像。编码模块在首次使用时按需加载。
+ */
+
+/**
+ * 无损重新压缩 PNG
+ *
+ * @param png - PNG 文件字节
+ * @param level - 优化级别(1-6,越大越慢、体积越小)
+ * @returns Promise,resolve 时返回优化后的文件字节
+ */
+export const optimizePngLossless = async (png: Uint8Array, level: number): Promise<Uint8Array> => {
+    const { default: optimise } = await import('@jsquash/oxipng/optimise.js');
+    const input = png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) as ArrayBuffer;
+    // optimiseAlpha 允许改写完全透明像素的 RGB,显示效果不变
+    const buffer = await optimise(input, { level, interlace: false, optimiseAlpha: true });
+    return new Uint8Array(buffer);
+};
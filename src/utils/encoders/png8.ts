@@ -0,0 +1,111 @@
+/**
+ * PNG-8 编码器
+ *
+ * 将调色板索引图像编码为 8 位调色板 PNG(PLTE + tRNS,支持半透明),
+ * 图像数据使用 CompressionStream('deflate')(zlib 格式)压缩,不做过滤。
+ */
+
+/** PNG 文件签名 */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** CRC32 查找表 */
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * 生成一个 PNG 数据块(长度 + 类型 + 数据 + CRC)
+ */
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+/**
+ * zlib 压缩
+ */
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * 编码调色板 PNG
+ *
+ * @param indices - 每个像素的调色板索引(逐行,width * height 个)
+ * @param palette - 调色板 RGBA(每种颜色 4 字节,最多 256 种)
+ * @param width - 图像宽度
+ * @param height - 图像高度
+ * @returns Promise,resolve 时返回文件字节
+ */
+export const encodeIndexedPng = async (
+    indices: Uint8Array,
+    palette: Uint8Array,
+    width: number,
+    height: number
+): Promise<Uint8Array> => {
+    const colorCount = palette.length / 4;
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8; // 位深
+    header[9] = 3; // 颜色类型: 调色板
+
+    const plte = new Uint8Array(colorCount * 3);
+    let transparentCount = 0;
+    for (let i = 0; i < colorCount; i++) {
+        plte[i * 3] = palette[i * 4];
+        plte[i * 3 + 1] = palette[i * 4 + 1];
+        plte[i * 3 + 2] = palette[i * 4 + 2];
+        if (palette[i * 4 + 3] < 255) transparentCount = i + 1;
+    }
+    // tRNS 只需写到最后一个非不透明的颜色
+    const trns = new Uint8Array(transparentCount);
+    for (let i = 0; i < transparentCount; i++) trns[i] = palette[i * 4 + 3];
+
+    // 每行前加过滤类型字节 0(None)
+    const raw = new Uint8Array((width + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+    }
+
+    const chunks = [
+        Uint8Array.from(PNG_SIGNATURE),
+        createChunk('IHDR', header),
+        createChunk('PLTE', plte),
+        ...(transparentCount > 0 ? [createChunk('tRNS', trns)] : []),
+        createChunk('IDAT', await deflate(raw)),
+        createChunk('IEND', new Uint8Array(0)),
+    ];
+
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
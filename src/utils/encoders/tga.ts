@@ -1,35 +1,162 @@
-export const encodeTga = (imageData: ImageData): Uint8Array => {
+/**
+ * TGA 编码器
+ *
+ * 写入真彩色图像: 32 位 B G R A 或 24 位 B G R,可选 RLE 压缩(类型 10)、左下原点和预乘 alpha。
+ * 开启文件尾时追加 TGA 2.0 扩展区和文件尾,扩展区的属性类型字段记录 alpha 是否预乘,
+ * 供读取方区分直通 alpha 和预乘 alpha。
+ */
+
+import { TgaOptions } from '../../types';
+
+/** 文件头大小 */
+const HEADER_SIZE = 18;
+
+/** 宽高字段为 16 位,图像尺寸上限 */
+const MAX_DIMENSION = 0xffff;
+
+/** TGA 2.0 扩展区大小 */
+const EXTENSION_SIZE = 495;
+
+/** 扩展区中属性类型字段的位置 */
+const EXTENSION_ATTRIBUTES_OFFSET = 494;
+
+/** 扩展区属性类型: 无 alpha / 直通 alpha / 预乘 alpha */
+const ATTRIBUTES_NO_ALPHA = 0;
+const ATTRIBUTES_ALPHA = 3;
+const ATTRIBUTES_PREMULTIPLIED = 4;
+
+/** TGA 2.0 文件尾签名 */
+const FOOTER_SIGNATURE = 'TRUEVISION-XFILE.\0';
+
+/** 每个 RLE 包最多的像素数 */
+const MAX_PACKET_PIXELS = 128;
+
+/**
+ * 按像素深度转换一行像素(RGBA → BGRA / BGR)
+ */
+const convertRow = (data: Uint8ClampedArray, rowStart: number, width: number, options: TgaOptions): Uint8Array => {
+    const bytesPerPixel = options.bitDepth / 8;
+    const row = new Uint8Array(width * bytesPerPixel);
+    for (let x = 0; x < width; x++) {
+        const p = rowStart + x * 4;
+        const alpha = data[p + 3];
+        const scale = options.bitDepth === 32 && options.premultiplied ? alpha / 255 : 1;
+        const out = x * bytesPerPixel;
+        row[out] = Math.round(data[p + 2] * scale);
+        row[out + 1] = Math.round(data[p + 1] * scale);
+        row[out + 2] = Math.round(data[p] * scale);
+        if (bytesPerPixel === 4) row[out + 3] = alpha;
+    }
+    return row;
+};
+
+/**
+ * 比较一行中两个像素是否相同
+ */
+const samePixel = (row: Uint8Array, a: number, b: number, bytesPerPixel: number): boolean => {
+    for (let c = 0; c < bytesPerPixel; c++) {
+        if (row[a * bytesPerPixel + c] !== row[b * bytesPerPixel + c]) return false;
+    }
+    return true;
+};
+
+/**
+ * RLE 压缩一行像素,数据包不跨行(TGA 2.0 要求)
+ *
+ * 连续 2 个以上相同像素写为重复包,其余写为原始包
+ */
+const encodeRleRow = (row: Uint8Array, width: number, bytesPerPixel: number): Uint8Array => {
+    // 最坏情况每个像素单独成包
+    const out = new Uint8Array(width * (bytesPerPixel + 1));
+    let offset = 0;
+    let x = 0;
+    while (x < width) {
+        let run = 1;
+        while (x + run < width && run < MAX_PACKET_PIXELS && samePixel(row, x, x + run, bytesPerPixel)) run++;
+
+        if (run > 1) {
+            out[offset++] = 0x80 | (run - 1);
+            out.set(row.subarray(x * bytesPerPixel, (x + 1) * bytesPerPixel), offset);
+            offset += bytesPerPixel;
+            x += run;
+            continue;
+        }
+
+        // 原始包延伸到下一段重复像素之前
+        let count = 1;
+        while (x + count < width && count < MAX_PACKET_PIXELS
+            && !(x + count + 1 < width && samePixel(row, x + count, x + count + 1, bytesPerPixel))) {
+            count++;
+        }
+        out[offset++] = count - 1;
+        out.set(row.subarray(x * bytesPerPixel, (x + count) * bytesPerPixel), offset);
+        offset += count * bytesPerPixel;
+        x += count;
+    }
+    return out.slice(0, offset);
+};
+
+/**
+ * 生成 TGA 2.0 扩展区和文件尾
+ *
+ * @param extensionOffset - 扩展区在文件中的位置
+ */
+const createFooter = (extensionOffset: number, options: TgaOptions): Uint8Array => {
+    const footer = new Uint8Array(EXTENSION_SIZE + 8 + FOOTER_SIGNATURE.length);
+    const view = new DataView(footer.buffer);
+    view.setUint16(0, EXTENSION_SIZE, true);
+    footer[EXTENSION_ATTRIBUTES_OFFSET] = options.bitDepth === 24
+        ? ATTRIBUTES_NO_ALPHA
+        : options.premultiplied ? ATTRIBUTES_PREMULTIPLIED : ATTRIBUTES_ALPHA;
+
+    // 文件尾: 扩展区偏移、开发者目录偏移(无)、签名
+    view.setUint32(EXTENSION_SIZE, extensionOffset, true);
+    view.setUint32(EXTENSION_SIZE + 4, 0, true);
+    for (let i = 0; i < FOOTER_SIGNATURE.length; i++) footer[EXTENSION_SIZE + 8 + i] = FOOTER_SIGNATURE.charCodeAt(i);
+    return footer;
+};
+
+/**
+ * 将图像编码为 TGA
+ *
+ * @param imageData - 图像像素
+ * @param options - TGA 选项
+ * @returns TGA 文件字节
+ * @throws 宽或高超过 65535 像素时
+ */
+export const encodeTga = (imageData: ImageData, options: TgaOptions): Uint8Array => {
     const { width, height, data } = imageData;
-    const buffer = new Uint8Array(18 + width * height * 4);
-    const view = new DataView(buffer.buffer);
-
-    // Header
-    view.setUint8(0, 0); // ID length
-    view.setUint8(1, 0); // Color map type
-    view.setUint8(2, 2); // Image type (Uncompressed True-Color)
-    view.setUint16(3, 0, true); // Color map start
-    view.setUint16(5, 0, true); // Color map length
-    view.setUint8(7, 0); // Color map depth
-    view.setUint16(8, 0, true); // X origin
-    view.setUint16(10, 0, true); // Y origin
-    view.setUint16(12, width, true); // Width
-    view.setUint16(14, height, true); // Height
-    view.setUint8(16, 32); // Pixel depth (32 bits)
-    view.setUint8(17, 8 | 0x20); // Descriptor (8 bits alpha, top-to-bottom)
-
-    // Pixel data (BGRA)
-    let offset = 18;
-    for (let i = 0; i < width * height; i++) {
-        const r = data[i * 4];
-        const g = data[i * 4 + 1];
-        const b = data[i * 4 + 2];
-        const a = data[i * 4 + 3];
-
-        buffer[offset++] = b;
-        buffer[offset++] = g;
-        buffer[offset++] = r;
-        buffer[offset++] = a;
+    if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+        throw new Error(`TGA 图像的宽高不能超过 ${MAX_DIMENSION} 像素(当前 ${width}×${height})`);
     }
 
+    const bytesPerPixel = options.bitDepth / 8;
+    const topToBottom = options.origin === 'top-left';
+
+    const header = new Uint8Array(HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    view.setUint8(2, options.rle ? 10 : 2); // 图像类型: 10 = RLE 真彩色,2 = 未压缩真彩色
+    view.setUint16(12, width, true);
+    view.setUint16(14, height, true);
+    view.setUint8(16, options.bitDepth);
+    // 描述符: 低 4 位为 alpha 位数,第 5 位为从上到下
+    view.setUint8(17, (options.bitDepth === 32 ? 8 : 0) | (topToBottom ? 0x20 : 0));
+
+    const chunks: Uint8Array[] = [header];
+    for (let i = 0; i < height; i++) {
+        const y = topToBottom ? i : height - 1 - i;
+        const row = convertRow(data, y * width * 4, width, options);
+        chunks.push(options.rle ? encodeRleRow(row, width, bytesPerPixel) : row);
+    }
+
+    const dataSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    if (options.footer) chunks.push(createFooter(dataSize, options));
+
+    const buffer = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        buffer.set(chunk, offset);
+        offset += chunk.length;
+    }
     return buffer;
 };
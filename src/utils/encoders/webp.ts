@@ -0,0 +1,23 @@
+/**
+ * WebP 编码器
+ *
+ * 使用 @jsquash/webp(libwebp 的 WebAssembly 版本),不依赖 WebView 的 canvas 编码支持。
+ * 编码模块在首次使用时按需加载。
+ */
+
+/**
+ * 将像素编码为 WebP(保留 alpha 通道)
+ *
+ * @param imageData - 图像像素
+ * @param quality - 有损压缩质量(0-1),无损时表示压缩力度
+ * @param lossless - 是否无损压缩
+ * @returns Promise,resolve 时返回文件字节
+ */
+export const encodeWebp = async (imageData: ImageData, quality: number, lossless: boolean): Promise<Uint8Array> => {
+    const { default: encode } = await import('@jsquash/webp/encode.js');
+    const buffer = await encode(imageData, {
+        quality: Math.round(quality * 100),
+        lossless: lossless ? 1 : 0,
+    });
+    return new Uint8Array(buffer);
+};
@@ -0,0 +1,454 @@
+/**
+ * 引擎界面布局导出模块
+ *
+ * 根据图层树和导出过程中记录的文件(见 layoutManifest),生成可在游戏引擎中直接还原界面的布局描述:
+ * - 图层组 → 空节点
+ * - 普通图层 → 引用导出图片的精灵节点
+ * - 文字图层 → 文本节点(使用 PSD 中的文本内容、字号、颜色和对齐)
+ *
+ * 只有实际导出了图片的图层才会生成节点;图层组的尺寸取其子节点的包围盒。
+ * 引擎坐标原点位于父节点中心、Y 轴向上,根节点与 PSD 画布同尺寸。
+ */
+
+import { writeFile } from '@tauri-apps/plugin-fs';
+import { APP_CONFIG } from '../config';
+import { EngineLayoutTarget, LayerTreeNode, TextInfo } from '../types';
+import { getLayerOpacity } from './layerUtils';
+import { LayoutManifestBuilder, ManifestFileEntry, ManifestRect } from './layoutManifest';
+
+/** Unity 布局格式版本 */
+export const UNITY_LAYOUT_VERSION = 1;
+
+/**
+ * 与引擎无关的布局节点
+ */
+export interface EngineLayoutNode {
+    /** 节点名称(图层名称) */
+    name: string;
+    /** 节点类型 */
+    kind: 'group' | 'sprite' | 'label';
+    /** 源图层 id */
+    layerId: string;
+    /** 节点在文档中的矩形(原点左上,Y 向下) */
+    rect: ManifestRect;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 精灵引用的图片(相对导出根目录,用 / 分隔) */
+    file?: string;
+    /** 文本信息 */
+    text?: TextInfo;
+    /** 子节点,按绘制顺序自下而上 */
+    children: EngineLayoutNode[];
+}
+
+/**
+ * 由图层树和已导出文件构建布局节点
+ *
+ * 图层组若自身被导出为合成图且没有导出的子图层,则作为精灵节点。
+ *
+ * @param tree - 图层树
+ * @param files - 已导出文件(raw 和 composite 文件不参与布局)
+ * @returns 根层级的节点数组
+ */
+export const buildEngineLayoutNodes = (tree: LayerTreeNode[], files: ManifestFileEntry[]): EngineLayoutNode[] => {
+    const fileByLayer = new Map<string, ManifestFileEntry>();
+    for (const entry of files) {
+        if (entry.kind === 'layer' || entry.kind === 'group') {
+            // 同一图层有多个文件(缩放变体)时优先使用原尺寸的文件
+            if (fileByLayer.get(entry.layerId)?.scale !== 1) {
+                fileByLayer.set(entry.layerId, entry);
+            }
+        }
+    }
+
+    const build = (node: LayerTreeNode): EngineLayoutNode | null => {
+        const entry = fileByLayer.get(node.id);
+
+        if (node.isGroup) {
+            const children = (node.children || [])
+                .map(build)
+                .filter((child): child is EngineLayoutNode => child !== null);
+            if (children.length > 0) {
+                return {
+                    name: node.name,
+                    kind: 'group',
+                    layerId: node.id,
+                    rect: unionRects(children.map(child => child.rect)),
+                    opacity: getLayerOpacity(node),
+                    children,
+                };
+            }
+        }
+
+        if (!entry) return null;
+
+        const text = node.layer?.text;
+        if (text && node.layer) {
+            const { layer } = node;
+            return {
+                name: node.name,
+                kind: 'label',
+                layerId: node.id,
+                rect: { x: layer.left ?? 0, y: layer.top ?? 0, width: layer.width, height: layer.height },
+                opacity: entry.opacity,
+                text,
+                children: [],
+            };
+        }
+
+        return {
+            name: node.name,
+            kind: 'sprite',
+            layerId: node.id,
+            rect: entry.rect,
+            opacity: entry.opacity,
+            file: entry.file,
+            children: [],
+        };
+    };
+
+    return tree.map(build).filter((node): node is EngineLayoutNode => node !== null);
+};
+
+/**
+ * 计算多个矩形的包围盒
+ */
+const unionRects = (rects: ManifestRect[]): ManifestRect => {
+    const left = Math.min(...rects.map(rect => rect.x));
+    const top = Math.min(...rects.map(rect => rect.y));
+    const right = Math.max(...rects.map(rect => rect.x + rect.width));
+    const bottom = Math.max(...rects.map(rect => rect.y + rect.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * 计算节点中心相对父节点中心的位置(Y 向上)
+ */
+const toLocalPosition = (rect: ManifestRect, parent: ManifestRect): { x: number; y: number } => ({
+    x: rect.x + rect.width / 2 - (parent.x + parent.width / 2),
+    y: (parent.y + parent.height / 2) - (rect.y + rect.height / 2),
+});
+
+/**
+ * 解析 #rrggbb 颜色,缺失时为黑色
+ */
+const parseHexColor = (hex: string | null): { r: number; g: number; b: number } => {
+    const value = parseInt((hex ?? '').replace('#', ''), 16) || 0;
+    return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
+
+/** Cocos Creator 3.x UI_2D 层 */
+const COCOS_UI_LAYER = 33554432;
+
+/** Cocos Creator 图片资源中 spriteFrame 子资源的固定 id */
+const COCOS_SPRITE_FRAME_SUB_ID = 'f9941';
+
+/** Cocos Label 水平对齐 */
+const COCOS_ALIGNMENT: Record<TextInfo['alignment'], number> = {
+    left: 0,
+    center: 1,
+    right: 2,
+    justify: 0,
+};
+
+/** Cocos 序列化对象 */
+type CocosObject = Record<string, unknown>;
+
+/**
+ * 生成 Cocos 预制体内的 fileId
+ */
+const createFileId = (): string => crypto.randomUUID().replace(/-/g, '').slice(0, 22);
+
+/**
+ * 生成 Cocos Creator 3.x 预制体
+ *
+ * 精灵引用的图片通过 `uuid@f9941` 指向其 spriteFrame 子资源,uuid 由 imageUuids 提供,
+ * 需要同时为图片写入带相同 uuid 的 .meta 文件(见 buildCocosImageMeta),导入引擎后引用即可生效。
+ *
+ * @param nodes - 布局节点
+ * @param source - 来源文档
+ * @param imageUuids - 图片路径到资源 uuid 的映射
+ * @returns 预制体 JSON 文本
+ */
+export const buildCocosPrefab = (
+    nodes: EngineLayoutNode[],
+    source: LayoutManifestBuilder['source'],
+    imageUuids: Map<string, string>
+): string => {
+    const rootName = source.name.replace(/\.[^.]+$/, '') || 'Layout';
+    const objects: CocosObject[] = [];
+    const ref = (index: number) => ({ __id__: index });
+    const push = (object: CocosObject) => objects.push(object) - 1;
+    const color = (r: number, g: number, b: number, a: number) => ({ __type__: 'cc.Color', r, g, b, a });
+
+    push({
+        __type__: 'cc.Prefab',
+        _name: rootName,
+        _objFlags: 0,
+        _native: '',
+        data: ref(1),
+        optimizationPolicy: 0,
+        persistent: false,
+    });
+
+    const addComponent = (nodeIndex: number, component: CocosObject): number => {
+        const index = push({ _name: '', _objFlags: 0, node: ref(nodeIndex), _enabled: true, ...component });
+        objects[index].__prefab = ref(push({ __type__: 'cc.CompPrefabInfo', fileId: createFileId() }));
+        return index;
+    };
+
+    const addNode = (node: EngineLayoutNode, parentIndex: number | null, parentRect: ManifestRect): number => {
+        const position = parentIndex === null ? { x: 0, y: 0 } : toLocalPosition(node.rect, parentRect);
+        const index = push({
+            __type__: 'cc.Node',
+            _name: node.name,
+            _objFlags: 0,
+            _parent: parentIndex === null ? null : ref(parentIndex),
+            _children: [],
+            _active: true,
+            _components: [],
+            _prefab: null,
+            _lpos: { __type__: 'cc.Vec3', x: position.x, y: position.y, z: 0 },
+            _lrot: { __type__: 'cc.Quat', x: 0, y: 0, z: 0, w: 1 },
+            _lscale: { __type__: 'cc.Vec3', x: 1, y: 1, z: 1 },
+            _layer: COCOS_UI_LAYER,
+            _euler: { __type__: 'cc.Vec3', x: 0, y: 0, z: 0 },
+            _id: '',
+        });
+
+        const components: number[] = [];
+        components.push(addComponent(index, {
+            __type__: 'cc.UITransform',
+            _contentSize: { __type__: 'cc.Size', width: node.rect.width, height: node.rect.height },
+            _anchorPoint: { __type__: 'cc.Vec2', x: 0.5, y: 0.5 },
+        }));
+
+        if (node.kind === 'sprite' && node.file) {
+            const uuid = imageUuids.get(node.file);
+            components.push(addComponent(index, {
+                __type__: 'cc.Sprite',
+                _color: color(255, 255, 255, 255),
+                _spriteFrame: uuid
+                    ? { __uuid__: `${uuid}@${COCOS_SPRITE_FRAME_SUB_ID}`, __expectedType__: 'cc.SpriteFrame' }
+                    : null,
+                _type: 0,
+                _sizeMode: 0,
+                _isTrimmedMode: true,
+            }));
+        } else if (node.kind === 'label' && node.text) {
+            const { text } = node;
+            const { r, g, b } = parseHexColor(text.color);
+            // 没有字号时按文字图层高度估算
+            const fontSize = Math.round(text.fontSize ?? node.rect.height);
+            components.push(addComponent(index, {
+                __type__: 'cc.Label',
+                _color: color(r, g, b, 255),
+                _string: text.text,
+                _horizontalAlign: COCOS_ALIGNMENT[text.alignment],
+                _verticalAlign: 1,
+                _actualFontSize: fontSize,
+                _fontSize: fontSize,
+                _fontFamily: text.fontName || 'Arial',
+                _lineHeight: fontSize,
+                _overflow: 0,
+                _enableWrapText: false,
+                _font: null,
+                _isSystemFontUsed: true,
+            }));
+        }
+
+        if (node.opacity < 1) {
+            components.push(addComponent(index, {
+                __type__: 'cc.UIOpacity',
+                _opacity: Math.round(node.opacity * 255),
+            }));
+        }
+
+        const children = node.children.map(child => addNode(child, index, node.rect));
+
+        objects[index]._children = children.map(ref);
+        objects[index]._components = components.map(ref);
+        objects[index]._prefab = ref(push({
+            __type__: 'cc.PrefabInfo',
+            root: ref(1),
+            asset: ref(0),
+            fileId: createFileId(),
+            instance: null,
+            targetOverrides: null,
+        }));
+        return index;
+    };
+
+    const canvasRect: ManifestRect = { x: 0, y: 0, width: source.width, height: source.height };
+    addNode({
+        name: rootName,
+        kind: 'group',
+        layerId: '',
+        rect: canvasRect,
+        opacity: 1,
+        children: nodes,
+    }, null, canvasRect);
+
+    return JSON.stringify(objects, null, 2);
+};
+
+/**
+ * 生成 Cocos Creator 图片资源的 .meta 文件
+ *
+ * 只包含 uuid 和导入类型,其余字段由编辑器导入时补全
+ *
+ * @param uuid - 资源 uuid
+ * @returns .meta JSON 文本
+ */
+export const buildCocosImageMeta = (uuid: string): string => {
+    return JSON.stringify({
+        ver: '1.0.26',
+        importer: 'image',
+        uuid,
+        subMetas: {},
+        userData: { type: 'sprite-frame' },
+    }, null, 2);
+};
+
+/**
+ * Unity 布局中的节点
+ *
+ * RectTransform 的锚点和轴心固定为中心,anchoredPosition 相对父节点中心(Y 向上)
+ */
+export interface UnityLayoutNode {
+    name: string;
+    /** container: 空 GameObject;image: Image 组件;text: Text 组件 */
+    type: 'container' | 'image' | 'text';
+    anchoredPosition: { x: number; y: number };
+    sizeDelta: { x: number; y: number };
+    /** 不透明度(0-1),container 对应 CanvasGroup.alpha,其余对应颜色的 alpha */
+    alpha: number;
+    /** 图片路径(相对导出根目录,用 / 分隔),type 为 image 时存在 */
+    sprite?: string;
+    /** 文本信息,type 为 text 时存在 */
+    text?: {
+        content: string;
+        /** 字体 PostScript 名称,PSD 中缺失时为 null */
+        font: string | null;
+        fontSize: number;
+        /** 颜色分量(0-1) */
+        color: { r: number; g: number; b: number; a: number };
+        /** UnityEngine.TextAnchor 名称 */
+        alignment: 'MiddleLeft' | 'MiddleCenter' | 'MiddleRight';
+    };
+    /** 子节点,按 sibling 顺序(越靠后越靠上) */
+    children: UnityLayoutNode[];
+}
+
+/**
+ * Unity 布局文件
+ */
+export interface UnityLayout {
+    version: number;
+    /** 来源文档 */
+    source: LayoutManifestBuilder['source'];
+    /** 根节点,尺寸与 PSD 画布相同 */
+    root: UnityLayoutNode;
+}
+
+/** Unity Text 对齐 */
+const UNITY_ALIGNMENT: Record<TextInfo['alignment'], NonNullable<UnityLayoutNode['text']>['alignment']> = {
+    left: 'MiddleLeft',
+    center: 'MiddleCenter',
+    right: 'MiddleRight',
+    justify: 'MiddleLeft',
+};
+
+/**
+ * 生成 Unity UGUI 布局 JSON
+ *
+ * @param nodes - 布局节点
+ * @param source - 来源文档
+ * @returns 布局 JSON 文本
+ */
+export const buildUnityLayout = (nodes: EngineLayoutNode[], source: LayoutManifestBuilder['source']): string => {
+    const convert = (node: EngineLayoutNode, parentRect: ManifestRect): UnityLayoutNode => {
+        const result: UnityLayoutNode = {
+            name: node.name,
+            type: node.kind === 'sprite' ? 'image' : node.kind === 'label' ? 'text' : 'container',
+            anchoredPosition: toLocalPosition(node.rect, parentRect),
+            sizeDelta: { x: node.rect.width, y: node.rect.height },
+            alpha: node.opacity,
+            children: node.children.map(child => convert(child, node.rect)),
+        };
+
+        if (node.file) {
+            result.sprite = node.file;
+        }
+        if (node.text) {
+            const { r, g, b } = parseHexColor(node.text.color);
+            result.text = {
+                content: node.text.text,
+                font: node.text.fontName,
+                fontSize: Math.round(node.text.fontSize ?? node.rect.height),
+                color: { r: r / 255, g: g / 255, b: b / 255, a: 1 },
+                alignment: UNITY_ALIGNMENT[node.text.alignment],
+            };
+        }
+        return result;
+    };
+
+    const canvasRect: ManifestRect = { x: 0, y: 0, width: source.width, height: source.height };
+    const layout: UnityLayout = {
+        version: UNITY_LAYOUT_VERSION,
+        source,
+        root: {
+            name: source.name.replace(/\.[^.]+$/, '') || 'Layout',
+            type: 'container',
+            anchoredPosition: { x: 0, y: 0 },
+            sizeDelta: { x: source.width, y: source.height },
+            alpha: 1,
+            children: nodes.map(node => convert(node, canvasRect)),
+        },
+    };
+    return JSON.stringify(layout, null, 2);
+};
+
+/**
+ * 将引擎布局写入导出根目录
+ *
+ * Cocos 目标还会为每个被引用的图片写入同名 .meta 文件
+ *
+ * @param folderPath - 导出根目录
+ * @param manifest - 记录了本次导出文件的布局清单构建器
+ * @param target - 引擎目标
+ */
+export const writeEngineLayout = async (
+    folderPath: string,
+    manifest: LayoutManifestBuilder,
+    target: EngineLayoutTarget
+): Promise<void> => {
+    if (target === 'none') return;
+
+    const encoder = new TextEncoder();
+    const nodes = buildEngineLayoutNodes(manifest.tree, manifest.getFiles());
+    const baseName = manifest.source.name.replace(/\.[^.]+$/, '') || 'layout';
+
+    if (target === 'unity') {
+        const filePath = `${folderPath}\\${baseName}${APP_CONFIG.EXPORT.UNITY_LAYOUT_EXTENSION}`;
+        await writeFile(filePath, encoder.encode(buildUnityLayout(nodes, manifest.source)));
+        return;
+    }
+
+    const imageUuids = new Map<string, string>();
+    const collect = (list: EngineLayoutNode[]) => {
+        for (const node of list) {
+            if (node.file && !imageUuids.has(node.file)) {
+                imageUuids.set(node.file, crypto.randomUUID());
+            }
+            collect(node.children);
+        }
+    };
+    collect(nodes);
+
+    for (const [file, uuid] of imageUuids) {
+        await writeFile(`${folderPath}\\${file.replace(/\//g, '\\')}.meta`, encoder.encode(buildCocosImageMeta(uuid)));
+    }
+    const filePath = `${folderPath}\\${baseName}${APP_CONFIG.EXPORT.COCOS_PREFAB_EXTENSION}`;
+    await writeFile(filePath, encoder.encode(buildCocosPrefab(nodes, manifest.source, imageUuids)));
+};
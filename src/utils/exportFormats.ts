@@ -0,0 +1,24 @@
+/**
+ * 导出格式表
+ *
+ * 各导出格式的扩展名和图层名标签规则。不引用任何编码器,图层名标签解析(在解析 Worker 中运行)
+ * 和编码器注册表(见 utils/imageEncoders)都从这里读取,新增格式时两处保持一致。
+ */
+
+import { ExportFormat, ExportFormatInfo } from '../types';
+
+/**
+ * 各导出格式的扩展名和标签规则,顺序与编码器注册表相同
+ */
+export const EXPORT_FORMATS: { readonly [F in ExportFormat]: ExportFormatInfo<F> } = {
+    png: { id: 'png', extensions: ['png'], tagQuality: false },
+    jpg: { id: 'jpg', extensions: ['jpg', 'jpeg'], tagQuality: true },
+    webp: { id: 'webp', extensions: ['webp'], tagQuality: true },
+    avif: { id: 'avif', extensions: ['avif'], tagQuality: true },
+    blp: { id: 'blp', extensions: ['blp'], tagQuality: true },
+    tga: { id: 'tga', extensions: ['tga'], tagQuality: false },
+    dds: { id: 'dds', extensions: ['dds'], tagQuality: false },
+};
+
+/** 按注册顺序排列的导出格式 */
+export const EXPORT_FORMAT_LIST: readonly ExportFormatInfo<ExportFormat>[] = Object.values(EXPORT_FORMATS);
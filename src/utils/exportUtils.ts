@@ -6,11 +6,49 @@
  */
 
 import { save, open } from '@tauri-apps/plugin-dialog';
-import { writeFile } from '@tauri-apps/plugin-fs';
-import { invoke } from '@tauri-apps/api/core';
-import { ExportOptions } from '../types';
-import { convertImageFormat, base64ToUint8Array, getImageData } from './imageUtils';
-import { encodeTga } from './encoders/tga';
+import { mkdir, writeFile } from '@tauri-apps/plugin-fs';
+import { EncodedFile, ExportOptions, LayerEffects, LayerExportTag, ScaleVariant } from '../types';
+import { deleteImage, effectsImageKey, framedImageKey, getImageBitmap, putImage, scaledImageKey } from './imageStore';
+import { IMAGE_ENCODERS, IMAGE_ENCODER_LIST, encodeWithEncoder, findEncoderByExtension, resolveEncoderOptions } from './imageEncoders';
+import { hasLayerEffects, renderLayerEffects } from './layerEffects';
+import { frameImage } from './imageFraming';
+import { writeEngineLayout } from './engineLayout';
+import { LayoutManifestBuilder, ManifestFileRecord } from './layoutManifest';
+import { APP_CONFIG } from '../config';
+
+/**
+ * 可导出的图层
+ */
+export interface ExportableLayer {
+    /** 图层 id */
+    id: string;
+    /** 图层名称(用作文件名) */
+    name: string;
+    /** 图像键 */
+    imageKey: string;
+    /** 原始像素的图像键,仅带蒙版或剪贴的图层有 */
+    rawImageKey?: string | null;
+    /** 图层效果 */
+    effects?: LayerEffects;
+    /** 内容类型(写入布局清单),默认为 layer */
+    kind?: 'layer' | 'group' | 'composite';
+    /** 图层名中的导出标签 */
+    exportTags?: LayerExportTag[];
+    /** 图像左上角在文档中的位置,按 PSD 画布尺寸导出时使用,默认为 0 */
+    left?: number;
+    top?: number;
+}
+
+/**
+ * 准备好的导出图像
+ */
+export interface ExportImage {
+    /** 图像键 */
+    imageKey: string;
+    /** 图像左上角相对图层左上角的偏移(栅格化图层效果时为负) */
+    offsetX: number;
+    offsetY: number;
+}
 
 /**
  * 清理文件名，移除非法字符
@@ -22,13 +60,28 @@ export const sanitizeFileName = (name: string): string => {
         .trim() || 'untitled';
 };
 
+/**
+ * 为重名项追加序号(name、name_2、name_3…),用于图集和精灵图中的图片名
+ */
+export const uniqueNames = (names: string[]): string[] => {
+    const used = new Map<string, number>();
+    return names.map(name => {
+        const count = (used.get(name) ?? 0) + 1;
+        used.set(name, count);
+        return count === 1 ? name : `${name}_${count}`;
+    });
+};
+
 /**
  * 导出图层为图片（使用 Tauri 保存文件）
- * @param imageUrl - 图片的 base64 URL
+ *
+ * 编码格式由所选文件的扩展名决定(见 utils/imageEncoders),无法识别时按 PNG 编码,使用该格式的默认选项
+ *
+ * @param imageKey - 图层图像在图像存储中的键
  * @param fileName - 文件名（不含扩展名）
  */
 export const exportLayerImage = async (
-    imageUrl: string,
+    imageKey: string,
     fileName: string
 ): Promise<void> => {
     try {
@@ -37,16 +90,17 @@ export const exportLayerImage = async (
         // 使用 Tauri dialog 选择保存路径
         const filePath = await save({
             defaultPath: `${safeName}.png`,
-            filters: [{
-                name: 'PNG 图片',
-                extensions: ['png']
-            }]
+            filters: IMAGE_ENCODER_LIST.map(encoder => ({
+                name: encoder.fileTypeName,
+                extensions: [...encoder.extensions]
+            }))
         });
 
         if (filePath) {
-            // 将 base64 转换为二进制并保存
-            const imageData = base64ToUint8Array(imageUrl);
-            await writeFile(filePath, imageData);
+            // 按扩展名编码并保存
+            const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+            const format = findEncoderByExtension(extension)?.id ?? IMAGE_ENCODERS.png.id;
+            await writeFile(filePath, await encodeStoredImage(imageKey, { preserveStructure: false, format }));
         }
     } catch (error) {
         console.error('导出失败:', error);
@@ -54,19 +108,389 @@ export const exportLayerImage = async (
     }
 };
 
+/**
+ * 已写入的图片文件
+ */
+export interface WrittenFile {
+    /** 文件路径(相对导出根目录,用 / 分隔) */
+    file: string;
+    /** 文件大小(字节) */
+    size: number;
+    /** 优化前的大小,未优化时为 null */
+    originalSize: number | null;
+}
+
+/**
+ * 按导出选项将图像存储中的图像编码为文件内容,并记录 PNG 优化前的大小
+ *
+ * @param imageKey - 图像键
+ * @param options - 导出选项,按 format 选择编码器,encoderOptions 中该格式的设置覆盖默认选项
+ * @returns Promise,resolve 时返回文件字节和优化前大小
+ */
+export const encodeImageFile = (imageKey: string, options: ExportOptions): Promise<EncodedFile> => {
+    return encodeWithEncoder(imageKey, options.format, resolveEncoderOptions(options.format, options.encoderOptions));
+};
+
+/**
+ * 按导出选项将图像存储中的图像编码为文件内容
+ *
+ * @param imageKey - 图像键
+ * @param options - 导出选项(格式、编码选项)
+ * @returns Promise,resolve 时返回文件字节
+ */
+export const encodeStoredImage = async (imageKey: string, options: ExportOptions): Promise<Uint8Array> => {
+    return (await encodeImageFile(imageKey, options)).bytes;
+};
+
+/**
+ * 将字节数格式化为 B / KB / MB
+ */
+const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+/**
+ * 生成 PNG 优化的节省统计
+ *
+ * @param files - 已写入的文件
+ * @param limit - 逐个列出的文件数上限,按节省的字节数从多到少排列
+ * @returns 多行文本,没有优化过的文件时返回 null
+ */
+export const describePngSavings = (files: WrittenFile[], limit: number): string | null => {
+    const optimized = files.filter(file => file.originalSize !== null);
+    if (optimized.length === 0) return null;
+
+    const describe = (original: number, size: number) => {
+        const percent = original > 0 ? Math.round((1 - size / original) * 100) : 0;
+        return `${formatFileSize(original)} → ${formatFileSize(size)} (-${percent}%)`;
+    };
+
+    const original = optimized.reduce((sum, file) => sum + file.originalSize!, 0);
+    const size = optimized.reduce((sum, file) => sum + file.size, 0);
+    const lines = [`PNG 优化 ${optimized.length} 个文件: ${describe(original, size)}`];
+
+    const sorted = [...optimized].sort((a, b) => (b.originalSize! - b.size) - (a.originalSize! - a.size));
+    for (const file of sorted.slice(0, limit)) {
+        lines.push(`${file.file}: ${describe(file.originalSize!, file.size)}`);
+    }
+    if (sorted.length > limit) {
+        lines.push(`…其余 ${sorted.length - limit} 个文件`);
+    }
+    return lines.join('\n');
+};
+
+/**
+ * 获取图层导出时使用的图像
+ *
+ * 开启 rasterizeEffects 且图层带有效果时,先栅格化效果(图像按效果范围扩大);
+ * 设置了 framing 时再按取景选项调整画布(见 imageFraming)。生成的图像写入图像存储,
+ * 写入文件后应调用 releaseExportImage 释放。
+ *
+ * @param layer - 要导出的图层
+ * @param options - 导出选项
+ * @returns Promise,resolve 时返回图像键及其相对图层的偏移
+ */
+export const prepareExportImage = async (layer: ExportableLayer, options: ExportOptions): Promise<ExportImage> => {
+    let image: ExportImage = { imageKey: layer.imageKey, offsetX: 0, offsetY: 0 };
+
+    if (options.rasterizeEffects && hasLayerEffects(layer.effects)) {
+        const source = getImageBitmap(layer.imageKey);
+        if (!source) throw new Error(`图像不存在: ${layer.imageKey}`);
+
+        const { canvas, offsetX, offsetY } = renderLayerEffects(source, layer.effects);
+        const key = effectsImageKey(layer.id);
+        putImage(key, await createImageBitmap(canvas));
+        image = { imageKey: key, offsetX, offsetY };
+    }
+
+    if (options.framing) {
+        const source = getImageBitmap(image.imageKey);
+        if (!source) throw new Error(`图像不存在: ${image.imageKey}`);
+
+        const position = { x: (layer.left ?? 0) + image.offsetX, y: (layer.top ?? 0) + image.offsetY };
+        const framed = frameImage(source, options.framing, position, options.documentSize);
+        if (framed) {
+            const key = framedImageKey(layer.id);
+            putImage(key, await createImageBitmap(framed.canvas));
+            releaseExportImage(layer, image);
+            image = { imageKey: key, offsetX: image.offsetX + framed.offsetX, offsetY: image.offsetY + framed.offsetY };
+        }
+    }
+
+    return image;
+};
+
+/**
+ * 释放 prepareExportImage 生成的图像(直接使用图层图像时不做任何事)
+ *
+ * @param layer - 图层
+ * @param image - prepareExportImage 返回的图像
+ */
+export const releaseExportImage = (layer: ExportableLayer, image: ExportImage): void => {
+    if (image.imageKey !== layer.imageKey) deleteImage(image.imageKey);
+};
+
+/**
+ * 获取导出标签对应的文件路径
+ *
+ * @param tag - 导出标签
+ * @returns 相对所在目录的路径(用 / 分隔),各段按 sanitizeFileName 清理,忽略 . 和 ..
+ */
+export const getTagFilePath = (tag: LayerExportTag): string => {
+    const segments = tag.fileName
+        .split(/[\\/]/)
+        .filter(segment => segment && segment !== '.' && segment !== '..')
+        .map(sanitizeFileName);
+    return `${segments.join('/') || 'untitled'}.${tag.extension}`;
+};
+
+/** 未设置缩放变体时使用的原尺寸变体 */
+const ORIGINAL_VARIANT: ScaleVariant = { scale: 1, suffix: '', subfolder: '', resample: 'high' };
+
+/**
+ * 获取导出使用的缩放变体,未设置时只有原尺寸
+ */
+export const getScaleVariants = (options: ExportOptions): ScaleVariant[] => {
+    return options.scaleVariants && options.scaleVariants.length > 0 ? options.scaleVariants : [ORIGINAL_VARIANT];
+};
+
+/**
+ * 计算缩放变体对给定宽度图像的缩放比例
+ *
+ * @param variant - 缩放变体
+ * @param width - 缩放前的宽度
+ */
+export const getVariantScale = (variant: ScaleVariant, width: number): number => {
+    if (variant.maxWidth) {
+        return width > variant.maxWidth ? variant.maxWidth / width : 1;
+    }
+    return variant.scale && variant.scale > 0 ? variant.scale : 1;
+};
+
+/**
+ * 获取缩放变体对应的文件路径
+ *
+ * @param filePath - 原文件路径(用 / 分隔,含扩展名)
+ * @param variant - 缩放变体
+ * @returns 在扩展名前追加后缀,并在文件名前加上变体子目录(各段按 sanitizeFileName 清理)
+ *
+ * @example
+ * ```ts
+ * getVariantFilePath('icons/btn.png', { scale: 2, suffix: '@2x', subfolder: 'hd', resample: 'high' });
+ * // 'icons/hd/btn@2x.png'
+ * ```
+ */
+export const getVariantFilePath = (filePath: string, variant: ScaleVariant): string => {
+    const slash = filePath.lastIndexOf('/');
+    const dir = filePath.slice(0, slash + 1);
+    const fileName = filePath.slice(slash + 1);
+    const dot = fileName.lastIndexOf('.');
+    const stem = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+
+    const subfolder = variant.subfolder
+        .split(/[\\/]/)
+        .filter(segment => segment && segment !== '.' && segment !== '..')
+        .map(segment => `${sanitizeFileName(segment)}/`)
+        .join('');
+    const suffix = variant.suffix ? sanitizeFileName(variant.suffix) : '';
+    return `${dir}${subfolder}${stem}${suffix}${extension}`;
+};
+
+/**
+ * 按目标尺寸重采样图像
+ *
+ * @returns 缩放后图像的临时键(由调用方写入文件后删除),尺寸不变时返回原图像键
+ */
+const resampleImage = async (
+    imageKey: string,
+    width: number,
+    height: number,
+    resample: ScaleVariant['resample'],
+    index: number
+): Promise<string> => {
+    const source = getImageBitmap(imageKey);
+    if (!source) throw new Error(`图像不存在: ${imageKey}`);
+    if (width === source.width && height === source.height) return imageKey;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    if (resample === 'pixelated') {
+        ctx.imageSmoothingEnabled = false;
+    } else {
+        ctx.imageSmoothingQuality = resample;
+    }
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const key = scaledImageKey(imageKey, index);
+    putImage(key, await createImageBitmap(canvas));
+    return key;
+};
+
+/**
+ * 将一个图像按每个缩放变体写入文件
+ *
+ * @param folderPath - 目标目录
+ * @param relativeDir - 目标目录相对导出根目录的路径(以 / 结尾,根目录为空字符串),用于布局清单
+ * @param filePath - 原尺寸文件相对目标目录的路径(用 / 分隔,含扩展名)
+ * @param image - 要写入的图像
+ * @param options - 导出选项(编码格式、质量和缩放变体)
+ * @param manifest - 布局清单构建器
+ * @param record - 清单记录中与文件无关的部分
+ * @param baseSize - 缩放变体之前的尺寸(导出标签指定),默认为图像原尺寸
+ * @returns Promise,resolve 时返回写入的文件
+ */
+export const writeImageVariants = async (
+    folderPath: string,
+    relativeDir: string,
+    filePath: string,
+    image: ExportImage,
+    options: ExportOptions,
+    manifest: LayoutManifestBuilder | null,
+    record: Pick<ManifestFileRecord, 'kind' | 'layerId' | 'name'>,
+    baseSize?: { width: number; height: number }
+): Promise<WrittenFile[]> => {
+    const source = getImageBitmap(image.imageKey);
+    if (!source) throw new Error(`图像不存在: ${image.imageKey}`);
+    const baseWidth = baseSize?.width ?? source.width;
+    const baseHeight = baseSize?.height ?? source.height;
+
+    const variants = getScaleVariants(options);
+    const written: WrittenFile[] = [];
+    for (let i = 0; i < variants.length; i++) {
+        const variant = variants[i];
+        const scale = getVariantScale(variant, baseWidth);
+        const width = Math.max(1, Math.round(baseWidth * scale));
+        const height = Math.max(1, Math.round(baseHeight * scale));
+
+        const variantPath = getVariantFilePath(filePath, variant);
+        const subDir = variantPath.includes('/') ? variantPath.slice(0, variantPath.lastIndexOf('/')) : '';
+        if (subDir) {
+            await mkdir(`${folderPath}\\${subDir.replace(/\//g, '\\')}`, { recursive: true });
+        }
+
+        const imageKey = await resampleImage(image.imageKey, width, height, variant.resample, i);
+        try {
+            const { bytes, originalSize } = await encodeImageFile(imageKey, options);
+            await writeFile(`${folderPath}\\${variantPath.replace(/\//g, '\\')}`, bytes);
+            written.push({ file: `${relativeDir}${variantPath}`, size: bytes.length, originalSize });
+        } finally {
+            if (imageKey !== image.imageKey) deleteImage(imageKey);
+        }
+        // 清单记录图层在文档中的位置,不随缩放变化
+        manifest?.addFile({
+            ...record,
+            file: `${relativeDir}${variantPath}`,
+            imageKey: image.imageKey,
+            offsetX: image.offsetX,
+            offsetY: image.offsetY,
+            scale: width / source.width,
+        });
+    }
+    return written;
+};
+
+/**
+ * 计算导出标签指定的尺寸(未指定缩放或尺寸时为原尺寸)
+ */
+const getTagSize = (tag: LayerExportTag, width: number, height: number): { width: number; height: number } => {
+    if (tag.scale) {
+        return { width: width * tag.scale, height: height * tag.scale };
+    }
+    if (tag.width || tag.height) {
+        return {
+            width: tag.width ?? width * tag.height! / height,
+            height: tag.height ?? height * tag.width! / width,
+        };
+    }
+    return { width, height };
+};
+
+/**
+ * 将一个图层的图像写入目录
+ *
+ * 图层名带导出标签且未关闭 applyNameTags 时,按每个标签写入: 格式、质量和尺寸由标签决定,
+ * 文件名取标签中的文件名(可含子目录);否则按全局选项写入 `<图层名>.<格式>`。
+ * 每个输出再按缩放变体各写入一个文件(标签的缩放与变体的缩放相乘)。
+ *
+ * @param folderPath - 目标目录
+ * @param relativeDir - 目标目录相对导出根目录的路径(以 / 结尾,根目录为空字符串),用于布局清单
+ * @param layer - 图层
+ * @param image - 要写入的图像(见 prepareExportImage)
+ * @param options - 导出选项
+ * @param manifest - 布局清单构建器
+ * @returns Promise,resolve 时返回写入的文件
+ */
+export const writeLayerImageFiles = async (
+    folderPath: string,
+    relativeDir: string,
+    layer: ExportableLayer,
+    image: ExportImage,
+    options: ExportOptions,
+    manifest: LayoutManifestBuilder | null
+): Promise<WrittenFile[]> => {
+    const record = { kind: layer.kind ?? 'layer', layerId: layer.id, name: layer.name };
+    const tags = options.applyNameTags === false ? [] : layer.exportTags ?? [];
+
+    if (tags.length === 0) {
+        const fileName = `${sanitizeFileName(layer.name)}.${options.format}`;
+        return writeImageVariants(folderPath, relativeDir, fileName, image, options, manifest, record);
+    }
+
+    const source = getImageBitmap(image.imageKey);
+    if (!source) throw new Error(`图像不存在: ${image.imageKey}`);
+
+    const written: WrittenFile[] = [];
+    for (const tag of tags) {
+        const tagOptions: ExportOptions = { ...options, format: tag.format };
+        if (tag.quality !== undefined) {
+            tagOptions.encoderOptions = {
+                ...options.encoderOptions,
+                [tag.format]: { ...resolveEncoderOptions(tag.format, options.encoderOptions), quality: tag.quality },
+            };
+        }
+        const baseSize = getTagSize(tag, source.width, source.height);
+        written.push(...await writeImageVariants(folderPath, relativeDir, getTagFilePath(tag), image, tagOptions, manifest, record, baseSize));
+    }
+    return written;
+};
+
+/**
+ * 按导出选项将布局清单和引擎布局写入导出根目录
+ *
+ * @param folderPath - 导出根目录
+ * @param manifest - 布局清单构建器
+ * @param options - 导出选项(writeManifest、engineLayout)
+ */
+export const writeExportMetadata = async (
+    folderPath: string,
+    manifest: LayoutManifestBuilder,
+    options: ExportOptions
+): Promise<void> => {
+    if (options.writeManifest) {
+        const filePath = `${folderPath}\\${APP_CONFIG.EXPORT.MANIFEST_FILE_NAME}`;
+        await writeFile(filePath, new TextEncoder().encode(manifest.serialize()));
+    }
+    await writeEngineLayout(folderPath, manifest, options.engineLayout ?? 'none');
+};
+
 /**
  * 批量导出图层到指定文件夹
  * 
  * 让用户选择一个文件夹,然后将所有图层导出为指定格式的文件到该文件夹
  * 
- * @param layers - 要导出的图层数组,每个对象包含 imageUrl 和 name
- * @param options - 导出选项 (格式、质量)
- * @returns Promise,resolve 时返回导出统计信息 { success: 成功数量, failed: 失败数量 }
+ * @param layers - 要导出的图层数组
+ * @param options - 导出选项 (格式、质量、是否额外导出原始像素、是否栅格化图层效果、是否遵循图层名导出标签)
+ * @param manifest - 布局清单构建器,传入时记录每个导出文件并在结束后写入清单和引擎布局
+ * @returns Promise,resolve 时返回导出统计信息 { success: 成功数量, failed: 失败数量, files: 写入的图片文件 }
  */
 export const exportLayersToFolder = async (
-    layers: Array<{ imageUrl: string; name: string }>,
-    options: ExportOptions = { preserveStructure: false, format: 'png' }
-): Promise<{ success: number; failed: number }> => {
+    layers: ExportableLayer[],
+    options: ExportOptions = { preserveStructure: false, format: 'png' },
+    manifest: LayoutManifestBuilder | null = null
+): Promise<{ success: number; failed: number; files: WrittenFile[] }> => {
     // 选择文件夹
     const folderPath = await open({
         directory: true,
@@ -75,45 +499,33 @@ export const exportLayersToFolder = async (
     });
 
     if (!folderPath || typeof folderPath !== 'string') {
-        return { success: 0, failed: 0 };
+        return { success: 0, failed: 0, files: [] };
     }
 
     let success = 0;
     let failed = 0;
-
-    const mimeType = options.format === 'jpg' ? 'image/jpeg' : 'image/png';
+    const files: WrittenFile[] = [];
 
     for (const layer of layers) {
         try {
             const safeName = sanitizeFileName(layer.name);
-            const targetExt = options.format === 'jpg' ? 'jpg' : options.format;
-            const filePath = `${folderPath}\\${safeName}.${targetExt}`;
-
-            // 转换格式
-            if (options.format === 'blp') {
-                // 使用 Tauri 命令编码 BLP
-                const blpData = await invoke<number[]>('encode_blp', {
-                    imageDataUrl: layer.imageUrl
-                });
-                await writeFile(filePath, new Uint8Array(blpData));
-
-            } else if (options.format === 'tga') {
-                // TGA (无压缩 32位)
-                const imgData = await getImageData(layer.imageUrl);
-                const tgaData = encodeTga(imgData);
-                await writeFile(filePath, tgaData);
-
-            } else {
-                // PNG / JPG
-                let finalDataUrl = layer.imageUrl;
-                if (options.format === 'jpg' || layer.imageUrl.startsWith('data:image/png')) {
-                    const converted = await convertImageFormat(layer.imageUrl, mimeType, options.quality);
-                    if (converted) {
-                        finalDataUrl = converted;
-                    }
+            const image = await prepareExportImage(layer, options);
+            try {
+                files.push(...await writeLayerImageFiles(folderPath, '', layer, image, options, manifest));
+            } finally {
+                releaseExportImage(layer, image);
+            }
+
+            // 原始像素(未应用蒙版和剪贴)
+            if (options.exportRawPixels && layer.rawImageKey) {
+                const rawLayer: ExportableLayer = { ...layer, imageKey: layer.rawImageKey, effects: undefined };
+                const rawImage = await prepareExportImage(rawLayer, options);
+                const rawRecord = { kind: 'raw' as const, layerId: layer.id, name: layer.name };
+                try {
+                    files.push(...await writeImageVariants(folderPath, '', `${safeName}_raw.${options.format}`, rawImage, options, manifest, rawRecord));
+                } finally {
+                    releaseExportImage(rawLayer, rawImage);
                 }
-                const imageData = base64ToUint8Array(finalDataUrl);
-                await writeFile(filePath, imageData);
             }
             success++;
         } catch (error) {
@@ -122,5 +534,14 @@ export const exportLayersToFolder = async (
         }
     }
 
-    return { success, failed };
+    if (manifest) {
+        try {
+            await writeExportMetadata(folderPath, manifest, options);
+        } catch (error) {
+            console.error('写入布局清单失败:', error);
+            failed++;
+        }
+    }
+
+    return { success, failed, files };
 };
@@ -6,12 +6,11 @@
  */
 
 import { open } from '@tauri-apps/plugin-dialog';
-import { mkdir, writeFile, exists } from '@tauri-apps/plugin-fs';
-import { invoke } from '@tauri-apps/api/core';
+import { mkdir, exists } from '@tauri-apps/plugin-fs';
 import { LayerTreeNode, ExportOptions } from '../types';
-import { sanitizeFileName } from './exportUtils';
-import { base64ToUint8Array, convertImageFormat, getImageData } from './imageUtils';
-import { encodeTga } from './encoders/tga';
+import { ExportableLayer, WrittenFile, prepareExportImage, releaseExportImage, sanitizeFileName, writeExportMetadata, writeImageVariants, writeLayerImageFiles } from './exportUtils';
+import { LayoutManifestBuilder } from './layoutManifest';
+import { getVisibleGroupImage, releaseVisibleGroupImage } from './layerUtils';
 
 /**
  * 按层级结构导出图层树
@@ -20,13 +19,15 @@ import { encodeTga } from './encoders/tga';
  * 
  * @param tree - 图层树(从buildLayerTree获取)
  * @param options - 导出选项
- * @param hiddenLayers - 隐藏的图层索引集合，这些图层不会被导出
+ * @param hiddenLayers - 隐藏的图层 id 集合，这些图层不会被导出
+ * @param composite - 额外导出到根目录的 PSD 全图(见 ExportOptions.includeComposite)
+ * @param manifest - 布局清单构建器,传入时记录每个导出文件并在结束后将清单和引擎布局写入根目录
  * @returns Promise,resolve时返回导出统计信息
  * 
  * @example
  * ```ts
- * const tree = await extractLayerTree(psdFile);
- * const result = await exportLayerTreeWithStructure(tree.tree, {
+ * const { layerTree } = usePsdParser();
+ * const result = await exportLayerTreeWithStructure(layerTree, {
  *   preserveStructure: true,
  *   format: 'png'
  * });
@@ -36,8 +37,10 @@ import { encodeTga } from './encoders/tga';
 export const exportLayerTreeWithStructure = async (
     tree: LayerTreeNode[],
     options: ExportOptions = { preserveStructure: true, format: 'png' },
-    hiddenLayers: Set<number> = new Set()
-): Promise<{ success: number; failed: number }> => {
+    hiddenLayers: Set<string> = new Set(),
+    composite: ExportableLayer | null = null,
+    manifest: LayoutManifestBuilder | null = null
+): Promise<{ success: number; failed: number; files: WrittenFile[] }> => {
     // 让用户选择根目录
     const rootPath = await open({
         directory: true,
@@ -47,22 +50,24 @@ export const exportLayerTreeWithStructure = async (
 
     if (!rootPath || typeof rootPath !== 'string') {
         console.log('[HierarchicalExport] 用户取消选择目录');
-        return { success: 0, failed: 0 };
+        return { success: 0, failed: 0, files: [] };
     }
 
     console.log('[HierarchicalExport] 开始按结构导出, 根目录:', rootPath);
 
     let success = 0;
     let failed = 0;
+    const files: WrittenFile[] = [];
 
     /**
      * 递归导出节点
      * @param node - 当前节点
      * @param currentPath - 当前文件系统路径
+     * @param relativeDir - 当前目录相对导出根目录的路径(根目录为空字符串)
      */
-    const exportNode = async (node: LayerTreeNode, currentPath: string): Promise<void> => {
+    const exportNode = async (node: LayerTreeNode, currentPath: string, relativeDir: string): Promise<void> => {
         // 检查该节点是否被隐藏
-        if (node.index !== undefined && hiddenLayers.has(node.index)) {
+        if (hiddenLayers.has(node.id)) {
             console.log(`[HierarchicalExport] 跳过隐藏图层: ${node.name}`);
             return;
         }
@@ -83,67 +88,72 @@ export const exportLayerTreeWithStructure = async (
 
                 // 递归处理所有子节点
                 for (const child of node.children) {
-                    await exportNode(child, folderPath);
+                    await exportNode(child, folderPath, `${relativeDir}${safeName}/`);
                 }
 
-                // 检查组是否有合成图，如果有也导出 (作为同名图片文件)
-                if (node.layer && node.layer.imageUrl) {
-                    const fileName = `${safeName}.${options.format}`;
-                    const filePath = `${currentPath}\\${fileName}`;
+                // 组名带导出标签时按标签导出组合成图(有隐藏的子孙图层时按当前可见性重新合成)
+                const groupTags = options.applyNameTags === false ? undefined : node.exportTags;
+                if (groupTags) {
                     try {
-                        console.log(`[HierarchicalExport] 导出组全合成图: ${filePath}`);
-
-                        if (options.format === 'blp') {
-                            const blpData = await invoke<number[]>('encode_blp', { imageDataUrl: node.layer.imageUrl });
-                            await writeFile(filePath, new Uint8Array(blpData));
-                        } else if (options.format === 'tga') {
-                            const imgData = await getImageData(node.layer.imageUrl);
-                            const tgaData = encodeTga(imgData);
-                            await writeFile(filePath, tgaData);
-                        } else {
-                            let finalDataUrl = node.layer.imageUrl;
-                            const mimeType = options.format === 'jpg' ? 'image/jpeg' : 'image/png';
-                            if (options.format === 'jpg' || node.layer.imageUrl.startsWith('data:image/png')) {
-                                const converted = await convertImageFormat(node.layer.imageUrl, mimeType, options.quality);
-                                if (converted) finalDataUrl = converted;
+                        const groupImage = await getVisibleGroupImage(node, hiddenLayers, options.rasterizeEffects === true);
+                        if (groupImage) {
+                            const group: ExportableLayer = {
+                                id: node.id,
+                                name: node.name,
+                                effects: node.effects,
+                                kind: 'group',
+                                exportTags: groupTags,
+                                ...groupImage,
+                            };
+                            console.log(`[HierarchicalExport] 按导出标签导出组合成图: ${node.name}`);
+                            const image = await prepareExportImage(group, options);
+                            try {
+                                files.push(...await writeLayerImageFiles(currentPath, relativeDir, group, image, options, manifest));
+                            } finally {
+                                releaseExportImage(group, image);
                             }
-                            const imageData = base64ToUint8Array(finalDataUrl);
-                            await writeFile(filePath, imageData);
+                            success++;
                         }
-                        success++;
                     } catch (error) {
-                        console.error(`[HierarchicalExport] 导出组合成图失败: ${filePath}`, error);
+                        console.error(`[HierarchicalExport] 导出组合成图失败: ${node.name}`, error);
                         failed++;
+                    } finally {
+                        releaseVisibleGroupImage(node.id);
                     }
                 }
             } catch (error) {
                 console.error(`[HierarchicalExport] 创建文件夹失败: ${folderPath}`, error);
                 failed++;
             }
-        } else if (node.layer && node.layer.imageUrl) {
+        } else if (node.layer && node.layer.imageKey) {
             // 处理叶子节点 - 导出图层为文件
-            const fileName = `${safeName}.${options.format}`;
-            const filePath = `${currentPath}\\${fileName}`;
+            const { layer } = node;
+            const imageKey = layer.imageKey!;
+            const filePath = `${currentPath}\\${safeName}.${options.format}`;
 
             try {
                 console.log(`[HierarchicalExport] 导出文件: ${filePath}`);
+                const leaf: ExportableLayer = { ...layer, imageKey, kind: 'layer' };
+                const image = await prepareExportImage(leaf, options);
+                try {
+                    files.push(...await writeLayerImageFiles(currentPath, relativeDir, leaf, image, options, manifest));
+                } finally {
+                    releaseExportImage(leaf, image);
+                }
 
-                if (options.format === 'blp') {
-                    const blpData = await invoke<number[]>('encode_blp', { imageDataUrl: node.layer.imageUrl });
-                    await writeFile(filePath, new Uint8Array(blpData));
-                } else if (options.format === 'tga') {
-                    const imgData = await getImageData(node.layer.imageUrl);
-                    const tgaData = encodeTga(imgData);
-                    await writeFile(filePath, tgaData);
-                } else {
-                    let finalDataUrl = node.layer.imageUrl;
-                    const mimeType = options.format === 'jpg' ? 'image/jpeg' : 'image/png';
-                    if (options.format === 'jpg' || node.layer.imageUrl.startsWith('data:image/png')) {
-                        const converted = await convertImageFormat(node.layer.imageUrl, mimeType, options.quality);
-                        if (converted) finalDataUrl = converted;
+                // 原始像素(未应用蒙版和剪贴)
+                const { rawImageKey } = layer;
+                if (options.exportRawPixels && rawImageKey) {
+                    const rawName = `${safeName}_raw.${options.format}`;
+                    console.log(`[HierarchicalExport] 导出原始像素: ${currentPath}\\${rawName}`);
+                    const rawLayer: ExportableLayer = { ...leaf, imageKey: rawImageKey, effects: undefined };
+                    const rawImage = await prepareExportImage(rawLayer, options);
+                    const rawRecord = { kind: 'raw' as const, layerId: node.id, name: node.name };
+                    try {
+                        files.push(...await writeImageVariants(currentPath, relativeDir, rawName, rawImage, options, manifest, rawRecord));
+                    } finally {
+                        releaseExportImage(rawLayer, rawImage);
                     }
-                    const imageData = base64ToUint8Array(finalDataUrl);
-                    await writeFile(filePath, imageData);
                 }
                 success++;
             } catch (error) {
@@ -158,11 +168,39 @@ export const exportLayerTreeWithStructure = async (
 
     // 从根节点开始导出
     for (const node of tree) {
-        await exportNode(node, rootPath);
+        await exportNode(node, rootPath, '');
+    }
+
+    if (composite) {
+        const fileName = `${sanitizeFileName(composite.name)}.${options.format}`;
+        const filePath = `${rootPath}\\${fileName}`;
+        try {
+            console.log(`[HierarchicalExport] 导出 PSD 全图: ${filePath}`);
+            const image = await prepareExportImage(composite, options);
+            const record = { kind: 'composite' as const, layerId: composite.id, name: composite.name };
+            try {
+                files.push(...await writeImageVariants(rootPath, '', fileName, image, options, manifest, record));
+            } finally {
+                releaseExportImage(composite, image);
+            }
+            success++;
+        } catch (error) {
+            console.error(`[HierarchicalExport] 导出 PSD 全图失败: ${filePath}`, error);
+            failed++;
+        }
+    }
+
+    if (manifest) {
+        try {
+            await writeExportMetadata(rootPath, manifest, options);
+        } catch (error) {
+            console.error('[HierarchicalExport] 写入布局清单失败', error);
+            failed++;
+        }
     }
 
     console.log(`[HierarchicalExport] 导出完成, 成功: ${success}, 失败: ${failed}`);
-    return { success, failed };
+    return { success, failed, files };
 };
 
 /**
@@ -0,0 +1,271 @@
+/**
+ * 图像编码器注册表
+ *
+ * 每种导出格式注册一个 ImageEncoder: 显示名称、默认选项、选项表单和编码函数。
+ * 扩展名和标签规则来自 utils/exportFormats。批量导出、图集、CSS 精灵图、单图层另存为和导出配置界面
+ * 都从这里读取,新增格式时在格式表和本文件各加一项。会引入图像存储和各编码器(含 WASM 编码器的加载代码),
+ * 不要在解析 Worker 中引用;图层名标签解析只使用 utils/exportFormats。
+ */
+
+import { APP_CONFIG } from '../config';
+import { AnyImageEncoder, EncodedFile, EncoderOptionField, EncoderOptionsMap, ExportFormat, ImageEncoder, MipmapFilter, QualityOptions, TgaOrigin } from '../types';
+import { EXPORT_FORMATS } from './exportFormats';
+import { getImageBytes, getStoredImageData } from './imageStore';
+import { optimizePng } from './pngOptimize';
+import { encodeAvif } from './encoders/avif';
+import { encodeBlp } from './encoders/blp';
+import { encodeTga } from './encoders/tga';
+import { encodeWebp } from './encoders/webp';
+import { encodeDdsInWorker } from '../workers/ddsEncoderClient';
+
+/**
+ * 获取图像像素,图像不存在时抛出错误
+ */
+const requireImageData = (imageKey: string): ImageData => {
+    const imageData = getStoredImageData(imageKey);
+    if (!imageData) throw new Error(`图像不存在: ${imageKey}`);
+    return imageData;
+};
+
+/**
+ * 用浏览器编码图像,图像不存在时抛出错误
+ */
+const requireImageBytes = async (imageKey: string, type: string, quality?: number): Promise<Uint8Array> => {
+    const bytes = await getImageBytes(imageKey, type, quality);
+    if (!bytes) throw new Error(`图像不存在: ${imageKey}`);
+    return bytes;
+};
+
+/**
+ * 未记录优化前大小的编码结果
+ */
+const encoded = (bytes: Uint8Array): EncodedFile => ({ bytes, originalSize: null });
+
+/**
+ * 图片质量滑块
+ */
+const qualityField = <T extends QualityOptions>(visible?: (options: T) => boolean): EncoderOptionField<T> => ({
+    key: 'quality',
+    label: '图片质量',
+    control: 'range',
+    min: 0.1,
+    max: 1,
+    step: 0.1,
+    format: value => `${Math.round(value * 100)}%`,
+    visible,
+});
+
+/** 缩小滤波的选项 */
+const MIPMAP_FILTER_CHOICES = (Object.keys(APP_CONFIG.MIPMAP.FILTER_LABELS) as MipmapFilter[])
+    .map(value => ({ value, label: APP_CONFIG.MIPMAP.FILTER_LABELS[value] }));
+
+/**
+ * BLP 压缩方式可用的 alpha 位数
+ */
+const getBlpAlphaBits = (compression: EncoderOptionsMap['blp']['compression']): readonly number[] =>
+    APP_CONFIG.BLP.COMPRESSIONS.find(item => item.value === compression)!.alphaBits;
+
+/**
+ * 各导出格式的编码器,顺序即导出配置中格式下拉框的顺序
+ */
+export const IMAGE_ENCODERS: { readonly [F in ExportFormat]: ImageEncoder<F> } = {
+    png: {
+        ...EXPORT_FORMATS.png,
+        label: 'PNG (无损, 支持透明)',
+        fileTypeName: 'PNG 图片',
+        atlasPage: true,
+        defaults: { ...APP_CONFIG.PNG_OPTIMIZE.DEFAULTS },
+        fields: [
+            { key: 'optimize', label: '优化 PNG 体积 (oxipng 无损压缩)', control: 'checkbox' },
+            {
+                key: 'level',
+                label: '压缩级别',
+                control: 'select',
+                choices: () => APP_CONFIG.PNG_OPTIMIZE.LEVELS,
+                visible: options => options.optimize,
+            },
+            { key: 'quantize', label: '量化为调色板 PNG-8 (有损)', control: 'checkbox', visible: options => options.optimize },
+            {
+                key: 'colors',
+                label: '颜色数 (2-256)',
+                control: 'number',
+                min: 2,
+                max: 256,
+                visible: options => options.optimize && options.quantize,
+            },
+            { key: 'dither', label: '抖动', control: 'checkbox', visible: options => options.optimize && options.quantize },
+        ],
+        encode: async (imageKey, options) => {
+            const png = await requireImageBytes(imageKey, 'image/png');
+            if (!options.optimize) return encoded(png);
+            const bytes = await optimizePng(png, requireImageData(imageKey), {
+                level: options.level,
+                colors: options.quantize ? options.colors : 0,
+                dither: options.dither,
+            });
+            return { bytes, originalSize: png.length };
+        },
+    },
+    jpg: {
+        ...EXPORT_FORMATS.jpg,
+        label: 'JPG (较小, 有损)',
+        fileTypeName: 'JPG 图片',
+        atlasPage: false,
+        defaults: { quality: APP_CONFIG.EXPORT.DEFAULT_QUALITY },
+        fields: [qualityField()],
+        encode: async (imageKey, options) => encoded(await requireImageBytes(imageKey, 'image/jpeg', options.quality)),
+    },
+    webp: {
+        ...EXPORT_FORMATS.webp,
+        label: 'WebP (有损/无损, 支持透明)',
+        fileTypeName: 'WebP 图片',
+        atlasPage: false,
+        defaults: { quality: APP_CONFIG.EXPORT.DEFAULT_QUALITY, lossless: false },
+        fields: [
+            { key: 'lossless', label: '无损压缩', control: 'checkbox' },
+            qualityField(options => !options.lossless),
+        ],
+        encode: async (imageKey, options) =>
+            encoded(await encodeWebp(requireImageData(imageKey), options.quality, options.lossless)),
+    },
+    avif: {
+        ...EXPORT_FORMATS.avif,
+        label: 'AVIF (体积最小, 支持透明, 编码较慢)',
+        fileTypeName: 'AVIF 图片',
+        atlasPage: false,
+        defaults: { quality: APP_CONFIG.EXPORT.DEFAULT_QUALITY, lossless: false },
+        fields: [
+            { key: 'lossless', label: '无损压缩', control: 'checkbox' },
+            qualityField(options => !options.lossless),
+        ],
+        encode: async (imageKey, options) =>
+            encoded(await encodeAvif(requireImageData(imageKey), options.quality, options.lossless)),
+    },
+    blp: {
+        ...EXPORT_FORMATS.blp,
+        label: 'BLP (魔兽争霸3)',
+        fileTypeName: 'BLP 贴图',
+        atlasPage: false,
+        defaults: { ...APP_CONFIG.BLP.DEFAULTS, quality: APP_CONFIG.EXPORT.DEFAULT_QUALITY },
+        fields: [
+            { key: 'compression', label: '压缩方式', control: 'select', choices: () => APP_CONFIG.BLP.COMPRESSIONS },
+            {
+                key: 'alphaBits',
+                label: 'Alpha',
+                control: 'select',
+                choices: options => getBlpAlphaBits(options.compression)
+                    .map(bits => ({ value: bits, label: bits === 0 ? '无' : `${bits} 位` })),
+            },
+            { key: 'mipmaps', label: '生成 mipmap', control: 'checkbox' },
+            {
+                key: 'mipmapFilter',
+                label: '缩小滤波',
+                control: 'select',
+                choices: () => MIPMAP_FILTER_CHOICES,
+                enabled: options => options.mipmaps,
+            },
+            qualityField(options => options.compression === 'jpeg'),
+        ],
+        // 切换压缩方式时,alpha 位数不可用则改为该方式支持的最大位数
+        normalize: options => {
+            const allowed = getBlpAlphaBits(options.compression);
+            return allowed.includes(options.alphaBits) ? options : { ...options, alphaBits: allowed[allowed.length - 1] };
+        },
+        encode: async (imageKey, options) => encoded(encodeBlp(requireImageData(imageKey), options, options.quality)),
+    },
+    tga: {
+        ...EXPORT_FORMATS.tga,
+        label: 'TGA (Truevision)',
+        fileTypeName: 'TGA 图片',
+        atlasPage: true,
+        defaults: { ...APP_CONFIG.TGA.DEFAULTS },
+        fields: [
+            {
+                key: 'bitDepth',
+                label: '像素深度',
+                control: 'select',
+                choices: () => [{ value: 32, label: '32 位 (含 alpha)' }, { value: 24, label: '24 位 (无 alpha)' }],
+            },
+            {
+                key: 'origin',
+                label: '原点',
+                control: 'select',
+                choices: () => (Object.keys(APP_CONFIG.TGA.ORIGIN_LABELS) as TgaOrigin[])
+                    .map(value => ({ value, label: APP_CONFIG.TGA.ORIGIN_LABELS[value] })),
+            },
+            { key: 'rle', label: 'RLE 压缩', control: 'checkbox' },
+            { key: 'premultiplied', label: '预乘 alpha', control: 'checkbox', enabled: options => options.bitDepth === 32 },
+            { key: 'footer', label: '写入 TGA 2.0 文件尾 (记录 alpha 类型)', control: 'checkbox' },
+        ],
+        // 24 位没有 alpha,不能预乘
+        normalize: options => options.bitDepth === 24 && options.premultiplied ? { ...options, premultiplied: false } : options,
+        encode: async (imageKey, options) => encoded(encodeTga(requireImageData(imageKey), options)),
+    },
+    dds: {
+        ...EXPORT_FORMATS.dds,
+        label: 'DDS (BC1/BC3/BC7 块压缩)',
+        fileTypeName: 'DDS 贴图',
+        atlasPage: false,
+        defaults: { ...APP_CONFIG.DDS.DEFAULTS },
+        fields: [
+            { key: 'compression', label: '压缩格式', control: 'select', choices: () => APP_CONFIG.DDS.COMPRESSIONS },
+            { key: 'mipmaps', label: '生成 mipmap', control: 'checkbox' },
+            {
+                key: 'mipmapFilter',
+                label: '缩小滤波',
+                control: 'select',
+                choices: () => MIPMAP_FILTER_CHOICES,
+                enabled: options => options.mipmaps,
+            },
+            { key: 'srgb', label: '标记为 sRGB (颜色贴图)', control: 'checkbox' },
+        ],
+        encode: async (imageKey, options) => encoded(await encodeDdsInWorker(requireImageData(imageKey), options)),
+    },
+};
+
+/** 按注册顺序排列的编码器 */
+export const IMAGE_ENCODER_LIST: readonly AnyImageEncoder[] = Object.values(IMAGE_ENCODERS);
+
+/**
+ * 按扩展名查找编码器
+ *
+ * @param extension - 扩展名(不含点,不区分大小写)
+ * @returns 编码器,无法识别时返回 undefined
+ */
+export const findEncoderByExtension = (extension: string): AnyImageEncoder | undefined => {
+    const normalized = extension.toLowerCase();
+    return IMAGE_ENCODER_LIST.find(encoder => encoder.extensions.includes(normalized));
+};
+
+/**
+ * 合并编码器默认选项与导出选项中该格式的设置
+ *
+ * @param format - 导出格式
+ * @param overrides - 导出选项中的 encoderOptions
+ * @returns 完整且经过修正的编码选项
+ */
+export const resolveEncoderOptions = <F extends ExportFormat>(
+    format: F,
+    overrides?: Partial<EncoderOptionsMap>
+): EncoderOptionsMap[F] => {
+    const encoder: ImageEncoder<F> = IMAGE_ENCODERS[format];
+    const options: EncoderOptionsMap[F] = { ...encoder.defaults, ...overrides?.[format] };
+    return encoder.normalize ? encoder.normalize(options) : options;
+};
+
+/**
+ * 按格式编码图像存储中的图像
+ *
+ * @param imageKey - 图像键
+ * @param format - 导出格式
+ * @param options - 该格式的完整编码选项(见 resolveEncoderOptions)
+ * @returns Promise,resolve 时返回文件字节和 PNG 优化前大小
+ */
+export const encodeWithEncoder = <F extends ExportFormat>(
+    imageKey: string,
+    format: F,
+    options: EncoderOptionsMap[F]
+): Promise<EncodedFile> => {
+    const encoder: ImageEncoder<F> = IMAGE_ENCODERS[format];
+    return encoder.encode(imageKey, options);
+};
@@ -0,0 +1,144 @@
+/**
+ * 导出图像取景模块
+ *
+ * 按导出选项调整图像画布: 裁掉四周透明像素、追加透明边距、扩展为 PSD 画布尺寸(保持图像在文档中的位置),
+ * 以及将宽高对齐到 2 的幂或 4 的倍数(便于 GPU 纹理压缩)。只改变画布范围,不缩放像素。
+ */
+
+import { DimensionSnap, ImageFraming } from '../types';
+import { nextPowerOfTwo } from './maxRects';
+
+/**
+ * 图像中的矩形区域
+ */
+export interface PixelBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * 取景后的图像
+ */
+export interface FramedImage {
+    canvas: OffscreenCanvas;
+    /** 新画布左上角相对原图像左上角的偏移 */
+    offsetX: number;
+    offsetY: number;
+}
+
+/**
+ * 计算 alpha 大于阈值的像素的包围盒
+ *
+ * @param data - 图像像素
+ * @param threshold - 视为透明的最大 alpha(0-255)
+ * @returns 包围盒,所有像素都透明时返回 null
+ */
+export const getOpaqueBounds = (data: ImageData, threshold: number): PixelBounds | null => {
+    const { width, height } = data;
+    const pixels = data.data;
+    const isOpaque = (x: number, y: number) => pixels[(y * width + x) * 4 + 3] > threshold;
+    const rowHasPixel = (y: number) => {
+        for (let x = 0; x < width; x++) if (isOpaque(x, y)) return true;
+        return false;
+    };
+
+    let top = 0;
+    while (top < height && !rowHasPixel(top)) top++;
+    if (top === height) return null;
+
+    let bottom = height - 1;
+    while (bottom > top && !rowHasPixel(bottom)) bottom--;
+
+    // 左右边界只需扫描上下边界之间的行
+    let left = width;
+    let right = -1;
+    for (let y = top; y <= bottom; y++) {
+        for (let x = 0; x < left; x++) {
+            if (isOpaque(x, y)) { left = x; break; }
+        }
+        for (let x = width - 1; x > right; x--) {
+            if (isOpaque(x, y)) { right = x; break; }
+        }
+    }
+
+    return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * 将尺寸向上对齐
+ *
+ * @param value - 原尺寸
+ * @param snap - 对齐方式
+ */
+export const snapDimension = (value: number, snap: DimensionSnap): number => {
+    switch (snap) {
+        case 'power-of-two':
+            return nextPowerOfTwo(value);
+        case 'multiple-of-4':
+            return Math.ceil(value / 4) * 4;
+        default:
+            return value;
+    }
+};
+
+/**
+ * 读取图像像素
+ */
+const readPixels = (source: ImageBitmap): ImageData => {
+    const canvas = new OffscreenCanvas(source.width, source.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(source, 0, 0);
+    return ctx.getImageData(0, 0, source.width, source.height);
+};
+
+/**
+ * 按取景选项生成新画布
+ *
+ * 处理顺序: 裁剪透明边缘 → 追加边距 → 尺寸对齐(在右侧和底部补透明像素)。
+ * 开启 fullCanvas 时改为将图像放到 PSD 画布上的原位置,忽略裁剪和边距,超出画布的部分被裁掉。
+ * 全透明的图像不裁剪。
+ *
+ * @param source - 原图像
+ * @param framing - 取景选项
+ * @param position - 原图像左上角在文档中的位置,fullCanvas 时使用
+ * @param documentSize - PSD 画布尺寸,fullCanvas 时使用,未提供时不扩展
+ * @returns 取景后的图像,画布范围与原图像相同时返回 null
+ */
+export const frameImage = (
+    source: ImageBitmap,
+    framing: ImageFraming,
+    position: { x: number; y: number },
+    documentSize?: { width: number; height: number }
+): FramedImage | null => {
+    // 新画布在原图像坐标系中的范围
+    let bounds: PixelBounds = { x: 0, y: 0, width: source.width, height: source.height };
+
+    if (framing.fullCanvas && documentSize) {
+        bounds = { x: -position.x, y: -position.y, width: documentSize.width, height: documentSize.height };
+    } else {
+        if (framing.trim) {
+            bounds = getOpaqueBounds(readPixels(source), framing.trimThreshold) ?? bounds;
+        }
+        if (framing.padding > 0) {
+            bounds = {
+                x: bounds.x - framing.padding,
+                y: bounds.y - framing.padding,
+                width: bounds.width + framing.padding * 2,
+                height: bounds.height + framing.padding * 2,
+            };
+        }
+    }
+
+    bounds.width = snapDimension(bounds.width, framing.snap);
+    bounds.height = snapDimension(bounds.height, framing.snap);
+
+    if (bounds.x === 0 && bounds.y === 0 && bounds.width === source.width && bounds.height === source.height) {
+        return null;
+    }
+
+    const canvas = new OffscreenCanvas(bounds.width, bounds.height);
+    canvas.getContext('2d')!.drawImage(source, -bounds.x, -bounds.y);
+    return { canvas, offsetX: bounds.x, offsetY: bounds.y };
+};
@@ -0,0 +1,313 @@
+/**
+ * 图层图像存储模块
+ *
+ * 以图像键(见 layerImageKey)为索引保存解码后的 ImageBitmap,取代在图层对象上保存 base64 PNG。
+ * PNG 编码、object URL 和 ImageData 都只在首次请求时生成并缓存,
+ * 切换文件时调用 clearImages() 统一释放位图并撤销 object URL。
+ */
+
+import { createCanvas } from './imageUtils';
+
+/**
+ * 单个图像条目
+ */
+interface ImageEntry {
+    /** 解码后的位图 */
+    bitmap: ImageBitmap;
+    /** 按需编码的 PNG Blob */
+    pngBlob?: Promise<Blob | null>;
+    /** 按需创建的 object URL(指向 pngBlob) */
+    objectUrl?: Promise<string | null>;
+}
+
+/** 图像变化监听器 */
+type ImageListener = () => void;
+
+const entries = new Map<string, ImageEntry>();
+const listeners = new Map<string, Set<ImageListener>>();
+
+/** PSD 全图合成图的图像键 */
+export const COMPOSITE_IMAGE_KEY = 'psd:composite';
+
+/** 按当前图层可见性重新合成的全图的图像键(见 useVisibleComposite) */
+export const VISIBLE_COMPOSITE_IMAGE_KEY = 'psd:visible';
+
+/**
+ * 获取图层预览图的图像键
+ *
+ * @param layerId - 图层 id
+ */
+export const layerImageKey = (layerId: string): string => `layer:${layerId}`;
+
+/**
+ * 获取图层组动态预览图(考虑隐藏状态)的图像键
+ *
+ * @param groupId - 图层组 id
+ */
+export const groupPreviewImageKey = (groupId: string): string => `preview:${groupId}`;
+
+/**
+ * 获取按当前隐藏状态重新合成的导出用组图像的图像键(导出时临时生成,写入文件后删除)
+ *
+ * @param groupId - 图层组 id
+ */
+export const groupExportImageKey = (groupId: string): string => `group:${groupId}`;
+
+/**
+ * 获取图层原始像素(未应用蒙版和剪贴)的图像键
+ *
+ * 仅带蒙版或剪贴的图层有,此时 layerImageKey 对应的是处理后的像素
+ *
+ * @param layerId - 图层 id
+ */
+export const rawLayerImageKey = (layerId: string): string => `raw:${layerId}`;
+
+/**
+ * 获取图层蒙版(灰度)的图像键
+ *
+ * @param layerId - 图层或图层组 id
+ */
+export const maskImageKey = (layerId: string): string => `mask:${layerId}`;
+
+/**
+ * 获取栅格化图层效果后的图像键(导出时按需生成)
+ *
+ * @param layerId - 图层或图层组 id
+ */
+export const effectsImageKey = (layerId: string): string => `fx:${layerId}`;
+
+/**
+ * 获取按取景选项调整画布后的图像键(导出时临时生成,写入文件后删除)
+ *
+ * @param layerId - 图层或图层组 id
+ */
+export const framedImageKey = (layerId: string): string => `framed:${layerId}`;
+
+/**
+ * 获取图集页面的图像键(导出时临时生成,写入文件后删除)
+ *
+ * @param pageIndex - 页面序号
+ */
+export const atlasPageImageKey = (pageIndex: number): string => `atlas:${pageIndex}`;
+
+/**
+ * 获取缩放后的图像键(按导出标签或缩放变体导出时临时生成,写入文件后删除)
+ *
+ * @param sourceKey - 原图像键
+ * @param index - 输出文件序号
+ */
+export const scaledImageKey = (sourceKey: string, index: number): string => `scaled:${sourceKey}:${index}`;
+
+/**
+ * 获取贴图 mipmap 级别的图像键(BLP/TGA 导入,第 0 级的颜色图像即贴图图层的 layerImageKey)
+ *
+ * @param level - mipmap 级别
+ * @param alpha - 是否为 alpha 通道的灰度视图
+ */
+export const textureMipImageKey = (level: number, alpha: boolean): string => `${alpha ? 'mip-alpha' : 'mip'}:${level}`;
+
+const notify = (key: string) => {
+    listeners.get(key)?.forEach(listener => listener());
+};
+
+/**
+ * 释放单个条目占用的资源
+ */
+const releaseEntry = (entry: ImageEntry) => {
+    entry.bitmap.close();
+    entry.objectUrl?.then(url => {
+        if (url) URL.revokeObjectURL(url);
+    });
+};
+
+/**
+ * 保存图像,同一键已有图像时先释放旧图像
+ *
+ * @param key - 图像键
+ * @param bitmap - 解码后的位图,所有权转移给存储
+ */
+export const putImage = (key: string, bitmap: ImageBitmap): void => {
+    const previous = entries.get(key);
+    if (previous) {
+        releaseEntry(previous);
+    }
+    entries.set(key, { bitmap });
+    notify(key);
+};
+
+/**
+ * 判断图像是否已就绪
+ *
+ * @param key - 图像键
+ */
+export const hasImage = (key: string | null | undefined): boolean => {
+    return !!key && entries.has(key);
+};
+
+/**
+ * 获取图像位图
+ *
+ * @param key - 图像键
+ * @returns 位图,不存在时返回 null
+ */
+export const getImageBitmap = (key: string | null | undefined): ImageBitmap | null => {
+    return (key && entries.get(key)?.bitmap) || null;
+};
+
+/**
+ * 将图像绘制到新画布
+ *
+ * @param key - 图像键
+ * @param background - 背景色,不传则保持透明
+ * @returns 画布,图像不存在时返回 null
+ */
+export const drawImageToCanvas = (key: string, background?: string) => {
+    const bitmap = getImageBitmap(key);
+    if (!bitmap) return null;
+
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) return null;
+
+    if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return { canvas, ctx };
+};
+
+/**
+ * 将图像编码为指定格式的 Blob
+ *
+ * @param key - 图像键
+ * @param type - MIME 类型,默认为 'image/png'
+ * @param quality - 图片质量(0-1),仅对有损格式有效
+ * @returns Promise,resolve 时返回 Blob,图像不存在或编码失败返回 null
+ */
+export const encodeImage = async (
+    key: string,
+    type: string = 'image/png',
+    quality: number = 1.0
+): Promise<Blob | null> => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    // PNG 结果会被预览和导出反复使用,缓存起来
+    if (type === 'image/png' && entry.pngBlob) {
+        return entry.pngBlob;
+    }
+
+    // JPG 不支持透明,填充白色背景（防止透明背景变成黑色）
+    const drawn = drawImageToCanvas(key, type === 'image/jpeg' ? '#FFFFFF' : undefined);
+    if (!drawn) return null;
+
+    const { canvas } = drawn;
+    const promise = (canvas instanceof OffscreenCanvas
+        ? canvas.convertToBlob({ type, quality })
+        : new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality))
+    ).catch(error => {
+        console.error('图像编码失败:', error);
+        return null;
+    });
+
+    if (type === 'image/png') {
+        entry.pngBlob = promise;
+    }
+    return promise;
+};
+
+/**
+ * 获取图像编码后的字节数据
+ *
+ * @param key - 图像键
+ * @param type - MIME 类型,默认为 'image/png'
+ * @param quality - 图片质量(0-1),仅对有损格式有效
+ * @returns Promise,resolve 时返回编码后的字节,图像不存在返回 null
+ */
+export const getImageBytes = async (
+    key: string,
+    type: string = 'image/png',
+    quality?: number
+): Promise<Uint8Array | null> => {
+    const blob = await encodeImage(key, type, quality);
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+};
+
+/**
+ * 获取图像的 object URL(用于 `<img>` 显示)
+ *
+ * URL 在首次请求时创建,并在图像被替换或 clearImages() 时撤销
+ *
+ * @param key - 图像键
+ * @returns Promise,resolve 时返回 object URL,图像不存在返回 null
+ */
+export const getImageUrl = (key: string): Promise<string | null> => {
+    const entry = entries.get(key);
+    if (!entry) return Promise.resolve(null);
+
+    if (!entry.objectUrl) {
+        entry.objectUrl = encodeImage(key).then(blob => blob ? URL.createObjectURL(blob) : null);
+    }
+    return entry.objectUrl;
+};
+
+/**
+ * 获取图像的像素数据
+ *
+ * @param key - 图像键
+ * @returns ImageData,图像不存在返回 null
+ */
+export const getStoredImageData = (key: string): ImageData | null => {
+    const drawn = drawImageToCanvas(key);
+    if (!drawn) return null;
+    return drawn.ctx.getImageData(0, 0, drawn.canvas.width, drawn.canvas.height);
+};
+
+/**
+ * 订阅指定图像的变化(写入、替换、删除)
+ *
+ * @param key - 图像键
+ * @param listener - 变化时调用
+ * @returns 取消订阅函数
+ */
+export const subscribeImage = (key: string, listener: ImageListener): (() => void) => {
+    let set = listeners.get(key);
+    if (!set) {
+        set = new Set();
+        listeners.set(key, set);
+    }
+    set.add(listener);
+
+    return () => {
+        set!.delete(listener);
+        if (set!.size === 0) {
+            listeners.delete(key);
+        }
+    };
+};
+
+/**
+ * 删除单个图像并释放资源
+ *
+ * @param key - 图像键
+ */
+export const deleteImage = (key: string): void => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    releaseEntry(entry);
+    entries.delete(key);
+    notify(key);
+};
+
+/**
+ * 清空所有图像,关闭位图并撤销 object URL
+ *
+ * 切换或重置文件时调用
+ */
+export const clearImages = (): void => {
+    const keys = Array.from(entries.keys());
+    entries.forEach(releaseEntry);
+    entries.clear();
+    keys.forEach(notify);
+};
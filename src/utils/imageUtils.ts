@@ -34,6 +34,89 @@ export const canvasToDataURL = (
     }
 };
 
+/**
+ * 主线程与 Worker 通用的画布类型
+ */
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * 创建画布
+ *
+ * 在主线程中创建 `<canvas>` 元素,在 Web Worker 中(无 document)创建 OffscreenCanvas
+ *
+ * @param width - 画布宽度
+ * @param height - 画布高度
+ * @returns 新建的画布
+ */
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+    if (typeof document !== 'undefined') {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    }
+    return new OffscreenCanvas(width, height);
+};
+
+/**
+ * 主线程与 Worker 通用的 2D 绘图上下文类型
+ */
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * 获取画布的 2D 绘图上下文
+ *
+ * @param canvas - 画布
+ * @returns 2D 上下文,不支持时返回 null
+ */
+export const getContext2D = (canvas: AnyCanvas): AnyContext2D | null => {
+    return canvas.getContext('2d') as AnyContext2D | null;
+};
+
+/**
+ * 将 Blob 读取为 base64 data URL
+ *
+ * @param blob - 要读取的 Blob
+ * @returns Promise,resolve 时返回 data URL
+ */
+export const blobToDataURL = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * 将任意画布编码为 base64 图片 URL
+ *
+ * 与 `canvasToDataURL` 相同,但同时支持 Worker 中的 OffscreenCanvas
+ *
+ * @param canvas - 要编码的画布
+ * @param format - 图片格式,默认为 'image/png'
+ * @param quality - 图片质量(0-1)
+ * @returns Promise,resolve 时返回 base64 URL,失败返回 null
+ */
+export const encodeCanvasToDataURL = async (
+    canvas: AnyCanvas | undefined,
+    format: string = 'image/png',
+    quality: number = 1.0
+): Promise<string | null> => {
+    if (!canvas) return null;
+    if (typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement) {
+        return canvasToDataURL(canvas, format, quality);
+    }
+
+    try {
+        const blob = await (canvas as OffscreenCanvas).convertToBlob({ type: format, quality });
+        return await blobToDataURL(blob);
+    } catch (error) {
+        console.error('OffscreenCanvas 编码失败:', error);
+        return null;
+    }
+};
+
 /**
  * 将 base64 字符串转换为 Uint8Array
  * 
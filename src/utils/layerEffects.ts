@@ -0,0 +1,349 @@
+/**
+ * 图层效果渲染模块
+ *
+ * 将 PSD 图层样式中常用的效果栅格化到图层像素上,支持:
+ * - 投影、外发光: 绘制在图层内容下方
+ * - 颜色叠加、内发光: 只作用于图层内容的不透明区域
+ * - 描边: 外部描边绘制在内容下方,内部/居中描边的内侧部分绘制在内容上方
+ *
+ * 效果基于图层的透明度轮廓计算: 扩展/阻塞使用欧氏距离变换,柔化使用画布的 blur 滤镜。
+ * 输出画布按效果范围向外扩展,需要 CanvasRenderingContext2D.filter 支持(主线程使用)。
+ */
+
+import { EffectColor, LayerEffects } from '../types';
+import { AnyCanvas, AnyContext2D, createCanvas, getContext2D } from './imageUtils';
+import { PixelSource, blendOnto } from './compositor';
+
+/**
+ * 效果超出图层像素的范围(像素)
+ */
+export interface EffectsExtent {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * 栅格化效果后的图像
+ */
+export interface RenderedEffects {
+    /** 包含效果的画布 */
+    canvas: AnyCanvas;
+    /** 画布左上角相对原图层左上角的 X 偏移(≤ 0) */
+    offsetX: number;
+    /** 画布左上角相对原图层左上角的 Y 偏移(≤ 0) */
+    offsetY: number;
+}
+
+/** 距离变换中"无穷远"的平方距离 */
+const INF = 1e20;
+
+/**
+ * 判断图层是否带有可栅格化的效果
+ *
+ * @param effects - 图层效果
+ */
+export const hasLayerEffects = (effects: LayerEffects | null | undefined): effects is LayerEffects => {
+    return !!effects && !!(
+        effects.dropShadows?.length ||
+        effects.outerGlow ||
+        effects.innerGlow ||
+        effects.colorOverlays?.length ||
+        effects.strokes?.length
+    );
+};
+
+/**
+ * 计算投影相对图层的偏移(光源在 angle 方向,投影落在相反方向)
+ */
+const getShadowOffset = (angle: number, distance: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return {
+        dx: Math.round(-Math.cos(radians) * distance),
+        dy: Math.round(Math.sin(radians) * distance),
+    };
+};
+
+/**
+ * 计算效果超出图层像素的范围
+ *
+ * @param effects - 图层效果
+ * @returns 四个方向需要扩展的像素数
+ *
+ * @example
+ * ```ts
+ * const extent = getEffectsExtent(layer.effects);
+ * const exportWidth = layer.width + extent.left + extent.right;
+ * ```
+ */
+export const getEffectsExtent = (effects: LayerEffects): EffectsExtent => {
+    const extent: EffectsExtent = { left: 0, top: 0, right: 0, bottom: 0 };
+    const grow = (left: number, top: number, right: number, bottom: number) => {
+        extent.left = Math.max(extent.left, Math.ceil(left));
+        extent.top = Math.max(extent.top, Math.ceil(top));
+        extent.right = Math.max(extent.right, Math.ceil(right));
+        extent.bottom = Math.max(extent.bottom, Math.ceil(bottom));
+    };
+
+    for (const stroke of effects.strokes || []) {
+        const outside = stroke.position === 'outside' ? stroke.size : stroke.position === 'center' ? stroke.size / 2 : 0;
+        grow(outside, outside, outside, outside);
+    }
+
+    if (effects.outerGlow) {
+        const { size } = effects.outerGlow;
+        grow(size, size, size, size);
+    }
+
+    for (const shadow of effects.dropShadows || []) {
+        const { dx, dy } = getShadowOffset(shadow.angle, shadow.distance);
+        grow(shadow.size - dx, shadow.size - dy, shadow.size + dx, shadow.size + dy);
+    }
+
+    return extent;
+};
+
+/**
+ * 一维平方距离变换(Felzenszwalb & Huttenlocher)
+ */
+const distanceTransform1D = (f: Float32Array, n: number, d: Float32Array, v: Int32Array, z: Float32Array) => {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -INF;
+    z[1] = INF;
+
+    for (let q = 1; q < n; q++) {
+        let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+        while (s <= z[k]) {
+            k--;
+            s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+        }
+        k++;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = INF;
+    }
+
+    k = 0;
+    for (let q = 0; q < n; q++) {
+        while (z[k + 1] < q) k++;
+        d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+    }
+};
+
+/**
+ * 计算每个像素到最近"形状内"像素的欧氏距离(形状内像素为 0)
+ *
+ * @param alpha - 透明度(0-1)
+ * @param inverse - 为 true 时以透明区域作为形状,得到不透明像素到边缘的距离
+ */
+const distanceToShape = (alpha: Float32Array, width: number, height: number, inverse: boolean): Float32Array => {
+    const grid = new Float32Array(width * height);
+    for (let i = 0; i < grid.length; i++) {
+        const inside = inverse ? alpha[i] < 0.5 : alpha[i] >= 0.5;
+        grid[i] = inside ? 0 : INF;
+    }
+
+    const size = Math.max(width, height);
+    const f = new Float32Array(size);
+    const d = new Float32Array(size);
+    const v = new Int32Array(size);
+    const z = new Float32Array(size + 1);
+
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+        distanceTransform1D(f, height, d, v, z);
+        for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+    }
+
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        for (let x = 0; x < width; x++) f[x] = grid[row + x];
+        distanceTransform1D(f, width, d, v, z);
+        for (let x = 0; x < width; x++) grid[row + x] = Math.sqrt(d[x]);
+    }
+
+    return grid;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * 将形状向外扩展 radius 像素(保留原边缘的抗锯齿)
+ */
+const spreadShape = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+    if (radius <= 0) return alpha;
+    const distance = distanceToShape(alpha, width, height, false);
+    const result = new Float32Array(alpha.length);
+    for (let i = 0; i < alpha.length; i++) {
+        result[i] = Math.max(alpha[i], clamp01(radius - distance[i] + 0.5));
+    }
+    return result;
+};
+
+/**
+ * 取出画布的透明度(0-1)
+ */
+const readAlpha = (ctx: AnyContext2D, width: number, height: number): Float32Array => {
+    const data = ctx.getImageData(0, 0, width, height).data;
+    const alpha = new Float32Array(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+        alpha[i] = data[i * 4 + 3] / 255;
+    }
+    return alpha;
+};
+
+/**
+ * 以纯色和给定透明度绘制形状,可选模糊
+ *
+ * @param alpha - 形状透明度(0-1)
+ * @param color - 颜色
+ * @param blurRadius - 模糊半径(像素),对应 Photoshop 中"大小"减去扩展的部分
+ */
+const paintShape = (
+    alpha: Float32Array,
+    width: number,
+    height: number,
+    color: EffectColor,
+    blurRadius: number = 0
+): AnyCanvas => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas) as AnyContext2D;
+    const pixels = ctx.createImageData(width, height);
+    const data = pixels.data;
+    for (let i = 0; i < alpha.length; i++) {
+        data[i * 4] = color.r;
+        data[i * 4 + 1] = color.g;
+        data[i * 4 + 2] = color.b;
+        data[i * 4 + 3] = Math.round(alpha[i] * 255);
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    if (blurRadius <= 0) return canvas;
+
+    // 高斯模糊的标准差约为 Photoshop "大小"的一半
+    const blurred = createCanvas(width, height);
+    const blurredCtx = getContext2D(blurred) as AnyContext2D;
+    blurredCtx.filter = `blur(${blurRadius / 2}px)`;
+    blurredCtx.drawImage(canvas, 0, 0);
+    return blurred;
+};
+
+/**
+ * 将画布的透明度恢复为给定值(用于只作用于图层内容的效果)
+ */
+const restoreAlpha = (ctx: AnyContext2D, alpha: Float32Array, width: number, height: number) => {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < alpha.length; i++) {
+        pixels.data[i * 4 + 3] = Math.round(alpha[i] * 255);
+    }
+    ctx.putImageData(pixels, 0, 0);
+};
+
+/**
+ * 栅格化图层效果
+ *
+ * @param source - 图层像素(已应用蒙版和剪贴)
+ * @param effects - 图层效果
+ * @returns 包含效果的画布,以及画布相对原图层左上角的偏移
+ *
+ * @example
+ * ```ts
+ * const { canvas, offsetX, offsetY } = renderLayerEffects(bitmap, layer.effects);
+ * // 导出图像左上角位于文档坐标 (layer.left + offsetX, layer.top + offsetY)
+ * ```
+ */
+export const renderLayerEffects = (source: PixelSource, effects: LayerEffects): RenderedEffects => {
+    const extent = getEffectsExtent(effects);
+    const strokes = effects.strokes || [];
+
+    // 内部效果需要在图层边界外留出透明区域,才能把画布边缘视为图层边缘
+    const innerSize = Math.max(effects.innerGlow?.size ?? 0, ...strokes.map(stroke => stroke.size));
+    const margin = Math.ceil(innerSize) + 1;
+    const padLeft = Math.max(extent.left, margin);
+    const padTop = Math.max(extent.top, margin);
+    const width = source.width + padLeft + Math.max(extent.right, margin);
+    const height = source.height + padTop + Math.max(extent.bottom, margin);
+
+    // 图层内容(颜色叠加、内发光在此画布上合成)
+    const content = createCanvas(width, height);
+    const contentCtx = getContext2D(content) as AnyContext2D;
+    contentCtx.drawImage(source, padLeft, padTop);
+    const alpha = readAlpha(contentCtx, width, height);
+
+    const result = createCanvas(width, height);
+
+    for (const shadow of effects.dropShadows || []) {
+        const spread = (shadow.size * shadow.spread) / 100;
+        const { dx, dy } = getShadowOffset(shadow.angle, shadow.distance);
+        const shape = paintShape(spreadShape(alpha, width, height, spread), width, height, shadow.color, shadow.size - spread);
+        blendOnto(result, shape, dx, dy, shadow.blendMode, shadow.opacity);
+    }
+
+    if (effects.outerGlow) {
+        const glow = effects.outerGlow;
+        const spread = (glow.size * glow.spread) / 100;
+        const shape = paintShape(spreadShape(alpha, width, height, spread), width, height, glow.color, glow.size - spread);
+        blendOnto(result, shape, 0, 0, glow.blendMode, glow.opacity);
+    }
+
+    // 外部描边(以及居中描边的外侧一半)绘制在内容下方
+    for (const stroke of strokes) {
+        if (stroke.position === 'inside') continue;
+        const radius = stroke.position === 'outside' ? stroke.size : stroke.size / 2;
+        const shape = paintShape(spreadShape(alpha, width, height, radius), width, height, stroke.color);
+        blendOnto(result, shape, 0, 0, stroke.blendMode, stroke.opacity);
+    }
+
+    const hasInnerEffects = !!effects.colorOverlays?.length || !!effects.innerGlow;
+    for (const overlay of effects.colorOverlays || []) {
+        const fill = paintShape(new Float32Array(alpha.length).fill(1), width, height, overlay.color);
+        blendOnto(content, fill, 0, 0, overlay.blendMode, overlay.opacity);
+    }
+
+    if (effects.innerGlow) {
+        const glow = effects.innerGlow;
+        const spread = (glow.size * glow.spread) / 100;
+        // 以透明区域为形状向内扩展并模糊,得到从边缘向内衰减的发光
+        const outside = new Float32Array(alpha.length);
+        for (let i = 0; i < alpha.length; i++) outside[i] = 1 - alpha[i];
+        let intensity = spreadShape(outside, width, height, spread);
+        if (glow.source === 'center') {
+            intensity = intensity.map(value => 1 - value);
+        }
+        const shape = paintShape(intensity, width, height, glow.color, glow.size - spread);
+        blendOnto(content, shape, 0, 0, glow.blendMode, glow.opacity);
+    }
+
+    if (hasInnerEffects) {
+        restoreAlpha(contentCtx, alpha, width, height);
+    }
+
+    getContext2D(result)?.drawImage(content, 0, 0);
+
+    // 内部描边(以及居中描边的内侧一半)绘制在内容上方
+    const insideDistance = strokes.some(stroke => stroke.position !== 'outside')
+        ? distanceToShape(alpha, width, height, true)
+        : null;
+    for (const stroke of strokes) {
+        if (stroke.position === 'outside' || !insideDistance) continue;
+        const radius = stroke.position === 'inside' ? stroke.size : stroke.size / 2;
+        const band = new Float32Array(alpha.length);
+        for (let i = 0; i < alpha.length; i++) {
+            band[i] = alpha[i] * clamp01(radius - insideDistance[i] + 0.5);
+        }
+        blendOnto(result, paintShape(band, width, height, stroke.color), 0, 0, stroke.blendMode, stroke.opacity);
+    }
+
+    // 裁掉为内部效果预留的边距,只保留效果实际覆盖的范围
+    const cropLeft = padLeft - extent.left;
+    const cropTop = padTop - extent.top;
+    const output = createCanvas(
+        source.width + extent.left + extent.right,
+        source.height + extent.top + extent.bottom
+    );
+    getContext2D(output)?.drawImage(result, -cropLeft, -cropTop);
+
+    return { canvas: output, offsetX: -extent.left, offsetY: -extent.top };
+};
@@ -4,6 +4,12 @@
  * 提供图层相关的工具函数,包括图层类型判断、边界计算等
  */
 
+import { LayerMaskInfo, LayerTreeNode } from '../types';
+import { deleteImage, getImageBitmap, groupExportImageKey, groupPreviewImageKey, putImage } from './imageStore';
+import { CompositeLayer, CompositeMask, compositeLayers, renderGroupImage } from './compositor';
+import { AnyCanvas } from './imageUtils';
+import { hasLayerEffects, renderLayerEffects } from './layerEffects';
+
 /**
  * 图层边界信息接口
  */
@@ -211,175 +217,298 @@ export const getLayerOpacity = (layer: any): number => {
 };
 
 /**
- * 从图层树节点递归收集所有可见的叶子图层（用于动态合成组预览）
- * 
- * @param node - 图层树节点
- * @param hiddenLayers - 隐藏的图层索引集合
- * @param result - 结果数组（递归使用）
- * @returns 所有可见叶子图层的数组，每个元素包含 imageUrl、left、top、opacity、width、height 等信息
+ * 从图像存储中取出蒙版位图,转换为合成引擎的蒙版(位图尚未到达时忽略蒙版)
  */
-const collectVisibleLeafLayersFromNode = (
-    node: any,
-    hiddenLayers: Set<number>,
-    result: Array<{ 
-        imageUrl: string; 
-        left: number; 
-        top: number; 
-        opacity: number; 
-        width: number;
-        height: number;
-        index?: number 
-    }> = []
-): Array<{ 
-    imageUrl: string; 
-    left: number; 
-    top: number; 
-    opacity: number; 
-    width: number;
-    height: number;
-    index?: number 
-}> => {
-    // 如果节点被隐藏，跳过
-    if (node.index !== undefined && hiddenLayers.has(node.index)) {
-        return result;
-    }
+const toCompositeMask = (mask: LayerMaskInfo | undefined): CompositeMask | null => {
+    const source = mask ? getImageBitmap(mask.imageKey) : null;
+    if (!mask || !source) return null;
+    return {
+        source,
+        left: mask.left,
+        top: mask.top,
+        width: mask.width,
+        height: mask.height,
+        defaultColor: mask.defaultColor,
+    };
+};
 
-    if (node.isGroup && node.children) {
-        // 如果是组，递归处理子节点
-        for (const child of node.children) {
-            collectVisibleLeafLayersFromNode(child, hiddenLayers, result);
+/**
+ * 将图层树节点转换为合成引擎的图层栈(用于主线程动态合成)
+ *
+ * 叶子图层的像素取自图像存储,尚未到达的图像视为无内容;hiddenLayers 中的节点标记为隐藏。
+ * 叶子图层使用原始像素(可选栅格化图层效果),蒙版和剪贴由合成引擎处理,基底图层被隐藏时剪贴图层随之隐藏
+ *
+ * @param nodes - 图层树节点(自下而上)
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ * @param rasterizeEffects - 是否栅格化叶子图层的图层效果(导出时对应 ExportOptions.rasterizeEffects)
+ * @returns 合成引擎图层栈
+ */
+export const treeToCompositeLayers = (
+    nodes: LayerTreeNode[],
+    hiddenLayers: Set<string>,
+    rasterizeEffects: boolean = true
+): CompositeLayer[] => {
+    return nodes.map(node => {
+        if (node.isGroup) {
+            return {
+                name: node.name,
+                left: 0,
+                top: 0,
+                width: node.width ?? 0,
+                height: node.height ?? 0,
+                opacity: getLayerOpacity(node),
+                blendMode: node.blendMode ?? 'pass through',
+                hidden: hiddenLayers.has(node.id),
+                mask: toCompositeMask(node.mask),
+                children: treeToCompositeLayers(node.children || [], hiddenLayers, rasterizeEffects),
+            };
         }
-    } else if (node.layer && node.layer.imageUrl) {
-        // 如果是叶子节点且有图片数据，添加到结果
-        result.push({
-            imageUrl: node.layer.imageUrl,
-            left: node.layer.left ?? 0,
-            top: node.layer.top ?? 0,
-            opacity: node.layer.opacity ?? 255,
-            width: node.layer.width ?? 0,
-            height: node.layer.height ?? 0,
-            index: node.index
-        });
-    } else if (node.imageUrl && !node.isGroup) {
-        // 如果节点本身有图片数据（非组），也添加
-        result.push({
-            imageUrl: node.imageUrl,
-            left: node.layer?.left ?? node.left ?? 0,
-            top: node.layer?.top ?? node.top ?? 0,
-            opacity: node.layer?.opacity ?? node.opacity ?? 255,
-            width: node.layer?.width ?? node.width ?? 0,
-            height: node.layer?.height ?? node.height ?? 0,
-            index: node.index
-        });
-    }
 
-    return result;
+        const layer = node.layer;
+        const bitmap = getImageBitmap(layer?.rawImageKey ?? node.imageKey);
+        // 有图层效果时合成栅格化后的画布,画布可能向四周扩展,位置随偏移调整
+        const rendered = bitmap && rasterizeEffects && hasLayerEffects(layer?.effects) ? renderLayerEffects(bitmap, layer.effects) : null;
+        const source = rendered ? rendered.canvas : bitmap;
+        return {
+            name: node.name,
+            source,
+            left: (layer?.left ?? 0) + (rendered?.offsetX ?? 0),
+            top: (layer?.top ?? 0) + (rendered?.offsetY ?? 0),
+            width: source?.width ?? 0,
+            height: source?.height ?? 0,
+            opacity: layer ? getLayerOpacity(layer) : 1,
+            blendMode: layer?.blendMode ?? 'normal',
+            hidden: hiddenLayers.has(node.id),
+            clipping: layer?.clipping === true,
+            mask: toCompositeMask(layer?.mask),
+        };
+    });
+};
+
+/**
+ * 按当前隐藏状态重新合成整个文档
+ *
+ * 包含图层树中的像素图层、图层效果、蒙版和剪贴,不包含调整图层,
+ * 因此与 PSD 自带的全图合成可能略有差异
+ *
+ * @param tree - 图层树
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ * @param width - 文档宽度
+ * @param height - 文档高度
+ * @returns 文档尺寸的合成画布,没有可见内容时返回 null
+ *
+ * @example
+ * ```ts
+ * const canvas = renderDocumentComposite(layerTree, hiddenLayers, psdInfo.width, psdInfo.height);
+ * ```
+ */
+export const renderDocumentComposite = (
+    tree: LayerTreeNode[],
+    hiddenLayers: Set<string>,
+    width: number,
+    height: number
+): AnyCanvas | null => {
+    return compositeLayers(treeToCompositeLayers(tree, hiddenLayers), { left: 0, top: 0, width, height });
+};
+
+/**
+ * 按当前隐藏状态合成组图像并写入图像存储(同一键的旧图像会被替换并释放)
+ *
+ * @returns 图像键和在文档中的位置,没有可见内容时返回 null
+ */
+const renderVisibleGroup = async (
+    groupNode: LayerTreeNode,
+    hiddenLayers: Set<string>,
+    rasterizeEffects: boolean,
+    imageKey: string
+): Promise<{ imageKey: string; left: number; top: number } | null> => {
+    const [group] = treeToCompositeLayers([groupNode], hiddenLayers, rasterizeEffects);
+    const groupImage = renderGroupImage(group);
+    if (!groupImage) return null;
+
+    putImage(imageKey, await createImageBitmap(groupImage.canvas));
+    return { imageKey, left: groupImage.bounds.left, top: groupImage.bounds.top };
 };
 
 /**
  * 动态生成组的预览图（根据隐藏状态）
  * 
+ * 使用合成引擎按各图层的混合模式和不透明度合成
+ * 
  * @param groupNode - 组节点（LayerTreeNode）
- * @param hiddenLayers - 隐藏的图层索引集合
- * @returns Promise，resolve 时返回生成的预览图 base64 URL，如果无法生成则返回 null
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ * @returns Promise，resolve 时返回预览图在图像存储中的键，如果无法生成则返回 null
  * 
  * @example
  * ```ts
- * const previewUrl = await generateGroupPreview(groupNode, hiddenLayers);
- * if (previewUrl) {
+ * const previewKey = await generateGroupPreview(groupNode, hiddenLayers);
+ * if (previewKey) {
  *   console.log('预览图已生成');
  * }
  * ```
  */
 export const generateGroupPreview = async (
-    groupNode: any,
-    hiddenLayers: Set<number>
+    groupNode: LayerTreeNode,
+    hiddenLayers: Set<string>
 ): Promise<string | null> => {
     if (!groupNode || !groupNode.isGroup || !groupNode.children) {
         return null;
     }
 
     try {
-        // 收集所有可见的叶子图层
-        const visibleLayers = collectVisibleLeafLayersFromNode(groupNode, hiddenLayers);
+        // 如果没有可见图层，返回 null
+        const preview = await renderVisibleGroup(groupNode, hiddenLayers, true, groupPreviewImageKey(groupNode.id));
+        return preview ? preview.imageKey : null;
+    } catch (error) {
+        console.error('生成组预览图失败:', error);
+        return null;
+    }
+};
 
-        if (visibleLayers.length === 0) {
-            // 如果没有可见图层，返回 null
-            return null;
-        }
+/**
+ * 判断组内是否有被隐藏的子孙节点
+ *
+ * @param node - 组节点
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ */
+export const hasHiddenDescendant = (node: LayerTreeNode, hiddenLayers: Set<string>): boolean => {
+    return (node.children ?? []).some(child => hiddenLayers.has(child.id) || hasHiddenDescendant(child, hiddenLayers));
+};
 
-        // 计算所有可见图层的包围边界
-        let minLeft = Infinity;
-        let minTop = Infinity;
-        let maxRight = -Infinity;
-        let maxBottom = -Infinity;
-
-        for (const layer of visibleLayers) {
-            // 使用图层的尺寸信息计算边界
-            const right = layer.left + layer.width;
-            const bottom = layer.top + layer.height;
-
-            if (layer.width > 0 && layer.height > 0) {
-                minLeft = Math.min(minLeft, layer.left);
-                minTop = Math.min(minTop, layer.top);
-                maxRight = Math.max(maxRight, right);
-                maxBottom = Math.max(maxBottom, bottom);
-            }
-        }
+/**
+ * 判断组内是否有带图层效果的子孙图层
+ *
+ * @param node - 组节点
+ */
+export const hasDescendantEffects = (node: LayerTreeNode): boolean => {
+    return (node.children ?? []).some(child => hasLayerEffects(child.layer?.effects) || hasDescendantEffects(child));
+};
 
-        const groupWidth = maxRight - minLeft;
-        const groupHeight = maxBottom - minTop;
+/**
+ * 获取按当前隐藏状态导出组时使用的图像
+ *
+ * 解析时合成的组图像不反映界面中的隐藏状态,也不含子孙图层的图层效果。没有隐藏的子孙图层,
+ * 且不栅格化效果或子孙图层都没有效果时直接使用它;否则按相同设置重新合成,
+ * 结果写入 groupExportImageKey,导出后调用 releaseVisibleGroupImage 删除
+ *
+ * @param groupNode - 组节点
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ * @param rasterizeEffects - 是否栅格化子孙图层的图层效果(ExportOptions.rasterizeEffects)
+ * @returns Promise,resolve 时返回图像键和在文档中的位置,组内没有可见内容时返回 null
+ *
+ * @example
+ * ```ts
+ * const image = await getVisibleGroupImage(groupNode, hiddenLayers, options.rasterizeEffects === true);
+ * if (image) await exportGroup({ ...group, ...image });
+ * releaseVisibleGroupImage(groupNode.id);
+ * ```
+ */
+export const getVisibleGroupImage = async (
+    groupNode: LayerTreeNode,
+    hiddenLayers: Set<string>,
+    rasterizeEffects: boolean
+): Promise<{ imageKey: string; left: number; top: number } | null> => {
+    const needsEffects = rasterizeEffects && hasDescendantEffects(groupNode);
+    if (!needsEffects && !hasHiddenDescendant(groupNode, hiddenLayers)) {
+        return groupNode.imageKey ? { imageKey: groupNode.imageKey, left: groupNode.left ?? 0, top: groupNode.top ?? 0 } : null;
+    }
+    return renderVisibleGroup(groupNode, hiddenLayers, rasterizeEffects, groupExportImageKey(groupNode.id));
+};
 
-        if (groupWidth <= 0 || groupHeight <= 0) {
-            return null;
-        }
+/**
+ * 删除 getVisibleGroupImage 重新合成的组图像(未重新合成时不做任何事)
+ *
+ * @param groupId - 组 id
+ */
+export const releaseVisibleGroupImage = (groupId: string): void => {
+    deleteImage(groupExportImageKey(groupId));
+};
 
-        // 创建 canvas 并合成预览图
-        const canvas = document.createElement('canvas');
-        canvas.width = groupWidth;
-        canvas.height = groupHeight;
-        const ctx = canvas.getContext('2d');
+/**
+ * 展平后的图层树行
+ */
+export interface FlatTreeRow {
+    /** 行的唯一键(即节点 id) */
+    key: string;
+    /** 对应的树节点 */
+    node: LayerTreeNode;
+    /** 缩进层级(根节点为 0) */
+    level: number;
+    /** 父行的键,根节点为 null */
+    parentKey: string | null;
+}
 
-        if (!ctx) {
-            return null;
+/**
+ * 将图层树按展开状态展平为行列表(用于虚拟滚动渲染)
+ *
+ * 只有展开的组会输出其子节点,行顺序与树的深度优先顺序一致
+ *
+ * @param tree - 图层树
+ * @param expandedKeys - 已展开组的 id 集合
+ * @returns 当前应显示的行
+ *
+ * @example
+ * ```ts
+ * const rows = flattenVisibleTree(layerTree, new Set([groupNode.id]));
+ * console.log(rows.map(r => r.node.name));
+ * ```
+ */
+export const flattenVisibleTree = (
+    tree: LayerTreeNode[],
+    expandedKeys: Set<string>
+): FlatTreeRow[] => {
+    const rows: FlatTreeRow[] = [];
+
+    const walk = (nodes: LayerTreeNode[], level: number, parentKey: string | null) => {
+        for (const node of nodes) {
+            rows.push({ key: node.id, node, level, parentKey });
+            if (node.isGroup && node.children && expandedKeys.has(node.id)) {
+                walk(node.children, level + 1, node.id);
+            }
         }
+    };
 
-        // 按顺序绘制所有可见图层
-        for (const layer of visibleLayers) {
-            // 跳过没有尺寸的图层
-            if (layer.width <= 0 || layer.height <= 0) {
-                continue;
-            }
+    walk(tree, 0, null);
+    return rows;
+};
 
-            try {
-                const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-                    const image = new Image();
-                    image.onload = () => resolve(image);
-                    image.onerror = () => {
-                        // 如果图片加载失败，跳过该图层
-                        reject(new Error(`Failed to load image: ${layer.imageUrl}`));
-                    };
-                    image.src = layer.imageUrl;
-                });
-
-                ctx.save();
-                // 设置透明度
-                const opacity = layer.opacity > 1 ? layer.opacity / 255 : layer.opacity;
-                ctx.globalAlpha = opacity;
-                // 绘制图片（相对于组的边界）
-                ctx.drawImage(img, layer.left - minLeft, layer.top - minTop);
-                ctx.restore();
-            } catch (error) {
-                // 如果某个图层加载失败，继续处理其他图层
-                console.warn(`跳过无法加载的图层:`, error);
-                continue;
-            }
+/**
+ * 收集图层树中所有节点的 id
+ *
+ * 重新解析文件后,用于剔除选中、隐藏等状态中已不存在的图层
+ *
+ * @param tree - 图层树
+ * @param result - 结果集合(递归使用)
+ * @returns 所有节点 id 的集合
+ *
+ * @example
+ * ```ts
+ * const ids = collectNodeIds(layerTree);
+ * const stillSelected = [...selectedIds].filter(id => ids.has(id));
+ * ```
+ */
+export const collectNodeIds = (tree: LayerTreeNode[], result: Set<string> = new Set()): Set<string> => {
+    for (const node of tree) {
+        result.add(node.id);
+        if (node.children) {
+            collectNodeIds(node.children, result);
         }
+    }
+    return result;
+};
 
-        // 转换为 base64 URL
-        return canvas.toDataURL('image/png');
-    } catch (error) {
-        console.error('生成组预览图失败:', error);
-        return null;
+/**
+ * 按 id 查找图层树节点
+ *
+ * @param tree - 图层树
+ * @param id - 节点 id
+ * @returns 找到的节点,不存在时返回 undefined
+ */
+export const findTreeNode = (tree: LayerTreeNode[], id: string): LayerTreeNode | undefined => {
+    for (const node of tree) {
+        if (node.id === id) return node;
+        const found = node.children ? findTreeNode(node.children, id) : undefined;
+        if (found) return found;
     }
-};
\ No newline at end of file
+    return undefined;
+};
@@ -0,0 +1,218 @@
+/**
+ * 布局清单模块
+ *
+ * 导出图片时可同时在导出根目录写入一份 JSON 清单,记录每个导出文件对应的图层在文档中的位置、
+ * 层级和显示属性,用于在引擎中还原界面布局。清单格式带版本号(LAYOUT_MANIFEST_VERSION),
+ * 字段只增不改,不兼容的修改需要提升版本号。
+ */
+
+import { LayerTreeNode } from '../types';
+import { getImageBitmap } from './imageStore';
+import { getLayerOpacity } from './layerUtils';
+
+/** 布局清单格式版本 */
+export const LAYOUT_MANIFEST_VERSION = 1;
+
+/**
+ * 文档坐标系中的矩形(原点为画布左上角,Y 向下)
+ */
+export interface ManifestRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * 清单中的单个导出文件
+ */
+export interface ManifestFileEntry {
+    /** 文件路径(相对导出根目录,用 / 分隔) */
+    file: string;
+    /**
+     * 文件内容类型
+     * - layer: 图层像素(已应用蒙版、剪贴,开启时包含图层效果)
+     * - group: 图层组合成图
+     * - raw: 图层原始像素(未应用蒙版和剪贴)
+     * - composite: PSD 全图
+     */
+    kind: 'layer' | 'group' | 'raw' | 'composite';
+    /** 源图层 id(见 LayerTreeNode.id) */
+    layerId: string;
+    /** 图层名称 */
+    name: string;
+    /** 图层在 PSD 中的路径 */
+    path: string;
+    /** 父图层组 id,位于根层级时为 null */
+    parentId: string | null;
+    /** 父图层组路径,位于根层级时为 null */
+    parentPath: string | null;
+    /** 图像在文档中的矩形(包含图层效果扩展的范围) */
+    rect: ManifestRect;
+    /** 锚点: 矩形中心相对文档宽高的比例(0-1,原点左上) */
+    anchor: { x: number; y: number };
+    /** 绘制顺序: 按 PSD 自下而上编号,数值越大越靠上;PSD 全图为 null */
+    zOrder: number | null;
+    /** 不透明度(0-1) */
+    opacity: number;
+    /** 混合模式 */
+    blendMode: string;
+    /** 文件像素相对文档像素的缩放比例(按导出标签或缩放变体缩放时不为 1) */
+    scale: number;
+}
+
+/**
+ * 布局清单
+ */
+export interface LayoutManifest {
+    /** 格式版本 */
+    version: number;
+    /** 来源文档 */
+    source: { name: string; width: number; height: number };
+    /** 导出的图片格式 */
+    format: string;
+    /** 导出文件列表(按写入顺序) */
+    files: ManifestFileEntry[];
+}
+
+/**
+ * 记录一个导出文件所需的信息
+ */
+export interface ManifestFileRecord {
+    /** 文件路径(相对导出根目录) */
+    file: string;
+    /** 文件内容类型 */
+    kind: ManifestFileEntry['kind'];
+    /** 源图层 id */
+    layerId: string;
+    /** 图层名称(树中找不到该图层时使用) */
+    name: string;
+    /** 导出图像的键,用于读取实际尺寸 */
+    imageKey: string;
+    /** 导出图像相对图层左上角的偏移(栅格化图层效果时为负) */
+    offsetX?: number;
+    offsetY?: number;
+    /** 文件像素相对导出图像的缩放比例,默认为 1 */
+    scale?: number;
+}
+
+/**
+ * 布局清单构建器
+ */
+export interface LayoutManifestBuilder {
+    /** 图层树 */
+    tree: LayerTreeNode[];
+    /** 来源文档 */
+    source: LayoutManifest['source'];
+    /** 记录一个已写入的文件 */
+    addFile: (record: ManifestFileRecord) => void;
+    /** 已记录的文件 */
+    getFiles: () => ManifestFileEntry[];
+    /** 生成清单 JSON */
+    serialize: () => string;
+}
+
+/**
+ * 图层树索引项
+ */
+interface IndexedNode {
+    node: LayerTreeNode;
+    parent: LayerTreeNode | null;
+    zOrder: number;
+}
+
+/**
+ * 按 id 索引图层树,并按自下而上的绘制顺序编号
+ */
+const indexTree = (tree: LayerTreeNode[]): Map<string, IndexedNode> => {
+    const index = new Map<string, IndexedNode>();
+    let order = 0;
+
+    const traverse = (nodes: LayerTreeNode[], parent: LayerTreeNode | null) => {
+        for (const node of nodes) {
+            index.set(node.id, { node, parent, zOrder: order++ });
+            if (node.children) {
+                traverse(node.children, node);
+            }
+        }
+    };
+
+    traverse(tree, null);
+    return index;
+};
+
+/**
+ * 将文件系统路径统一为 / 分隔
+ */
+export const toManifestPath = (path: string): string => path.replace(/\\/g, '/');
+
+/**
+ * 创建布局清单构建器
+ *
+ * @param tree - 图层树
+ * @param source - 来源文档信息
+ * @param format - 导出的图片格式
+ * @returns 构建器,导出过程中每写入一个文件调用 addFile,结束后 serialize 写入清单文件
+ *
+ * @example
+ * ```ts
+ * const manifest = createLayoutManifest(layerTree, { name: psdInfo.name, width, height }, 'png');
+ * manifest.addFile({ file: 'btn.png', kind: 'layer', layerId: layer.id, name: layer.name, imageKey });
+ * await writeFile(`${folder}/layout.json`, new TextEncoder().encode(manifest.serialize()));
+ * ```
+ */
+export const createLayoutManifest = (
+    tree: LayerTreeNode[],
+    source: LayoutManifest['source'],
+    format: string
+): LayoutManifestBuilder => {
+    const index = indexTree(tree);
+    const files: ManifestFileEntry[] = [];
+
+    const addFile = (record: ManifestFileRecord) => {
+        const indexed = index.get(record.layerId);
+        const node = indexed?.node;
+        const layer = node?.layer;
+        const bitmap = getImageBitmap(record.imageKey);
+
+        const left = (layer ? layer.left : node?.left) ?? 0;
+        const top = (layer ? layer.top : node?.top) ?? 0;
+        const rect: ManifestRect = {
+            x: left + (record.offsetX ?? 0),
+            y: top + (record.offsetY ?? 0),
+            width: bitmap?.width ?? layer?.width ?? node?.width ?? 0,
+            height: bitmap?.height ?? layer?.height ?? node?.height ?? 0,
+        };
+
+        files.push({
+            file: toManifestPath(record.file),
+            kind: record.kind,
+            layerId: record.layerId,
+            name: node?.name ?? record.name,
+            path: node?.path ?? record.name,
+            parentId: indexed?.parent?.id ?? null,
+            parentPath: indexed?.parent?.path ?? null,
+            rect,
+            anchor: {
+                x: source.width > 0 ? (rect.x + rect.width / 2) / source.width : 0,
+                y: source.height > 0 ? (rect.y + rect.height / 2) / source.height : 0,
+            },
+            zOrder: indexed?.zOrder ?? null,
+            opacity: layer ? getLayerOpacity(layer) : node ? getLayerOpacity(node) : 1,
+            blendMode: (layer ? layer.blendMode : node?.blendMode) ?? 'normal',
+            scale: record.scale ?? 1,
+        });
+    };
+
+    const serialize = () => {
+        const manifest: LayoutManifest = {
+            version: LAYOUT_MANIFEST_VERSION,
+            source,
+            format,
+            files,
+        };
+        return JSON.stringify(manifest, null, 2);
+    };
+
+    return { tree, source, addFile, getFiles: () => files, serialize };
+};
@@ -0,0 +1,244 @@
+/**
+ * MaxRects 矩形装箱模块
+ *
+ * 将一组矩形装入一张或多张尺寸受限的页面,使用 MaxRects 算法和"最短边优先"(Best Short Side Fit)
+ * 策略选择放置位置。与像素无关,只计算位置,由图集导出模块负责绘制。
+ */
+
+/**
+ * 待装箱的矩形
+ */
+export interface PackInput {
+    /** 标识 */
+    id: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * 装箱选项
+ */
+export interface PackOptions {
+    /** 页面最大宽度 */
+    maxWidth: number;
+    /** 页面最大高度 */
+    maxHeight: number;
+    /** 相邻矩形之间的间距 */
+    padding: number;
+    /** 是否允许旋转 90° 以节省空间 */
+    allowRotation: boolean;
+    /** 页面尺寸是否取 2 的幂 */
+    powerOfTwo: boolean;
+}
+
+/**
+ * 已放置的矩形
+ */
+export interface PackedRect {
+    id: string;
+    /** 在页面中的位置 */
+    x: number;
+    y: number;
+    /** 原始尺寸(未旋转) */
+    width: number;
+    height: number;
+    /** 是否旋转了 90°,旋转后在页面中占用 height × width */
+    rotated: boolean;
+}
+
+/**
+ * 装箱得到的页面
+ */
+export interface PackedPage {
+    width: number;
+    height: number;
+    rects: PackedRect[];
+}
+
+/**
+ * 装箱结果
+ */
+export interface PackResult {
+    pages: PackedPage[];
+    /** 超过页面最大尺寸、无法放置的矩形 id */
+    oversized: string[];
+}
+
+interface FreeRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * 不小于 value 的最小 2 的幂
+ */
+export const nextPowerOfTwo = (value: number): number => {
+    let result = 1;
+    while (result < value) result *= 2;
+    return result;
+};
+
+/**
+ * 不大于 value 的最大 2 的幂
+ */
+const previousPowerOfTwo = (value: number): number => {
+    let result = 1;
+    while (result * 2 <= value) result *= 2;
+    return result;
+};
+
+/**
+ * 判断 a 是否完全包含 b
+ */
+const contains = (a: FreeRect, b: FreeRect): boolean =>
+    b.x >= a.x && b.y >= a.y && b.x + b.width <= a.x + a.width && b.y + b.height <= a.y + a.height;
+
+/**
+ * 单个页面的 MaxRects 装箱器
+ */
+interface MaxRectsBin {
+    /** 已放置的矩形 */
+    placed: PackedRect[];
+    /** 尝试放置一个矩形,放不下时返回 false */
+    insert: (id: string, width: number, height: number) => boolean;
+}
+
+/**
+ * 创建单个页面的装箱器
+ *
+ * @param width - 页面宽度
+ * @param height - 页面高度
+ * @param padding - 每个矩形右侧和底部额外占用的间距
+ * @param allowRotation - 是否允许旋转
+ */
+const createBin = (width: number, height: number, padding: number, allowRotation: boolean): MaxRectsBin => {
+    let free: FreeRect[] = [{ x: 0, y: 0, width, height }];
+    const placed: PackedRect[] = [];
+
+    // 查找放置位置,返回占用区域和是否旋转;放不下时返回 null
+    const findPosition = (w: number, h: number): (FreeRect & { rotated: boolean }) | null => {
+        let best: (FreeRect & { rotated: boolean }) | null = null;
+        let bestShort = Infinity;
+        let bestLong = Infinity;
+
+        const tryFit = (rect: FreeRect, fitWidth: number, fitHeight: number, rotated: boolean) => {
+            if (fitWidth > rect.width || fitHeight > rect.height) return;
+            const leftoverX = rect.width - fitWidth;
+            const leftoverY = rect.height - fitHeight;
+            const short = Math.min(leftoverX, leftoverY);
+            const long = Math.max(leftoverX, leftoverY);
+            if (short < bestShort || (short === bestShort && long < bestLong)) {
+                best = { x: rect.x, y: rect.y, width: fitWidth, height: fitHeight, rotated };
+                bestShort = short;
+                bestLong = long;
+            }
+        };
+
+        for (const rect of free) {
+            tryFit(rect, w, h, false);
+            if (allowRotation && w !== h) {
+                tryFit(rect, h, w, true);
+            }
+        }
+        return best;
+    };
+
+    // 将已占用区域从空闲区域中切除
+    const splitFree = (used: FreeRect) => {
+        const next: FreeRect[] = [];
+        for (const rect of free) {
+            if (used.x >= rect.x + rect.width || used.x + used.width <= rect.x ||
+                used.y >= rect.y + rect.height || used.y + used.height <= rect.y) {
+                next.push(rect);
+                continue;
+            }
+            if (used.x > rect.x) {
+                next.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+            }
+            if (used.x + used.width < rect.x + rect.width) {
+                const x = used.x + used.width;
+                next.push({ x, y: rect.y, width: rect.x + rect.width - x, height: rect.height });
+            }
+            if (used.y > rect.y) {
+                next.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+            }
+            if (used.y + used.height < rect.y + rect.height) {
+                const y = used.y + used.height;
+                next.push({ x: rect.x, y, width: rect.width, height: rect.y + rect.height - y });
+            }
+        }
+
+        // 移除被其他空闲区域包含的区域(完全相同的只保留第一个)
+        free = next.filter((rect, i) =>
+            !next.some((other, j) => i !== j && contains(other, rect) && (!contains(rect, other) || j < i))
+        );
+    };
+
+    const insert = (id: string, w: number, h: number): boolean => {
+        const position = findPosition(w + padding, h + padding);
+        if (!position) return false;
+
+        splitFree(position);
+        placed.push({ id, x: position.x, y: position.y, width: w, height: h, rotated: position.rotated });
+        return true;
+    };
+
+    return { placed, insert };
+};
+
+/**
+ * 将矩形装入一张或多张页面
+ *
+ * 按最长边从大到小依次放置,当前页面放不下时开启新页面。
+ * 页面尺寸裁剪到实际使用的范围,开启 powerOfTwo 时向上取 2 的幂。
+ *
+ * @param inputs - 待装箱的矩形
+ * @param options - 装箱选项
+ * @returns 页面列表和无法放置的矩形
+ *
+ * @example
+ * ```ts
+ * const { pages } = packRects(
+ *     [{ id: 'a', width: 64, height: 32 }, { id: 'b', width: 16, height: 16 }],
+ *     { maxWidth: 1024, maxHeight: 1024, padding: 2, allowRotation: false, powerOfTwo: true }
+ * );
+ * ```
+ */
+export const packRects = (inputs: PackInput[], options: PackOptions): PackResult => {
+    const { padding, allowRotation, powerOfTwo } = options;
+    const maxWidth = powerOfTwo ? previousPowerOfTwo(options.maxWidth) : options.maxWidth;
+    const maxHeight = powerOfTwo ? previousPowerOfTwo(options.maxHeight) : options.maxHeight;
+
+    const fits = (input: PackInput) =>
+        (input.width <= maxWidth && input.height <= maxHeight) ||
+        (allowRotation && input.height <= maxWidth && input.width <= maxHeight);
+
+    const oversized = inputs.filter(input => !fits(input)).map(input => input.id);
+    const pending = inputs
+        .filter(fits)
+        .sort((a, b) => Math.max(b.width, b.height) - Math.max(a.width, a.height) || b.width * b.height - a.width * a.height);
+
+    const pages: PackedPage[] = [];
+    while (pending.length > 0) {
+        // 页面右侧和底部各多留一个间距,使最后一行/列也能放下(裁剪时去掉)
+        const bin = createBin(maxWidth + padding, maxHeight + padding, padding, allowRotation);
+        for (let i = 0; i < pending.length; i++) {
+            const input = pending[i];
+            if (bin.insert(input.id, input.width, input.height)) {
+                pending.splice(i--, 1);
+            }
+        }
+
+        const usedWidth = Math.max(...bin.placed.map(rect => rect.x + (rect.rotated ? rect.height : rect.width)));
+        const usedHeight = Math.max(...bin.placed.map(rect => rect.y + (rect.rotated ? rect.width : rect.height)));
+        pages.push({
+            width: powerOfTwo ? nextPowerOfTwo(usedWidth) : usedWidth,
+            height: powerOfTwo ? nextPowerOfTwo(usedHeight) : usedHeight,
+            rects: bin.placed,
+        });
+    }
+
+    return { pages, oversized };
+};
@@ -0,0 +1,180 @@
+/**
+ * Mipmap 生成模块
+ *
+ * 逐级将图像缩小一半(奇数尺寸向下取整,最小 1 像素),直到 1×1 或达到级数上限。
+ * 缩小在预乘 alpha 的浮点像素上进行,透明像素的颜色不会渗入边缘;
+ * 每一级由上一级生成,可选最近邻、盒式、三角(双线性)和 Lanczos3 滤波。
+ */
+
+import { MipmapFilter } from '../types';
+
+/**
+ * 可分离的滤波核
+ */
+interface FilterKernel {
+    /** 核半径(以目标像素为单位) */
+    radius: number;
+    weight: (x: number) => number;
+}
+
+const sinc = (x: number): number => {
+    if (x === 0) return 1;
+    const px = Math.PI * x;
+    return Math.sin(px) / px;
+};
+
+const KERNELS: Record<Exclude<MipmapFilter, 'nearest'>, FilterKernel> = {
+    box: { radius: 0.5, weight: x => (Math.abs(x) <= 0.5 ? 1 : 0) },
+    triangle: { radius: 1, weight: x => Math.max(0, 1 - Math.abs(x)) },
+    lanczos: { radius: 3, weight: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+};
+
+/**
+ * 一个目标像素的采样: 源像素下标和归一化权重
+ */
+interface Contribution {
+    indices: number[];
+    weights: number[];
+}
+
+/**
+ * 计算一维缩小时每个目标像素的采样,越界的源像素取边缘像素
+ */
+const computeContributions = (srcSize: number, dstSize: number, kernel: FilterKernel): Contribution[] => {
+    const scale = srcSize / dstSize;
+    const support = kernel.radius * scale;
+    const result: Contribution[] = [];
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) * scale - 0.5;
+        const indices: number[] = [];
+        const weights: number[] = [];
+        let total = 0;
+        for (let j = Math.floor(center - support); j <= Math.ceil(center + support); j++) {
+            const weight = kernel.weight((j - center) / scale);
+            if (weight === 0) continue;
+            indices.push(Math.min(srcSize - 1, Math.max(0, j)));
+            weights.push(weight);
+            total += weight;
+        }
+        result.push({ indices, weights: weights.map(weight => weight / total) });
+    }
+    return result;
+};
+
+/**
+ * 将预乘 alpha 的浮点像素缩小到指定尺寸
+ */
+const downsample = (
+    src: Float32Array,
+    srcWidth: number,
+    srcHeight: number,
+    dstWidth: number,
+    dstHeight: number,
+    filter: MipmapFilter
+): Float32Array => {
+    const dst = new Float32Array(dstWidth * dstHeight * 4);
+
+    if (filter === 'nearest') {
+        for (let y = 0; y < dstHeight; y++) {
+            const sy = Math.min(srcHeight - 1, Math.floor((y + 0.5) * srcHeight / dstHeight));
+            for (let x = 0; x < dstWidth; x++) {
+                const sx = Math.min(srcWidth - 1, Math.floor((x + 0.5) * srcWidth / dstWidth));
+                dst.set(src.subarray((sy * srcWidth + sx) * 4, (sy * srcWidth + sx) * 4 + 4), (y * dstWidth + x) * 4);
+            }
+        }
+        return dst;
+    }
+
+    const kernel = KERNELS[filter];
+
+    // 水平方向
+    const columns = computeContributions(srcWidth, dstWidth, kernel);
+    const temp = new Float32Array(dstWidth * srcHeight * 4);
+    for (let y = 0; y < srcHeight; y++) {
+        for (let x = 0; x < dstWidth; x++) {
+            const { indices, weights } = columns[x];
+            const out = (y * dstWidth + x) * 4;
+            for (let k = 0; k < indices.length; k++) {
+                const p = (y * srcWidth + indices[k]) * 4;
+                for (let c = 0; c < 4; c++) temp[out + c] += src[p + c] * weights[k];
+            }
+        }
+    }
+
+    // 垂直方向
+    const rows = computeContributions(srcHeight, dstHeight, kernel);
+    for (let y = 0; y < dstHeight; y++) {
+        const { indices, weights } = rows[y];
+        for (let x = 0; x < dstWidth; x++) {
+            const out = (y * dstWidth + x) * 4;
+            for (let k = 0; k < indices.length; k++) {
+                const p = (indices[k] * dstWidth + x) * 4;
+                for (let c = 0; c < 4; c++) dst[out + c] += temp[p + c] * weights[k];
+            }
+        }
+    }
+    return dst;
+};
+
+/**
+ * 转为预乘 alpha 的浮点像素
+ */
+const toPremultiplied = (image: ImageData): Float32Array => {
+    const { data } = image;
+    const result = new Float32Array(data.length);
+    for (let p = 0; p < data.length; p += 4) {
+        const alpha = data[p + 3] / 255;
+        result[p] = data[p] * alpha;
+        result[p + 1] = data[p + 1] * alpha;
+        result[p + 2] = data[p + 2] * alpha;
+        result[p + 3] = data[p + 3];
+    }
+    return result;
+};
+
+/**
+ * 预乘 alpha 的浮点像素转回 ImageData
+ *
+ * Lanczos 的负瓣可能使数值越界,截断结果同时写回 pixels,避免误差在后续级别中累积
+ */
+const fromPremultiplied = (pixels: Float32Array, width: number, height: number): ImageData => {
+    const image = new ImageData(width, height);
+    const { data } = image;
+    for (let p = 0; p < pixels.length; p += 4) {
+        const alpha = Math.min(255, Math.max(0, pixels[p + 3]));
+        pixels[p + 3] = alpha;
+        data[p + 3] = Math.round(alpha);
+        for (let c = 0; c < 3; c++) {
+            const value = Math.min(alpha, Math.max(0, pixels[p + c]));
+            pixels[p + c] = value;
+            data[p + c] = alpha === 0 ? 0 : Math.round(value * 255 / alpha);
+        }
+    }
+    return image;
+};
+
+/**
+ * 生成 mipmap 链
+ *
+ * @param source - 原图(第 0 级)
+ * @param filter - 缩小滤波
+ * @param maxLevels - 最大级数(含第 0 级)
+ * @returns 各级图像,第 0 级即 source
+ */
+export const generateMipmaps = (source: ImageData, filter: MipmapFilter, maxLevels: number): ImageData[] => {
+    const levels: ImageData[] = [source];
+    let pixels = toPremultiplied(source);
+    let width = source.width;
+    let height = source.height;
+
+    while ((width > 1 || height > 1) && levels.length < maxLevels) {
+        const nextWidth = Math.max(1, width >> 1);
+        const nextHeight = Math.max(1, height >> 1);
+        pixels = downsample(pixels, width, height, nextWidth, nextHeight, filter);
+        width = nextWidth;
+        height = nextHeight;
+        levels.push(fromPremultiplied(pixels, width, height));
+    }
+    return levels;
+};
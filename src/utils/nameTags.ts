@@ -0,0 +1,103 @@
+/**
+ * 图层名导出标签解析模块
+ *
+ * 解析 Photoshop Generator 风格的图层名,例如:
+ * - `btn_ok.png` → 导出为 btn_ok.png
+ * - `bg 50% hero.jpg`、`50% hero.jpg8` → 缩放 50% 导出为 hero.jpg,质量 0.8
+ * - `128x? icon.png`、`icons/icon@2x.png` → 指定尺寸;导出到子目录,未写缩放和尺寸时按倍率后缀缩放 2 倍
+ * - `icon.png, 200% icon@2x.png` → 用逗号分隔多个输出
+ *
+ * 不含可识别扩展名的部分视为普通名称被忽略。由解析 Worker 调用,不依赖 DOM 和 Tauri。
+ */
+
+import { LayerExportTag } from '../types';
+import { EXPORT_FORMAT_LIST } from './exportFormats';
+
+/**
+ * 单个标签: [缩放% | 宽x高] 文件名.扩展名[质量]
+ *
+ * 文件名不含空白;缩放和尺寸必须以空格与文件名分隔,尺寸中的 ? 表示按比例计算。
+ * 标签之前的文字(如 "bg 50% hero.jpg" 中的 bg)只是描述,不参与解析。
+ */
+const TAG_PATTERN = new RegExp(
+    String.raw`(?:^|\s)(?:(\d+(?:\.\d+)?)%\s+|(\d+|\?)(?:px)?\s*x\s*(\d+|\?)(?:px)?\s+)?([^\s,]+?)\.`
+    + `(${EXPORT_FORMAT_LIST.flatMap(format => format.extensions).join('|')})`
+    + String.raw`(\d+%?)?$`,
+    'i'
+);
+
+/** 扩展名对应的导出格式(见 utils/exportFormats) */
+const EXTENSION_FORMATS: Record<string, LayerExportTag['format']> = Object.fromEntries(
+    EXPORT_FORMAT_LIST.flatMap(format => format.extensions.map(extension => [extension, format.id]))
+);
+
+/** 文件名末尾的倍率后缀 */
+const SUFFIX_PATTERN = /@\d+(?:\.\d+)?x$/i;
+
+/**
+ * 解析质量写法: tagQuality 的格式支持 1-10 或百分比,不带 % 的 11-100 也按百分比(如 jpg80 为 0.8);
+ * 超出范围时忽略质量,沿用导出设置。其余格式的数字(如 png8、png24)不影响导出
+ */
+const parseQuality = (format: LayerExportTag['format'], value: string | undefined): number | undefined => {
+    if (!value || !EXPORT_FORMAT_LIST.find(info => info.id === format)?.tagQuality) return undefined;
+    const number = parseInt(value, 10);
+    const quality = value.endsWith('%') || number > 10 ? number / 100 : number / 10;
+    return quality > 0 && quality <= 1 ? quality : undefined;
+};
+
+/**
+ * 解析单个逗号分隔的部分,不是导出标签时返回 null
+ */
+const parseTag = (part: string): LayerExportTag | null => {
+    const match = TAG_PATTERN.exec(part.trim());
+    if (!match) return null;
+
+    const [, scaleText, widthText, heightText, fileName, extension, qualityText] = match;
+
+    const format = EXTENSION_FORMATS[extension.toLowerCase()];
+    const tag: LayerExportTag = { fileName, extension, format };
+
+    const quality = parseQuality(format, qualityText);
+    if (quality !== undefined) tag.quality = quality;
+
+    if (scaleText) {
+        const scale = parseFloat(scaleText) / 100;
+        if (scale > 0) tag.scale = scale;
+    } else if (widthText && heightText && !(widthText === '?' && heightText === '?')) {
+        if (widthText !== '?') tag.width = parseInt(widthText, 10);
+        if (heightText !== '?') tag.height = parseInt(heightText, 10);
+    }
+
+    const suffix = SUFFIX_PATTERN.exec(fileName);
+    if (suffix) {
+        tag.suffix = suffix[0];
+        // 没有写缩放和尺寸时按后缀倍率缩放,如 icon@2x.png 导出为 2 倍
+        const suffixScale = parseFloat(suffix[0].slice(1));
+        if (tag.scale === undefined && tag.width === undefined && tag.height === undefined && suffixScale > 0) {
+            tag.scale = suffixScale;
+        }
+    }
+
+    return tag;
+};
+
+/**
+ * 解析图层名中的导出标签
+ *
+ * @param name - 图层或图层组名称
+ * @returns 标签数组,名称中没有标签时为空数组
+ *
+ * @example
+ * ```ts
+ * parseLayerNameTags('icon.png, icon@2x.png, 50% icon@1x.png');
+ * // [{ fileName: 'icon', extension: 'png', format: 'png' },
+ * //  { fileName: 'icon@2x', extension: 'png', format: 'png', scale: 2, suffix: '@2x' },
+ * //  { fileName: 'icon@1x', extension: 'png', format: 'png', scale: 0.5, suffix: '@1x' }]
+ * ```
+ */
+export const parseLayerNameTags = (name: string): LayerExportTag[] => {
+    return name
+        .split(',')
+        .map(parseTag)
+        .filter((tag): tag is LayerExportTag => tag !== null);
+};
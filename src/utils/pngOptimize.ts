@@ -0,0 +1,30 @@
+/**
+ * PNG 优化模块
+ *
+ * 在浏览器编码的 32 位 PNG 基础上: 可选地量化为调色板 PNG-8(有损,见 colorQuantizer),
+ * 再用 oxipng 无损重新压缩。无损模式下结果不会比原文件大。
+ */
+
+import { PngOptimizeOptions } from '../types';
+import { quantizeImage } from './colorQuantizer';
+import { encodeIndexedPng } from './encoders/png8';
+import { optimizePngLossless } from './encoders/oxipng';
+
+/**
+ * 优化 PNG
+ *
+ * @param png - 浏览器编码的 PNG 文件字节
+ * @param imageData - 同一图像的像素,量化时使用
+ * @param options - 优化选项
+ * @returns Promise,resolve 时返回优化后的文件字节
+ */
+export const optimizePng = async (png: Uint8Array, imageData: ImageData, options: PngOptimizeOptions): Promise<Uint8Array> => {
+    let source = png;
+    if (options.colors > 0) {
+        const { palette, indices } = quantizeImage(imageData, options.colors, options.dither);
+        source = await encodeIndexedPng(indices, palette, imageData.width, imageData.height);
+    }
+
+    const optimized = await optimizePngLossless(source, options.level);
+    return optimized.length < source.length ? optimized : source;
+};
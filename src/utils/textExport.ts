@@ -0,0 +1,164 @@
+/**
+ * 文本导出工具模块
+ *
+ * 收集图层树中所有文字图层的内容和样式,导出为 JSON 或 CSV,
+ * 供本地化等流程在不打开 Photoshop 的情况下提取界面中的全部文本
+ */
+
+import { save } from '@tauri-apps/plugin-dialog';
+import { writeFile } from '@tauri-apps/plugin-fs';
+import { LayerTreeNode, TextInfo } from '../types';
+
+/**
+ * 文本导出格式
+ */
+export type TextExportFormat = 'json' | 'csv';
+
+/**
+ * 单条文本记录
+ */
+export interface TextLayerEntry extends TextInfo {
+    /** 图层 id */
+    id: string;
+    /** 图层名称 */
+    name: string;
+    /** 图层路径(从根到图层,用/分隔) */
+    path: string;
+    /** 是否被隐藏(自身或任一上级组在 hiddenLayers 中) */
+    hidden: boolean;
+    /** 图层左上角 X */
+    left: number;
+    /** 图层左上角 Y */
+    top: number;
+    /** 图层宽度 */
+    width: number;
+    /** 图层高度 */
+    height: number;
+}
+
+/**
+ * 按图层树顺序收集所有文字图层
+ *
+ * @param tree - 图层树
+ * @param hiddenLayers - 隐藏的图层 id 集合,用于标记 hidden 字段(隐藏图层同样会被收集)
+ * @returns 文本记录数组
+ *
+ * @example
+ * ```ts
+ * const entries = collectTextLayers(layerTree, hiddenLayers);
+ * console.log(`共 ${entries.length} 段文本`);
+ * ```
+ */
+export const collectTextLayers = (
+    tree: LayerTreeNode[],
+    hiddenLayers: Set<string> = new Set()
+): TextLayerEntry[] => {
+    const entries: TextLayerEntry[] = [];
+
+    const traverse = (nodes: LayerTreeNode[], parentHidden: boolean) => {
+        for (const node of nodes) {
+            const hidden = parentHidden || hiddenLayers.has(node.id);
+            if (node.isGroup) {
+                traverse(node.children || [], hidden);
+            } else if (node.layer?.text) {
+                const { layer } = node;
+                entries.push({
+                    id: layer.id,
+                    name: layer.name,
+                    path: node.path,
+                    hidden,
+                    left: layer.left ?? 0,
+                    top: layer.top ?? 0,
+                    width: layer.width,
+                    height: layer.height,
+                    ...layer.text!,
+                });
+            }
+        }
+    };
+
+    traverse(tree, false);
+    return entries;
+};
+
+/**
+ * 生成 JSON 文本
+ *
+ * @param entries - 文本记录
+ * @param source - 来源 PSD 文件名
+ */
+export const buildTextJson = (entries: TextLayerEntry[], source: string): string => {
+    return JSON.stringify({ source, count: entries.length, texts: entries }, null, 2);
+};
+
+/**
+ * 转义 CSV 字段(含逗号、引号或换行时加引号)
+ */
+const escapeCsvField = (value: unknown): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV 列: [表头, 取值] */
+const CSV_COLUMNS: Array<[string, (entry: TextLayerEntry) => unknown]> = [
+    ['id', entry => entry.id],
+    ['name', entry => entry.name],
+    ['path', entry => entry.path],
+    ['text', entry => entry.text],
+    ['font', entry => entry.fontName],
+    ['size', entry => entry.fontSize],
+    ['color', entry => entry.color],
+    ['alignment', entry => entry.alignment],
+    ['orientation', entry => entry.orientation],
+    ['left', entry => entry.left],
+    ['top', entry => entry.top],
+    ['width', entry => entry.width],
+    ['height', entry => entry.height],
+    ['hidden', entry => entry.hidden],
+];
+
+/**
+ * 生成 CSV 文本(带 UTF-8 BOM,Excel 可直接打开中文)
+ *
+ * 每个文字图层一行,多样式文本只列出第一个片段的样式
+ *
+ * @param entries - 文本记录
+ */
+export const buildTextCsv = (entries: TextLayerEntry[]): string => {
+    const lines = [CSV_COLUMNS.map(([header]) => header).join(',')];
+    for (const entry of entries) {
+        lines.push(CSV_COLUMNS.map(([, getValue]) => escapeCsvField(getValue(entry))).join(','));
+    }
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * 将图层树中的全部文本导出为 JSON 或 CSV 文件(使用 Tauri 保存文件)
+ *
+ * @param tree - 图层树
+ * @param format - 导出格式
+ * @param source - 来源 PSD 文件名(用作默认文件名)
+ * @param hiddenLayers - 隐藏的图层 id 集合
+ * @returns Promise,resolve 时返回导出的文本数量,用户取消时返回 null
+ */
+export const exportTextLayers = async (
+    tree: LayerTreeNode[],
+    format: TextExportFormat,
+    source: string,
+    hiddenLayers: Set<string> = new Set()
+): Promise<number | null> => {
+    const entries = collectTextLayers(tree, hiddenLayers);
+    const baseName = source.replace(/\.[^.]+$/, '') || 'texts';
+
+    const filePath = await save({
+        defaultPath: `${baseName}_texts.${format}`,
+        filters: [format === 'json'
+            ? { name: 'JSON 文件', extensions: ['json'] }
+            : { name: 'CSV 文件', extensions: ['csv'] }]
+    });
+    if (!filePath) return null;
+
+    const content = format === 'json' ? buildTextJson(entries, source) : buildTextCsv(entries);
+    await writeFile(filePath, new TextEncoder().encode(content));
+    return entries.length;
+};
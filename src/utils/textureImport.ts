@@ -0,0 +1,103 @@
+/**
+ * 贴图导入模块
+ *
+ * 将 BLP/TGA 贴图解码为只有一个图层的文档,供解析 Worker 与 PSD 走相同的推送流程。
+ * 第 0 级颜色图像作为图层图像,其余 mipmap 级别和 alpha 通道视图按 textureMipImageKey 另存,
+ * 在右侧预览面板中切换查看。
+ */
+
+import { APP_CONFIG } from '../config';
+import { Layer, LayerTreeNode, TextureInfo } from '../types';
+import { decodeBlp } from './decoders/blp';
+import { decodeTga } from './decoders/tga';
+import { layerImageKey, textureMipImageKey } from './imageStore';
+
+/** 贴图图层的 id */
+export const TEXTURE_LAYER_ID = 'texture';
+
+/** 贴图文档的分辨率(像素/英寸) */
+const TEXTURE_RESOLUTION = 72;
+
+/**
+ * 获取文件扩展名(小写,含点)
+ */
+const getExtension = (fileName: string): string => {
+    const dot = fileName.lastIndexOf('.');
+    return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+/**
+ * 判断文件是否按贴图导入
+ *
+ * @param fileName - 文件名
+ */
+export const isTextureFile = (fileName: string): boolean =>
+    (APP_CONFIG.FILE.TEXTURE_EXTENSIONS as readonly string[]).includes(getExtension(fileName));
+
+/**
+ * 生成 alpha 通道的灰度视图(不透明)
+ */
+const toAlphaView = (image: ImageData): ImageData => {
+    const view = new ImageData(image.width, image.height);
+    for (let p = 0; p < image.data.length; p += 4) {
+        view.data[p] = view.data[p + 1] = view.data[p + 2] = image.data[p + 3];
+        view.data[p + 3] = 255;
+    }
+    return view;
+};
+
+/**
+ * 解析贴图文件
+ *
+ * @param data - 文件字节
+ * @param fileName - 文件名,按扩展名选择解码器,去掉扩展名后作为图层名
+ * @returns 单图层文档,images 为按图像键存放的各级像素
+ */
+export const parseTextureFile = (
+    data: Uint8Array,
+    fileName: string
+): {
+    width: number;
+    height: number;
+    resolution: number;
+    tree: LayerTreeNode[];
+    layers: Layer[];
+    texture: TextureInfo;
+    images: Map<string, ImageData>;
+} => {
+    const { info, levels } = getExtension(fileName) === '.blp' ? decodeBlp(data) : decodeTga(data);
+    const { width, height } = levels[0];
+    const name = fileName.slice(0, fileName.length - getExtension(fileName).length) || fileName;
+
+    const images = new Map<string, ImageData>();
+    levels.forEach((level, i) => {
+        images.set(i === 0 ? layerImageKey(TEXTURE_LAYER_ID) : textureMipImageKey(i, false), level);
+        if (info.alphaBits > 0) {
+            images.set(textureMipImageKey(i, true), toAlphaView(level));
+        }
+    });
+
+    const layer: Layer = {
+        id: TEXTURE_LAYER_ID,
+        name,
+        type: 'layer',
+        visible: true,
+        opacity: 255,
+        blendMode: 'normal',
+        left: 0, right: width, top: 0, bottom: height,
+        width, height,
+        imageKey: layerImageKey(TEXTURE_LAYER_ID),
+        rawImageKey: null,
+        clipping: false,
+    };
+
+    return {
+        width,
+        height,
+        resolution: TEXTURE_RESOLUTION,
+        tree: [{ name, path: name, isGroup: false, id: TEXTURE_LAYER_ID, layer, imageKey: layer.imageKey, width, height }],
+        layers: [layer],
+        texture: info,
+        images,
+    };
+};
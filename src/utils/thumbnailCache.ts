@@ -0,0 +1,112 @@
+/**
+ * 缩略图缓存模块
+ *
+ * 图层树只需要很小的缩略图,直接显示全尺寸图像会为每一行解码整张图层。
+ * 这里按需将图像存储中的位图缩小到 APP_CONFIG.THUMBNAIL.MAX_SIZE 以内并编码为 object URL,
+ * 以图像键为索引放入容量固定的 LRU 缓存,淘汰时撤销 object URL。
+ */
+
+import { APP_CONFIG } from '../config';
+import { getImageBitmap } from './imageStore';
+import { createCanvas } from './imageUtils';
+
+/**
+ * 单个缩略图条目
+ */
+interface ThumbnailEntry {
+    /** 生成缩略图时使用的源位图,源图像被替换后缓存失效 */
+    source: ImageBitmap;
+    /** 缩略图 object URL */
+    url: Promise<string | null>;
+}
+
+// Map 保持插入顺序: 最早插入的即最久未使用的条目
+const cache = new Map<string, ThumbnailEntry>();
+
+const revokeEntry = (entry: ThumbnailEntry) => {
+    entry.url.then(url => {
+        if (url) URL.revokeObjectURL(url);
+    });
+};
+
+/**
+ * 淘汰超出容量的最久未使用条目
+ */
+const evictOverflow = () => {
+    while (cache.size > APP_CONFIG.THUMBNAIL.CACHE_SIZE) {
+        const oldestKey = cache.keys().next().value as string;
+        revokeEntry(cache.get(oldestKey)!);
+        cache.delete(oldestKey);
+    }
+};
+
+/**
+ * 将位图缩小并编码为 PNG object URL
+ */
+const renderThumbnail = async (bitmap: ImageBitmap): Promise<string | null> => {
+    const maxSize = APP_CONFIG.THUMBNAIL.MAX_SIZE;
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) return null;
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await (canvas instanceof OffscreenCanvas
+        ? canvas.convertToBlob({ type: 'image/png' })
+        : new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png')));
+    return blob ? URL.createObjectURL(blob) : null;
+};
+
+/**
+ * 获取图像的缩略图 URL
+ *
+ * 命中缓存时直接返回并标记为最近使用;源图像尚未到达时返回 null
+ *
+ * @param imageKey - 图像键
+ * @returns Promise,resolve 时返回缩略图 object URL
+ *
+ * @example
+ * ```ts
+ * const url = await getThumbnailUrl(node.imageKey);
+ * if (url) img.src = url;
+ * ```
+ */
+export const getThumbnailUrl = (imageKey: string): Promise<string | null> => {
+    const bitmap = getImageBitmap(imageKey);
+    const cached = cache.get(imageKey);
+
+    if (cached) {
+        cache.delete(imageKey);
+        if (cached.source === bitmap) {
+            cache.set(imageKey, cached);
+            return cached.url;
+        }
+        // 源图像已被替换或删除
+        revokeEntry(cached);
+    }
+
+    if (!bitmap) return Promise.resolve(null);
+
+    const url = renderThumbnail(bitmap).catch(error => {
+        console.error('生成缩略图失败:', error);
+        return null;
+    });
+    cache.set(imageKey, { source: bitmap, url });
+    evictOverflow();
+    return url;
+};
+
+/**
+ * 清空缩略图缓存并撤销所有 object URL
+ *
+ * 切换或重置文件时调用
+ */
+export const clearThumbnails = (): void => {
+    cache.forEach(revokeEntry);
+    cache.clear();
+};
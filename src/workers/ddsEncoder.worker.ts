@@ -0,0 +1,26 @@
+/**
+ * DDS 编码 Worker
+ *
+ * 块压缩(尤其是 BC7)和 mipmap 生成都是逐像素的纯计算,大图在主线程上会卡住界面,
+ * 因此每张图像在独立线程中编码,结果以 Transferable 方式转回主线程。
+ */
+
+import { encodeDds } from '../utils/encoders/dds';
+import { DdsWorkerRequest, DdsWorkerResponse } from '../types';
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<DdsWorkerRequest>) => {
+    const request = event.data;
+    if (request.type !== 'encode') return;
+
+    try {
+        const bytes = encodeDds(request.imageData, request.options);
+        const response: DdsWorkerResponse = { type: 'done', bytes };
+        worker.postMessage(response, [bytes.buffer]);
+    } catch (error) {
+        console.error('[DDS] Worker 编码失败:', error);
+        const response: DdsWorkerResponse = { type: 'error', message: error instanceof Error ? error.message : String(error) };
+        worker.postMessage(response);
+    }
+};
@@ -0,0 +1,41 @@
+/**
+ * DDS 编码 Worker 客户端
+ *
+ * 封装与 ddsEncoder.worker 的通信
+ */
+
+import { DdsOptions, DdsWorkerRequest, DdsWorkerResponse } from '../types';
+
+/**
+ * 在 Web Worker 中将图像编码为 DDS
+ *
+ * 每次编码创建一个独立的 Worker,结束后立即销毁。imageData 的像素缓冲会被转移给 Worker,
+ * 调用后不能再使用
+ *
+ * @param imageData - 图像像素
+ * @param options - DDS 选项
+ * @returns Promise,resolve 时返回 DDS 文件字节
+ */
+export const encodeDdsInWorker = (imageData: ImageData, options: DdsOptions): Promise<Uint8Array> => {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./ddsEncoder.worker.ts', import.meta.url), { type: 'module' });
+
+        worker.onmessage = (event: MessageEvent<DdsWorkerResponse>) => {
+            worker.terminate();
+            const message = event.data;
+            if (message.type === 'done') {
+                resolve(message.bytes);
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'DDS 编码 Worker 异常'));
+        };
+
+        const request: DdsWorkerRequest = { type: 'encode', imageData, options };
+        worker.postMessage(request, [imageData.data.buffer]);
+    });
+};
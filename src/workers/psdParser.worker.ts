@@ -0,0 +1,167 @@
+/**
+ * PSD 解析 Worker
+ *
+ * 在独立线程中完成 PSD 的读取、图层树构建和组合成,避免大文件解析时阻塞界面。
+ * BLP/TGA 贴图在此解码为单图层文档(见 utils/textureImport)。
+ * 解析结果按 PsdWorkerResponse 的顺序分批推送回主线程。
+ */
+
+import { initializeCanvas } from 'ag-psd';
+import { parseLayerTree } from '../psd-parser';
+import { AnyCanvas } from '../utils/imageUtils';
+import { isTextureFile, parseTextureFile } from '../utils/textureImport';
+import { APP_CONFIG } from '../config';
+import { ParseProgress, PsdWorkerRequest, PsdWorkerResponse } from '../types';
+
+// Worker 中没有 document,让 ag-psd 使用 OffscreenCanvas 创建图层画布
+initializeCanvas((width, height) => new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement);
+
+const worker = self as unknown as Worker;
+
+const post = (message: PsdWorkerResponse, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+};
+
+/**
+ * 将画布内容转为可转移的位图(OffscreenCanvas 零拷贝转移,转移后画布被清空)
+ */
+const toBitmap = (canvas: AnyCanvas): Promise<ImageBitmap> => {
+    if (canvas instanceof OffscreenCanvas) {
+        return Promise.resolve(canvas.transferToImageBitmap());
+    }
+    return createImageBitmap(canvas);
+};
+
+/**
+ * 创建进度汇报器
+ *
+ * 同一阶段内的进度按 APP_CONFIG.PARSER.PROGRESS_INTERVAL 节流,阶段切换时立即推送
+ */
+const createProgressReporter = (totalBytes: number) => {
+    const progress: ParseProgress = {
+        phase: 'reading',
+        bytesRead: 0,
+        totalBytes,
+        layersDecoded: 0,
+        totalLayers: 0,
+        thumbnailsGenerated: 0,
+        totalThumbnails: 0,
+        currentLayerName: null,
+    };
+    let lastPostTime = 0;
+    let lastPhase: ParseProgress['phase'] | null = null;
+
+    return (update: Partial<ParseProgress>, force: boolean = false) => {
+        Object.assign(progress, update);
+        const now = Date.now();
+        if (force || progress.phase !== lastPhase || now - lastPostTime >= APP_CONFIG.PARSER.PROGRESS_INTERVAL) {
+            lastPostTime = now;
+            lastPhase = progress.phase;
+            post({ type: 'progress', progress: { ...progress } });
+        }
+    };
+};
+
+/**
+ * 分块读取文件,每读取一块汇报一次字节进度
+ */
+const readFileWithProgress = async (file: File, onProgress: (bytesRead: number) => void): Promise<Uint8Array> => {
+    const data = new Uint8Array(file.size);
+    const reader = file.stream().getReader();
+    let offset = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        data.set(value, offset);
+        offset += value.length;
+        onProgress(offset);
+    }
+
+    return data;
+};
+
+/**
+ * 解析贴图文件并推送: 文档、各级 mipmap 与 alpha 视图位图、以第 0 级作为全图
+ */
+const parseTexture = async (data: Uint8Array, fileName: string, report: ReturnType<typeof createProgressReporter>) => {
+    const { width, height, resolution, tree, layers, texture, images } = parseTextureFile(data, fileName);
+    post({ type: 'document', width, height, resolution, tree, layers, texture });
+
+    let generated = 0;
+    report({
+        phase: 'encoding',
+        layersDecoded: 1,
+        totalLayers: 1,
+        thumbnailsGenerated: 0,
+        totalThumbnails: images.size,
+        currentLayerName: null,
+    });
+
+    for (const [imageKey, imageData] of images) {
+        const bitmap = await createImageBitmap(imageData);
+        post({ type: 'layer-image', imageKey, bitmap }, [bitmap]);
+        report({ thumbnailsGenerated: ++generated });
+    }
+
+    const bitmap = await createImageBitmap(images.get(layers[0].imageKey!)!);
+    post({ type: 'composite', bitmap }, [bitmap]);
+};
+
+worker.onmessage = async (event: MessageEvent<PsdWorkerRequest>) => {
+    const request = event.data;
+    if (request.type !== 'parse') return;
+
+    const report = createProgressReporter(request.file.size);
+
+    try {
+        const data = await readFileWithProgress(request.file, (bytesRead) => report({ bytesRead }));
+        report({ phase: 'decoding', bytesRead: request.file.size });
+
+        if (isTextureFile(request.file.name)) {
+            await parseTexture(data, request.file.name, report);
+            report({ currentLayerName: null }, true);
+            post({ type: 'done' });
+            return;
+        }
+
+        const { width, height, resolution, tree, layers, images, composite } = parseLayerTree(data, (decoded, total, name) => {
+            report({
+                phase: decoded === 0 ? 'decoding' : 'building',
+                layersDecoded: decoded,
+                totalLayers: total,
+                currentLayerName: name,
+            });
+        });
+
+        post({ type: 'document', width, height, resolution, tree, layers });
+
+        // 逐个转移图层位图,不在此处做 PNG 编码(由主线程按需编码)
+        // 组合成图已在 parseLayerTree 中绘制完成,此时转移叶子画布不会影响合成结果
+        let generated = 0;
+        report({
+            phase: 'encoding',
+            thumbnailsGenerated: 0,
+            totalThumbnails: images.size,
+            currentLayerName: null,
+        });
+
+        for (const [imageKey, { canvas, name }] of images) {
+            report({ currentLayerName: name });
+            const bitmap = await toBitmap(canvas);
+            post({ type: 'layer-image', imageKey, bitmap }, [bitmap]);
+            report({ thumbnailsGenerated: ++generated });
+        }
+
+        if (composite) {
+            const bitmap = await toBitmap(composite);
+            post({ type: 'composite', bitmap }, [bitmap]);
+        }
+
+        report({ currentLayerName: null }, true);
+        post({ type: 'done' });
+    } catch (error) {
+        console.error('[Parser] Worker 解析失败:', error);
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,119 @@
+/**
+ * PSD 解析 Worker 客户端
+ *
+ * 封装与 psdParser.worker 的通信,主线程通过回调逐步接收解析结果
+ */
+
+import { Layer, LayerTreeNode, ParseProgress, PsdWorkerRequest, PsdWorkerResponse, TextureInfo } from '../types';
+
+/**
+ * 解析过程回调
+ */
+export interface PsdParseHandlers {
+    /** 解析进度更新 */
+    onProgress?: (progress: ParseProgress) => void;
+    /** 图层树结构就绪(图片尚未编码) */
+    onDocument?: (doc: { width: number; height: number; resolution: number; tree: LayerTreeNode[]; layers: Layer[]; texture?: TextureInfo }) => void;
+    /** 某个图层的位图到达 */
+    onLayerImage?: (imageKey: string, bitmap: ImageBitmap) => void;
+    /** PSD 全图合成位图到达 */
+    onComposite?: (bitmap: ImageBitmap) => void;
+}
+
+/**
+ * 判断错误是否由取消解析引起
+ *
+ * @param error - 捕获到的错误
+ */
+export const isAbortError = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * 在 Web Worker 中解析 PSD 文件
+ *
+ * 每次解析创建一个独立的 Worker,解析结束(成功、失败或取消)后立即销毁
+ *
+ * @param file - 要解析的 PSD 文件
+ * @param handlers - 解析过程回调
+ * @param signal - 取消信号,触发后终止 Worker,Promise 以 AbortError reject,之后不再调用任何回调
+ * @returns Promise,全部结果推送完成后 resolve,解析失败时 reject
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * await parsePsdInWorker(file, {
+ *   onProgress: p => console.log(p.phase, p.bytesRead),
+ *   onDocument: doc => setLayerTree(doc.tree),
+ * }, controller.signal);
+ * ```
+ */
+export const parsePsdInWorker = (
+    file: File,
+    handlers: PsdParseHandlers = {},
+    signal?: AbortSignal
+): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('PSD 解析已取消', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('./psdParser.worker.ts', import.meta.url), { type: 'module' });
+
+        const handleAbort = () => {
+            worker.terminate();
+            reject(new DOMException('PSD 解析已取消', 'AbortError'));
+        };
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+
+        signal?.addEventListener('abort', handleAbort, { once: true });
+
+        worker.onmessage = (event: MessageEvent<PsdWorkerResponse>) => {
+            if (signal?.aborted) {
+                // 取消后到达的位图不会再被使用,立即释放
+                const message = event.data;
+                if (message.type === 'layer-image' || message.type === 'composite') {
+                    message.bitmap.close();
+                }
+                return;
+            }
+
+            const message = event.data;
+            switch (message.type) {
+                case 'progress':
+                    handlers.onProgress?.(message.progress);
+                    break;
+                case 'document':
+                    handlers.onDocument?.(message);
+                    break;
+                case 'layer-image':
+                    handlers.onLayerImage?.(message.imageKey, message.bitmap);
+                    break;
+                case 'composite':
+                    handlers.onComposite?.(message.bitmap);
+                    break;
+                case 'done':
+                    finish();
+                    resolve();
+                    break;
+                case 'error':
+                    finish();
+                    reject(new Error(message.message));
+                    break;
+            }
+        };
+
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'PSD 解析 Worker 异常'));
+        };
+
+        const request: PsdWorkerRequest = { type: 'parse', file };
+        worker.postMessage(request);
+    });
+};
@@ -8,6 +8,15 @@ const host = process.env.TAURI_DEV_HOST;
 export default defineConfig(async () => ({
   plugins: [react()],
 
+  // @jsquash 编码器通过 import.meta.url 加载 .wasm,预构建会破坏相对路径
+  optimizeDeps: {
+    exclude: ["@jsquash/webp", "@jsquash/avif", "@jsquash/oxipng"],
+  },
+  // AVIF 多线程编码器内部创建 Worker 并拆分代码块,只能输出为 ES 模块
+  worker: {
+    format: "es",
+  },
+
   // Vite options tailored for Tauri development and only applied in `tauri dev` or `tauri build`
   //
   // 1. prevent Vite from obscuring rust errors